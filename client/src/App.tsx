@@ -23,7 +23,8 @@ import CookingMode from "@/pages/cooking-mode";
 import NutritionPage from "@/pages/nutrition";
 import EventsPage from "@/pages/events";
 import EventDetailPage from "@/pages/event-detail";
-import { Home as HomeIcon, Refrigerator, ChefHat, Calendar, Users, ShoppingCart, UtensilsCrossed, Sparkles, Activity, PartyPopper } from "lucide-react";
+import SettingsPage from "@/pages/settings";
+import { Home as HomeIcon, Refrigerator, ChefHat, Calendar, Users, ShoppingCart, UtensilsCrossed, Sparkles, Activity, PartyPopper, Settings } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { NotificationsDropdown } from "@/components/notifications-dropdown";
 import { useAuth } from "@/hooks/useAuth";
@@ -43,6 +44,7 @@ function AppSidebar() {
     { icon: Activity, label: "Nutrition", path: "/nutrition", testId: "nav-nutrition" },
     { icon: Users, label: "Family", path: "/family", testId: "nav-family" },
     { icon: ShoppingCart, label: "Shopping List", path: "/shopping-list", testId: "nav-shopping" },
+    { icon: Settings, label: "Settings", path: "/settings", testId: "nav-settings" },
   ];
 
   return (
@@ -142,6 +144,7 @@ function Router() {
           <Route path="/nutrition" component={NutritionPage} />
           <Route path="/family" component={FamilyPage} />
           <Route path="/shopping-list" component={ShoppingListPage} />
+          <Route path="/settings" component={SettingsPage} />
         </>
       )}
       <Route component={NotFound} />
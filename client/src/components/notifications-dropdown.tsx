@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Bell, Check, ShoppingCart, Users, Calendar, Package } from "lucide-react";
+import { Bell, Check, ShoppingCart, Users, Calendar, Package, Timer, AlarmClock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -17,7 +17,7 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 type Notification = {
   id: string;
   recipientUserId: string;
-  type: 'shopping_assignment' | 'shopping_bought' | 'review_required' | 'meal_vote';
+  type: 'shopping_assignment' | 'shopping_bought' | 'review_required' | 'meal_vote' | 'expiring_items' | 'timer_finished';
   title: string;
   message: string | null;
   payload: any;
@@ -30,6 +30,8 @@ const notificationIcons = {
   shopping_bought: Check,
   review_required: Package,
   meal_vote: Calendar,
+  expiring_items: Timer,
+  timer_finished: AlarmClock,
 };
 
 export function NotificationsDropdown() {
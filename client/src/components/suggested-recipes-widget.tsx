@@ -2,15 +2,25 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
-import { ChefHat, Clock, Flame } from "lucide-react";
+import { ChefHat, Clock, Flame, Timer } from "lucide-react";
 import { Link } from "wouter";
+import { formatCookBefore } from "@/lib/utils";
 import type { Recipe } from "@shared/schema";
 
+type ExpiringRecipe = Recipe & {
+  expiringIngredients: Array<{ name: string; daysRemaining: number }>;
+  useBy: string | null;
+};
+
 export function SuggestedRecipesWidget() {
   const { data: recommendedRecipes, isLoading } = useQuery<Recipe[]>({
     queryKey: ["/api/recipes/recommended"],
   });
 
+  const { data: expiringRecipes = [] } = useQuery<ExpiringRecipe[]>({
+    queryKey: ["/api/recipes/recommended?mode=expiring"],
+  });
+
   if (isLoading) {
     return (
       <Card>
@@ -44,6 +54,27 @@ export function SuggestedRecipesWidget() {
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-3">
+        {expiringRecipes.length > 0 && expiringRecipes[0].useBy && (
+          <div className="rounded-lg border border-destructive/30 p-3 space-y-2" data-testid="use-it-up-section">
+            <p className="text-sm font-medium flex items-center gap-1.5 text-destructive">
+              <Timer className="w-4 h-4" />
+              {formatCookBefore(expiringRecipes[0].useBy)}
+            </p>
+            {expiringRecipes.slice(0, 2).map((recipe) => (
+              <Link key={recipe.id} href={`/recipes/${recipe.id}`}>
+                <div
+                  className="text-sm p-1.5 rounded hover-elevate cursor-pointer"
+                  data-testid={`expiring-recipe-${recipe.id}`}
+                >
+                  <span className="font-medium">{recipe.name}</span>
+                  <span className="block text-xs text-muted-foreground truncate">
+                    Uses {recipe.expiringIngredients.map(i => i.name).join(", ")}
+                  </span>
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
         {!recommendedRecipes || recommendedRecipes.length === 0 ? (
           <div className="text-center py-8" data-testid="no-suggestions-message">
             <ChefHat className="w-12 h-12 mx-auto mb-3 text-muted-foreground" />
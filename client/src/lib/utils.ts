@@ -1,6 +1,18 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { addDays, format, startOfDay } from "date-fns"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * "Cook these today", "Cook these by tomorrow", "Cook these before Friday"
+ */
+export function formatCookBefore(useBy: Date | string): string {
+  const date = new Date(useBy);
+  const today = startOfDay(new Date());
+  if (date < addDays(today, 1)) return "Cook these today";
+  if (date < addDays(today, 2)) return "Cook these by tomorrow";
+  return `Cook these before ${format(date, "EEEE")}`;
+}
@@ -1,37 +1,101 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useRoute, useLocation } from "wouter";
+import { useRoute, useLocation, useSearch } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
-import { ChevronLeft, ChevronRight, Pause, Play, CheckCircle, X } from "lucide-react";
+import { ChevronLeft, ChevronRight, Pause, Play, CheckCircle, X, Timer, Thermometer, Plus } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { Recipe, CookingSession } from "@shared/schema";
+import type { Recipe, CookingSession, CookingTimerWithRemaining, RecipeIngredient, RecipeStep } from "@shared/schema";
+
+type CompletionResult = {
+  session: CookingSession;
+  ingredientsDeducted: boolean;
+  deducted: Array<{ name: string; amount: number; unit: string; removed: boolean }>;
+  missing: Array<{ name: string; amount: number; unit: string; reason: string }>;
+};
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return minutes > 0 ? `${hours} h ${minutes} min` : `${hours} h`;
+  if (minutes > 0) return `${minutes} min`;
+  return `${seconds} s`;
+}
+
+function formatCountdown(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${rest}` : `${minutes}:${rest}`;
+}
 
 export default function CookingMode() {
   const [, params] = useRoute("/cooking/:recipeId");
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const recipeId = params?.recipeId;
+  // Servings picked on the recipe page; the session remembers them for deduction
+  const servings = Number(new URLSearchParams(useSearch()).get("servings")) || undefined;
 
   const [currentStep, setCurrentStep] = useState(0);
   const [isPaused, setIsPaused] = useState(false);
   const [showCompletionModal, setShowCompletionModal] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [customLabel, setCustomLabel] = useState("");
+  const [customMinutes, setCustomMinutes] = useState("");
+
+  const { data: activeSession } = useQuery<CookingSession | null>({
+    queryKey: ["/api/cooking-sessions/active"],
+  });
 
-  const { data: recipe, isLoading: recipeLoading } = useQuery<Recipe>({
+  // Per-step ingredient amounts follow the servings being cooked
+  const { data: sessionRecipe, isLoading: sessionRecipeLoading } = useQuery<Recipe>({
+    queryKey: ["/api/recipes", activeSession?.servings ? `${activeSession.recipeId}?servings=${activeSession.servings}` : activeSession?.recipeId],
+    enabled: !!activeSession?.recipeId,
+  });
+
+  // The active session belongs to this page when it cooks this recipe or the
+  // user's own variant of it; a session for another recipe is left alone
+  // until the user resumes or ends it
+  const session = activeSession && sessionRecipe &&
+    (activeSession.recipeId === recipeId || sessionRecipe.parentRecipeId === recipeId)
+    ? activeSession
+    : null;
+  const otherSession = activeSession && !session && !sessionRecipeLoading ? activeSession : null;
+
+  const { data: pageRecipe, isLoading: pageRecipeLoading } = useQuery<Recipe>({
     queryKey: ["/api/recipes", recipeId],
-    enabled: !!recipeId,
+    enabled: !!recipeId && !session,
   });
+  const recipe = session ? sessionRecipe : pageRecipe;
+  const recipeLoading = (!!activeSession && sessionRecipeLoading) || (!session && pageRecipeLoading);
 
-  const { data: activeSession } = useQuery<CookingSession | null>({
-    queryKey: ["/api/cooking-sessions/active"],
+  // Timers run on the server; polling keeps other devices in sync
+  const timersQueryKey = ["/api/cooking-sessions", session?.id, "timers"];
+  const { data: timers = [], dataUpdatedAt: timersUpdatedAt } = useQuery<CookingTimerWithRemaining[]>({
+    queryKey: timersQueryKey,
+    enabled: !!session?.id,
+    refetchInterval: 15000,
   });
 
   const startSessionMutation = useMutation({
     mutationFn: async () => {
-      return await apiRequest("POST", `/api/cooking-sessions`, { recipeId });
+      return await apiRequest("POST", `/api/cooking-sessions`, { recipeId, servings });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cooking-sessions/active"] });
+    },
+  });
+
+  // Abandon a session for another recipe so this one can start
+  const endOtherSessionMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", `/api/cooking-sessions/${otherSession!.id}`, { status: 'abandoned' });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/cooking-sessions/active"] });
@@ -39,45 +103,132 @@ export default function CookingMode() {
   });
 
   const updateSessionMutation = useMutation({
-    mutationFn: async (data: { currentStep?: number; status?: string; timers?: any[] }) => {
-      if (!activeSession?.id) return;
-      return await apiRequest("PUT", `/api/cooking-sessions/${activeSession.id}`, data);
+    mutationFn: async (data: { currentStep?: number; status?: string }) => {
+      if (!session?.id) return;
+      return await apiRequest("PUT", `/api/cooking-sessions/${session.id}`, data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/cooking-sessions/active"] });
     },
   });
 
+  const startTimerMutation = useMutation({
+    mutationFn: async (data: { label: string; durationSeconds: number; stepNumber?: number }) => {
+      return await apiRequest("POST", `/api/cooking-sessions/${session!.id}/timers`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: timersQueryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't start timer", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateTimerMutation = useMutation({
+    mutationFn: async ({ timerId, action }: { timerId: string; action: "pause" | "resume" }) => {
+      return await apiRequest("PATCH", `/api/cooking-sessions/${session!.id}/timers/${timerId}`, { action });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: timersQueryKey });
+    },
+  });
+
+  const deleteTimerMutation = useMutation({
+    mutationFn: async (timerId: string) => {
+      return await apiRequest("DELETE", `/api/cooking-sessions/${session!.id}/timers/${timerId}`);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: timersQueryKey });
+    },
+  });
+
   const completeSessionMutation = useMutation({
     mutationFn: async (deductIngredients: boolean) => {
-      if (!activeSession?.id) return;
-      return await apiRequest("POST", `/api/cooking-sessions/${activeSession.id}/complete`, { deductIngredients });
+      if (!session?.id) return null;
+      const res = await apiRequest("POST", `/api/cooking-sessions/${session.id}/complete`, { deductIngredients });
+      return await res.json() as CompletionResult;
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ["/api/cooking-sessions/active"] });
+      if (result?.ingredientsDeducted) {
+        queryClient.invalidateQueries({ queryKey: ["/api/kitchen-inventory"] });
+      }
+      const missingNames = Array.from(new Set(result?.missing.map(m => m.name) ?? []));
       toast({
         title: "Cooking completed!",
-        description: "Great job! Your meal is ready.",
+        description: result?.ingredientsDeducted
+          ? `Deducted ${result.deducted.length} ingredient${result.deducted.length === 1 ? "" : "s"} from your kitchen.` +
+            (missingNames.length > 0 ? ` Not found or short: ${missingNames.join(", ")}.` : "")
+          : "Great job! Your meal is ready.",
       });
       setLocation(`/recipes/${recipeId}`);
     },
   });
 
   useEffect(() => {
-    if (recipe && !activeSession && !startSessionMutation.isPending) {
+    if (recipe && activeSession === null && !startSessionMutation.isPending) {
       startSessionMutation.mutate();
     }
   }, [recipe, activeSession]);
 
   useEffect(() => {
-    if (activeSession) {
-      setCurrentStep(activeSession.currentStep || 0);
-      setIsPaused(activeSession.status === 'paused');
+    if (session) {
+      setCurrentStep(session.currentStep || 0);
+      setIsPaused(session.status === 'paused');
     }
-  }, [activeSession]);
+  }, [session]);
 
-  const steps = recipe?.instructions || [];
+  const steps: RecipeStep[] = recipe?.steps?.length
+    ? recipe.steps
+    : (recipe?.instructions || []).map(text => ({ text }));
   const totalSteps = steps.length;
+  const ingredients = (recipe?.ingredients as RecipeIngredient[] | undefined) || [];
+  const hasRunningTimer = timers.some(timer => timer.status === "running");
+
+  // Tick once a second while timers are running
+  useEffect(() => {
+    if (!hasRunningTimer) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasRunningTimer]);
+
+  // Count down locally from the server's remaining time as of the last fetch,
+  // so the device clock doesn't need to match the server's
+  const remainingSeconds = (timer: CookingTimerWithRemaining) =>
+    timer.status === "running"
+      ? Math.max(0, Math.ceil(timer.remainingSeconds - (now - timersUpdatedAt) / 1000))
+      : timer.remainingSeconds;
+
+  // Pick up the server's "finished" state (and its notification) once a timer runs out
+  const finishedLocally = timers.some(timer => timer.status === "running" && remainingSeconds(timer) === 0);
+  const refetchedFor = useRef(0);
+  useEffect(() => {
+    if (finishedLocally && refetchedFor.current !== timersUpdatedAt) {
+      refetchedFor.current = timersUpdatedAt;
+      const refetch = setTimeout(() => {
+        queryClient.invalidateQueries({ queryKey: timersQueryKey });
+        queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+      }, 1500);
+      return () => clearTimeout(refetch);
+    }
+  }, [finishedLocally, timersUpdatedAt]);
+
+  const handleStartTimer = (seconds: number, label?: string) => {
+    setNow(Date.now());
+    startTimerMutation.mutate({
+      label: label ? `${label[0].toUpperCase()}${label.slice(1)}` : `Step ${currentStep + 1}`,
+      durationSeconds: seconds,
+      stepNumber: currentStep,
+    });
+  };
+
+  const handleAddCustomTimer = () => {
+    const minutes = Number(customMinutes);
+    if (!(minutes > 0)) return;
+    handleStartTimer(Math.round(minutes * 60), customLabel.trim() || undefined);
+    setCustomLabel("");
+    setCustomMinutes("");
+  };
   const progress = totalSteps > 0 ? ((currentStep + 1) / totalSteps) * 100 : 0;
 
   const handleNextStep = () => {
@@ -105,7 +256,7 @@ export default function CookingMode() {
   };
 
   const handleExit = () => {
-    if (activeSession?.id) {
+    if (session?.id) {
       updateSessionMutation.mutate({ status: 'abandoned' });
     }
     setLocation(`/recipes/${recipeId}`);
@@ -126,6 +277,36 @@ export default function CookingMode() {
     );
   }
 
+  if (otherSession) {
+    const otherName = sessionRecipe?.name ?? "another recipe";
+    return (
+      <div className="flex items-center justify-center h-screen p-4">
+        <Card className="p-6 max-w-md text-center space-y-4" data-testid="card-other-session">
+          <div className="text-xl font-semibold">You're already cooking {otherName}</div>
+          <p className="text-muted-foreground">
+            End that session to start cooking {pageRecipe?.name ?? "this recipe"}, or go back to it.
+          </p>
+          <div className="flex flex-col gap-2">
+            <Button
+              onClick={() => setLocation(`/cooking/${otherSession.recipeId}`)}
+              data-testid="button-resume-other-session"
+            >
+              Resume {otherName}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => endOtherSessionMutation.mutate()}
+              disabled={endOtherSessionMutation.isPending}
+              data-testid="button-end-other-session"
+            >
+              End it and cook this recipe
+            </Button>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
   if (!recipe) {
     return (
       <div className="flex items-center justify-center h-screen">
@@ -208,10 +389,129 @@ export default function CookingMode() {
                 className="text-3xl leading-relaxed"
                 data-testid={`step-instruction-${currentStep}`}
               >
-                {steps[currentStep]}
+                {steps[currentStep].text}
               </p>
+
+              {(steps[currentStep].temperature || steps[currentStep].equipment?.length) && (
+                <div className="flex flex-wrap gap-2">
+                  {steps[currentStep].temperature && (
+                    <Badge variant="secondary" data-testid="badge-step-temperature">
+                      <Thermometer className="w-3 h-3 mr-1" />
+                      {steps[currentStep].temperature!.value}°{steps[currentStep].temperature!.unit}
+                    </Badge>
+                  )}
+                  {steps[currentStep].equipment?.map(item => (
+                    <Badge key={item} variant="outline">{item}</Badge>
+                  ))}
+                </div>
+              )}
+
+              {steps[currentStep].durations?.length ? (
+                <div className="flex flex-wrap gap-2">
+                  {steps[currentStep].durations!.map((duration, index) => (
+                    <Button
+                      key={index}
+                      variant="outline"
+                      onClick={() => handleStartTimer(duration.seconds, duration.label)}
+                      disabled={!session || startTimerMutation.isPending}
+                      data-testid={`button-start-timer-${index}`}
+                    >
+                      <Timer className="w-4 h-4 mr-2" />
+                      {duration.label ? `${duration.label[0].toUpperCase()}${duration.label.slice(1)} ` : ""}
+                      {formatDuration(duration.seconds)}
+                      {duration.maxSeconds ? `–${formatDuration(duration.maxSeconds)}` : ""}
+                    </Button>
+                  ))}
+                </div>
+              ) : null}
+
+              {steps[currentStep].ingredientRefs?.length ? (
+                <div>
+                  <div className="text-sm font-semibold text-muted-foreground mb-2">For this step</div>
+                  <ul className="space-y-1" data-testid="list-step-ingredients">
+                    {steps[currentStep].ingredientRefs!
+                      .filter(ref => ingredients[ref])
+                      .map(ref => (
+                        <li key={ref} className="text-lg">
+                          {[ingredients[ref].amount, ingredients[ref].unit, ingredients[ref].name].filter(Boolean).join(" ")}
+                        </li>
+                      ))}
+                  </ul>
+                </div>
+              ) : null}
             </div>
           </Card>
+
+          {timers.length > 0 && (
+            <div className="mt-4 grid gap-2 sm:grid-cols-2" data-testid="list-timers">
+              {timers.map(timer => {
+                const remaining = remainingSeconds(timer);
+                const done = timer.status === "finished" || remaining === 0;
+                return (
+                  <Card key={timer.id} className="p-4 flex items-center justify-between" data-testid={`card-timer-${timer.id}`}>
+                    <div>
+                      <div className="text-sm text-muted-foreground">
+                        {timer.label}
+                        {timer.stepNumber !== null && timer.stepNumber !== currentStep ? ` · Step ${timer.stepNumber + 1}` : ""}
+                      </div>
+                      <div className={`text-2xl font-semibold tabular-nums ${done ? "text-primary" : timer.status === "paused" ? "text-muted-foreground" : ""}`}>
+                        {done ? "Done!" : formatCountdown(remaining)}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {!done && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => updateTimerMutation.mutate({ timerId: timer.id, action: timer.status === "paused" ? "resume" : "pause" })}
+                          disabled={updateTimerMutation.isPending}
+                          data-testid={`button-toggle-timer-${timer.id}`}
+                        >
+                          {timer.status === "paused" ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteTimerMutation.mutate(timer.id)}
+                        data-testid={`button-clear-timer-${timer.id}`}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="mt-4 flex gap-2">
+            <Input
+              placeholder="Timer name"
+              value={customLabel}
+              onChange={(e) => setCustomLabel(e.target.value)}
+              maxLength={60}
+              data-testid="input-timer-label"
+            />
+            <Input
+              type="number"
+              min={1}
+              placeholder="Minutes"
+              value={customMinutes}
+              onChange={(e) => setCustomMinutes(e.target.value)}
+              className="w-28"
+              data-testid="input-timer-minutes"
+            />
+            <Button
+              variant="outline"
+              onClick={handleAddCustomTimer}
+              disabled={!(Number(customMinutes) > 0) || !session || startTimerMutation.isPending}
+              data-testid="button-add-timer"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add timer
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -7,10 +7,11 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/queryClient";
-import { Heart, MessageCircle, Share2, Refrigerator, Calendar, Users, Check, X, Clock, UtensilsCrossed, BarChart3, ChefHat, LogIn } from "lucide-react";
+import { Heart, MessageCircle, Share2, Refrigerator, Calendar, Users, Check, X, Clock, UtensilsCrossed, BarChart3, ChefHat, LogIn, Timer } from "lucide-react";
 import { Link } from "wouter";
 import { useEffect, useRef, useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { formatCookBefore } from "@/lib/utils";
 
 type PollOption = {
   value: string;
@@ -54,6 +55,14 @@ type FridgeStatus = {
   expiringCount: number;
 };
 
+type ExpiringRecipe = {
+  id: string;
+  name: string;
+  imageUrl: string | null;
+  expiringIngredients: Array<{ name: string; daysRemaining: number }>;
+  useBy: string | null;
+};
+
 type UpcomingDinner = {
   id: string;
   recipeName: string;
@@ -376,6 +385,51 @@ function FridgeStatusWidget() {
   );
 }
 
+function UseItUpWidget() {
+  const { data: recipes = [], isLoading } = useQuery<ExpiringRecipe[]>({
+    queryKey: ["/api/recipes/recommended?mode=expiring"],
+  });
+
+  if (isLoading) {
+    return <div className="h-32 bg-muted animate-pulse rounded-lg" />;
+  }
+
+  if (recipes.length === 0 || !recipes[0].useBy) return null;
+
+  return (
+    <Card className="p-4" data-testid="use-it-up-widget">
+      <h3 className="font-semibold mb-3 flex items-center gap-2">
+        <Timer className="w-4 h-4 text-destructive" />
+        {formatCookBefore(recipes[0].useBy)}
+      </h3>
+      <div className="space-y-2">
+        {recipes.slice(0, 3).map((recipe) => (
+          <Link key={recipe.id} href={`/recipes/${recipe.id}`}>
+            <div
+              className="flex items-center gap-3 p-2 rounded-lg hover-elevate cursor-pointer"
+              data-testid={`use-it-up-recipe-${recipe.id}`}
+            >
+              {recipe.imageUrl ? (
+                <img src={recipe.imageUrl} alt={recipe.name} className="w-10 h-10 rounded object-cover" />
+              ) : (
+                <div className="w-10 h-10 rounded bg-muted flex items-center justify-center">
+                  <ChefHat className="w-5 h-5 text-muted-foreground" />
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{recipe.name}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  Uses {recipe.expiringIngredients.map(i => i.name).join(", ")}
+                </p>
+              </div>
+            </div>
+          </Link>
+        ))}
+      </div>
+    </Card>
+  );
+}
+
 function UpcomingDinnersWidget() {
   const { data: dinners = [], isLoading } = useQuery<UpcomingDinner[]>({
     queryKey: ["/api/feed/upcoming-dinners"],
@@ -686,6 +740,7 @@ export default function ForYouPage() {
       <div className="w-80 border-l overflow-y-auto">
         <div className="p-4 space-y-4">
           <FridgeStatusWidget />
+          <UseItUpWidget />
           <UpcomingDinnersWidget />
           <FamilyStatusWidget />
           <MealRSVPsWidget />
@@ -7,16 +7,17 @@ import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Trash2, Calendar, X, Package, CheckCircle2, Search } from "lucide-react";
+import { Plus, Minus, Trash2, Calendar, X, Package, CheckCircle2, Search } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { IngredientImage } from "@/components/IngredientImage";
-import type { KitchenInventory, InsertKitchenInventory, InventoryReviewQueue } from "@shared/schema";
+import type { KitchenInventoryWithAddedBy, InsertKitchenInventory, InventoryReviewQueue, StorageLocation } from "@shared/schema";
 import { useAuth } from "@/hooks/useAuth";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 
-type Category = "fridge" | "pantry" | "other" | "pending";
+type Category = "fridge" | "freezer" | "pantry" | "other" | "pending";
 
 interface IngredientSuggestion {
   id: number;
@@ -38,10 +39,15 @@ export default function MyKitchen() {
     expirationDate: "",
   });
 
-  const { data: inventory, isLoading } = useQuery<KitchenInventory[]>({
+  const { data: inventory, isLoading } = useQuery<KitchenInventoryWithAddedBy[]>({
     queryKey: ["/api/kitchen-inventory"],
   });
 
+  const { data: storageLocations = [] } = useQuery<StorageLocation[]>({
+    queryKey: ["/api/storage-locations"],
+  });
+  const locationNames = new Map(storageLocations.map(location => [location.id, location.name]));
+
   const { data: reviewQueue, isLoading: reviewLoading } = useQuery<InventoryReviewQueue[]>({
     queryKey: ["/api/inventory-review-queue"],
   });
@@ -149,8 +155,8 @@ export default function MyKitchen() {
   });
 
   const deleteMutation = useMutation({
-    mutationFn: async (id: string) => {
-      await apiRequest("DELETE", `/api/kitchen-inventory/${id}`, undefined);
+    mutationFn: async ({ id, disposition }: { id: string; disposition: "used" | "discarded" | "expired" }) => {
+      await apiRequest("DELETE", `/api/kitchen-inventory/${id}`, { disposition });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/kitchen-inventory"] });
@@ -179,6 +185,74 @@ export default function MyKitchen() {
     },
   });
 
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, quantity }: { id: string; quantity: number }) => {
+      await apiRequest("PATCH", `/api/kitchen-inventory/${id}`, { quantity });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kitchen-inventory"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update amount. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const expirationMutation = useMutation({
+    mutationFn: async ({ id, expirationDate }: { id: string; expirationDate: string }) => {
+      await apiRequest("PATCH", `/api/kitchen-inventory/${id}`, { expirationDate });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kitchen-inventory"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update expiration date. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const consumeMutation = useMutation({
+    mutationFn: async ({ id, amount }: { id: string; amount: number }) => {
+      const res = await apiRequest("POST", `/api/kitchen-inventory/${id}/consume`, { amount });
+      return await res.json() as { removed: boolean };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kitchen-inventory"] });
+      if (result.removed) {
+        toast({
+          title: "All used up",
+          description: "The ingredient has been removed from your kitchen.",
+        });
+      }
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update amount. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleQuantityChange = (item: KitchenInventoryWithAddedBy, value: string) => {
+    const quantity = parseFloat(value);
+    const current = parseFloat(item.quantity || "0");
+    if (isNaN(quantity) || quantity < 0 || quantity === current) return;
+
+    // Lowering the amount is recorded as usage, raising it as an adjustment
+    if (quantity < current) {
+      consumeMutation.mutate({ id: item.id, amount: current - quantity });
+    } else {
+      updateMutation.mutate({ id: item.id, quantity });
+    }
+  };
+
   const handleAddItem = () => {
     if (!newItem.name.trim()) {
       toast({
@@ -193,7 +267,7 @@ export default function MyKitchen() {
     if (selectedCategory === 'pending') {
       toast({
         title: "Invalid category",
-        description: "Please select Fridge, Pantry, or Other to add items.",
+        description: "Please select Fridge, Freezer, Pantry, or Other to add items.",
         variant: "destructive",
       });
       return;
@@ -202,7 +276,7 @@ export default function MyKitchen() {
     addMutation.mutate({
       userId: user!.id,
       name: newItem.name,
-      category: selectedCategory as 'fridge' | 'pantry' | 'other',
+      category: selectedCategory as 'fridge' | 'freezer' | 'pantry' | 'other',
       quantity: newItem.quantity,
       unit: newItem.unit || null,
       expirationDate: newItem.expirationDate ? new Date(newItem.expirationDate) : null,
@@ -351,8 +425,9 @@ export default function MyKitchen() {
         {/* Left Column - Inventory List */}
         <div className="lg:col-span-2">
           <Tabs value={selectedCategory} onValueChange={(value) => setSelectedCategory(value as Category)}>
-            <TabsList className="grid w-full grid-cols-4 mb-6">
+            <TabsList className="grid w-full grid-cols-5 mb-6">
               <TabsTrigger value="fridge" data-testid="tab-fridge">Fridge</TabsTrigger>
+              <TabsTrigger value="freezer" data-testid="tab-freezer">Freezer</TabsTrigger>
               <TabsTrigger value="pantry" data-testid="tab-pantry">Pantry</TabsTrigger>
               <TabsTrigger value="other" data-testid="tab-other">Other</TabsTrigger>
               <TabsTrigger value="pending" data-testid="tab-pending">
@@ -433,13 +508,15 @@ export default function MyKitchen() {
                   </div>
                 </Card>
               ) : (
-                // Fridge/Pantry/Other Tabs
+                // Fridge/Freezer/Pantry/Other Tabs
                 <Card className="overflow-hidden">
                   <div 
                     className="relative min-h-[600px] p-6"
                     style={{
                       background: selectedCategory === 'fridge' 
                         ? 'linear-gradient(180deg, #f0f4f8 0%, #e8eef4 50%, #dce4ec 100%)'
+                        : selectedCategory === 'freezer'
+                        ? 'linear-gradient(180deg, #eaf4fb 0%, #dcecf7 50%, #cfe3f2 100%)'
                         : selectedCategory === 'pantry'
                         ? 'linear-gradient(180deg, #fef3e2 0%, #fcecd0 50%, #fae5c0 100%)'
                         : 'linear-gradient(180deg, #f5f5f5 0%, #e8e8e8 50%, #d8d8d8 100%)'
@@ -491,31 +568,118 @@ export default function MyKitchen() {
                                 />
                                 <div className="flex-1 min-w-0">
                                   <h3 className="font-semibold text-sm mb-1 line-clamp-2">{item.name}</h3>
-                                  <p className="text-xs text-muted-foreground">
-                                    {item.quantity} {item.unit || "unit(s)"}
-                                  </p>
+                                  <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      className="h-6 w-6"
+                                      onClick={() => consumeMutation.mutate({ id: item.id, amount: Math.min(1, parseFloat(item.quantity || "0")) || 1 })}
+                                      disabled={consumeMutation.isPending}
+                                      data-testid={`button-use-one-${item.id}`}
+                                    >
+                                      <Minus className="w-3 h-3" />
+                                    </Button>
+                                    <Input
+                                      key={item.quantity}
+                                      type="number"
+                                      min="0"
+                                      step="any"
+                                      defaultValue={item.quantity || "0"}
+                                      className="h-6 w-14 px-1 text-xs text-center"
+                                      onBlur={(e) => handleQuantityChange(item, e.target.value)}
+                                      onKeyDown={(e) => {
+                                        if (e.key === "Enter") e.currentTarget.blur();
+                                      }}
+                                      data-testid={`input-quantity-${item.id}`}
+                                    />
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      className="h-6 w-6"
+                                      onClick={() => updateMutation.mutate({ id: item.id, quantity: parseFloat(item.quantity || "0") + 1 })}
+                                      disabled={updateMutation.isPending}
+                                      data-testid={`button-add-one-${item.id}`}
+                                    >
+                                      <Plus className="w-3 h-3" />
+                                    </Button>
+                                    <span className="truncate">{item.unit || "unit(s)"}</span>
+                                  </div>
+                                  {item.locationId && locationNames.has(item.locationId) && (
+                                    <p className="text-xs text-muted-foreground" data-testid={`text-location-${item.id}`}>
+                                      {locationNames.get(item.locationId)}
+                                    </p>
+                                  )}
+                                  {item.familyId && item.addedBy && item.addedBy.id !== user?.id && (
+                                    <p className="text-xs text-muted-foreground" data-testid={`text-added-by-${item.id}`}>
+                                      Added by {item.addedBy.firstName || "a family member"}
+                                    </p>
+                                  )}
                                 </div>
-                                <Button
-                                  variant="ghost"
-                                  size="icon"
-                                  className="h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity"
-                                  onClick={() => deleteMutation.mutate(item.id)}
-                                  data-testid={`button-delete-${item.id}`}
-                                >
-                                  <Trash2 className="w-4 h-4" />
-                                </Button>
+                                <DropdownMenu>
+                                  <DropdownMenuTrigger asChild>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      className="h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity"
+                                      data-testid={`button-delete-${item.id}`}
+                                    >
+                                      <Trash2 className="w-4 h-4" />
+                                    </Button>
+                                  </DropdownMenuTrigger>
+                                  <DropdownMenuContent align="end">
+                                    <DropdownMenuItem
+                                      onClick={() => deleteMutation.mutate({ id: item.id, disposition: "used" })}
+                                      data-testid={`button-remove-used-${item.id}`}
+                                    >
+                                      Used it up
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem
+                                      onClick={() => deleteMutation.mutate({ id: item.id, disposition: daysUntilExpiry !== null && daysUntilExpiry < 0 ? "expired" : "discarded" })}
+                                      data-testid={`button-remove-discarded-${item.id}`}
+                                    >
+                                      Threw it out
+                                    </DropdownMenuItem>
+                                  </DropdownMenuContent>
+                                </DropdownMenu>
                               </div>
                               {item.expirationDate && (
-                                <div className={`flex items-center gap-1 text-xs ${isExpiring ? 'text-destructive font-medium' : 'text-muted-foreground'}`}>
-                                  <Calendar className="w-3 h-3" />
-                                  <span>
-                                    {daysUntilExpiry! < 0
-                                      ? "Expired"
-                                      : daysUntilExpiry === 0
-                                      ? "Expires today"
-                                      : `${daysUntilExpiry}d left`}
-                                  </span>
-                                </div>
+                                <Popover>
+                                  <PopoverTrigger asChild>
+                                    <button
+                                      className={`flex items-center gap-1 text-xs ${isExpiring ? 'text-destructive font-medium' : 'text-muted-foreground'}`}
+                                      data-testid={`button-edit-expiration-${item.id}`}
+                                    >
+                                      <Calendar className="w-3 h-3" />
+                                      <span>
+                                        {daysUntilExpiry! < 0
+                                          ? "Expired"
+                                          : daysUntilExpiry === 0
+                                          ? "Expires today"
+                                          : `${daysUntilExpiry}d left`}
+                                        {item.expirationEstimated && " (est.)"}
+                                      </span>
+                                    </button>
+                                  </PopoverTrigger>
+                                  <PopoverContent className="w-56 space-y-2" align="start">
+                                    <Label htmlFor={`expiration-${item.id}`} className="text-xs">Expiration date</Label>
+                                    <Input
+                                      id={`expiration-${item.id}`}
+                                      type="date"
+                                      defaultValue={new Date(item.expirationDate).toISOString().slice(0, 10)}
+                                      onChange={(e) => {
+                                        if (e.target.value) {
+                                          expirationMutation.mutate({ id: item.id, expirationDate: e.target.value });
+                                        }
+                                      }}
+                                      data-testid={`input-expiration-${item.id}`}
+                                    />
+                                    {item.expirationEstimated && (
+                                      <p className="text-xs text-muted-foreground">
+                                        Estimated from typical shelf life. Corrections improve future estimates.
+                                      </p>
+                                    )}
+                                  </PopoverContent>
+                                </Popover>
                               )}
                             </CardContent>
                           </Card>
@@ -546,6 +710,12 @@ export default function MyKitchen() {
                     {inventory?.filter(i => i.category === 'fridge').length || 0}
                   </span>
                 </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">In Freezer</span>
+                  <span className="font-semibold">
+                    {inventory?.filter(i => i.category === 'freezer').length || 0}
+                  </span>
+                </div>
                 <div className="flex items-center justify-between">
                   <span className="text-muted-foreground">In Pantry</span>
                   <span className="font-semibold">
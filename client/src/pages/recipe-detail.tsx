@@ -1,4 +1,4 @@
-import { useParams, useLocation } from "wouter";
+import { useParams, useLocation, Link } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -10,14 +10,16 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Clock, Flame, Users, Star, MessageSquare, ChefHat, Check, ShoppingCart, Plus } from "lucide-react";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Clock, Flame, Users, Star, MessageSquare, ChefHat, Check, ShoppingCart, Plus, Minus, Download, Trash2, GitFork } from "lucide-react";
 import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { useAuth } from "@/hooks/useAuth";
 import { IngredientImage } from "@/components/IngredientImage";
-import type { Recipe, KitchenInventory, ShoppingList, RecipeIngredient } from "@shared/schema";
+import { MAX_SERVINGS, type RecipeVisibility, type Recipe, type KitchenInventory, type ShoppingList, type RecipeIngredient } from "@shared/schema";
 
 type RecipeRating = {
   id: string;
@@ -40,8 +42,25 @@ type RecipeWithRatings = Recipe & {
   userRating: RecipeRating | null;
   ownedIngredients?: RecipeIngredient[];
   missingIngredients?: RecipeIngredient[];
+  parentRecipe?: { id: string; name: string } | null;
+  userVariant?: { id: string; name: string } | null;
 };
 
+// What a variant changes compared with its parent (GET /api/recipes/:id/parent-diff)
+type ParentDiff = {
+  parent: { id: string; name: string };
+  diff: {
+    changed: boolean;
+    fields: Array<{ field: string; before: unknown; after: unknown }>;
+    ingredients: Array<{ type: "added" | "removed" | "changed"; name: string; before?: RecipeIngredient; after?: RecipeIngredient }>;
+    instructions: Array<{ type: "added" | "removed" | "unchanged"; text: string }>;
+  };
+};
+
+function formatIngredient(ingredient?: RecipeIngredient): string {
+  return ingredient ? [ingredient.amount, ingredient.unit, ingredient.name].filter(Boolean).join(" ") : "";
+}
+
 export default function RecipeDetail() {
   const { id } = useParams<{ id: string }>();
   const { toast } = useToast();
@@ -49,19 +68,28 @@ export default function RecipeDetail() {
   const [, setLocation] = useLocation();
   const [isRatingDialogOpen, setIsRatingDialogOpen] = useState(false);
   const [isAddToListDialogOpen, setIsAddToListDialogOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [selectedListId, setSelectedListId] = useState<string>("");
   const [rating, setRating] = useState(5);
   const [comment, setComment] = useState("");
+  // null shows the recipe at its own serving count
+  const [servings, setServings] = useState<number | null>(null);
 
   const { data: recipe, isLoading } = useQuery<RecipeWithRatings>({
-    queryKey: ["/api/recipes", id],
+    queryKey: ["/api/recipes", id, servings],
     queryFn: async () => {
-      const res = await fetch(`/api/recipes/${id}`, { credentials: "include" });
+      const query = servings ? `?servings=${servings}` : "";
+      const res = await fetch(`/api/recipes/${id}${query}`, { credentials: "include" });
       if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
       return await res.json();
     },
   });
 
+  const { data: parentDiff } = useQuery<ParentDiff>({
+    queryKey: ["/api/recipes", id, "parent-diff"],
+    enabled: !!user && !!recipe?.parentRecipe,
+  });
+
   const { data: shoppingLists } = useQuery<ShoppingList[]>({
     queryKey: ["/api/shopping-lists"],
     enabled: !!user,
@@ -79,6 +107,63 @@ export default function RecipeDetail() {
     }
   }, [recipe?.id, user]);
 
+  const visibilityMutation = useMutation({
+    mutationFn: async (visibility: RecipeVisibility) => {
+      return await apiRequest("PATCH", `/api/recipes/${id}`, { visibility });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recipes", id] });
+      toast({ title: "Sharing updated" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const forkMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/recipes/${id}/fork`, { name: `${recipe?.name} (my version)` });
+      return await res.json() as Recipe;
+    },
+    onSuccess: (variant) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recipes", id] });
+      toast({
+        title: "Variant created",
+        description: "Edit it with your tweaks; meal plans and cooking mode will use it.",
+      });
+      setLocation(`/recipes/${variant.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not fork recipe",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("DELETE", `/api/recipes/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recipes"] });
+      toast({ title: "Recipe deleted" });
+      setLocation("/recipes");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not delete recipe",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const rateMutation = useMutation({
     mutationFn: async ({ rating, comment }: { rating: number; comment: string }) => {
       return await apiRequest("POST", `/api/recipes/${id}/rate`, { rating, comment });
@@ -201,6 +286,11 @@ export default function RecipeDetail() {
   const ingredients = (recipe.ingredients as unknown as { name: string; amount: string; unit: string }[]) || [];
   const instructions = recipe.instructions || [];
 
+  const changeServings = (delta: number) => {
+    const current = recipe.servings || 1;
+    setServings(Math.min(Math.max(current + delta, 1), MAX_SERVINGS));
+  };
+
   return (
     <div className="p-6 max-w-4xl mx-auto space-y-6">
       {/* Hero Section */}
@@ -225,6 +315,42 @@ export default function RecipeDetail() {
         {recipe.description && (
           <p className="text-muted-foreground mt-2">{recipe.description}</p>
         )}
+        {recipe.parentRecipe && (
+          <p className="text-sm text-muted-foreground mt-2" data-testid="text-parent-recipe">
+            Variant of <Link href={`/recipes/${recipe.parentRecipe.id}`} className="underline">{recipe.parentRecipe.name}</Link>
+          </p>
+        )}
+        {recipe.userVariant && (
+          <p className="text-sm text-muted-foreground mt-2" data-testid="text-user-variant">
+            You cook your own variant: <Link href={`/recipes/${recipe.userVariant.id}`} className="underline">{recipe.userVariant.name}</Link>
+          </p>
+        )}
+        {user && recipe.authorId === user.id && (
+          <div className="flex items-center gap-2 mt-4">
+            <Select
+              value={recipe.visibility}
+              onValueChange={(value) => visibilityMutation.mutate(value as RecipeVisibility)}
+            >
+              <SelectTrigger className="w-40" data-testid="select-recipe-visibility">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="private">Only me</SelectItem>
+                <SelectItem value="family">My family</SelectItem>
+                <SelectItem value="public">Everyone</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setIsDeleteDialogOpen(true)}
+              disabled={deleteMutation.isPending}
+              data-testid="button-delete-recipe"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
       </div>
 
       {/* Stats */}
@@ -256,9 +382,29 @@ export default function RecipeDetail() {
         {recipe.servings && (
           <div className="flex items-center gap-2">
             <Users className="w-4 h-4 text-muted-foreground" />
-            <span className="text-sm">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => changeServings(-1)}
+              disabled={recipe.servings <= 1}
+              data-testid="button-decrease-servings"
+            >
+              <Minus className="w-3 h-3" />
+            </Button>
+            <span className="text-sm" data-testid="text-servings">
               Serves {recipe.servings}
             </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => changeServings(1)}
+              disabled={recipe.servings >= MAX_SERVINGS}
+              data-testid="button-increase-servings"
+            >
+              <Plus className="w-3 h-3" />
+            </Button>
           </div>
         )}
         {recipe.averageRating !== null && (
@@ -331,12 +477,44 @@ export default function RecipeDetail() {
       
       <Button 
         className="flex-1" 
-        onClick={() => setLocation(`/cooking/${recipe.id}`)}
+        onClick={() => setLocation(servings ? `/cooking/${recipe.id}?servings=${servings}` : `/cooking/${recipe.id}`)}
         data-testid="button-start-cooking"
       >
         <ChefHat className="w-4 h-4 mr-2" />
         Start Cooking
       </Button>
+
+      {user && !recipe.userVariant && (
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => forkMutation.mutate()}
+          disabled={forkMutation.isPending}
+          title="Make my own variant"
+          data-testid="button-fork-recipe"
+        >
+          <GitFork className="w-4 h-4" />
+        </Button>
+      )}
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="icon" data-testid="button-export-recipe">
+            <Download className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem asChild data-testid="button-export-html">
+            <a href={`/api/recipes/${recipe.id}/export?format=html`} target="_blank" rel="noreferrer">Print card</a>
+          </DropdownMenuItem>
+          <DropdownMenuItem asChild data-testid="button-export-markdown">
+            <a href={`/api/recipes/${recipe.id}/export?format=markdown`}>Markdown</a>
+          </DropdownMenuItem>
+          <DropdownMenuItem asChild data-testid="button-export-jsonld">
+            <a href={`/api/recipes/${recipe.id}/export?format=jsonld`}>JSON-LD</a>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
       </div>
 
       {/* Ingredients */}
@@ -454,6 +632,36 @@ export default function RecipeDetail() {
         </CardContent>
       </Card>
 
+      {/* Changes from the parent recipe */}
+      {parentDiff?.diff.changed && (
+        <Card data-testid="card-parent-diff">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <GitFork className="w-5 h-5" />
+              Changes from {parentDiff.parent.name}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {parentDiff.diff.ingredients.map((change, index) => (
+              <div key={`ingredient-${index}`} className="flex gap-2">
+                <Badge variant={change.type === "removed" ? "destructive" : "secondary"}>{change.type}</Badge>
+                <span>
+                  {change.type === "changed"
+                    ? `${formatIngredient(change.before)} → ${formatIngredient(change.after)}`
+                    : formatIngredient(change.after ?? change.before)}
+                </span>
+              </div>
+            ))}
+            {parentDiff.diff.instructions.filter(line => line.type !== "unchanged").map((line, index) => (
+              <div key={`step-${index}`} className="flex gap-2">
+                <Badge variant={line.type === "removed" ? "destructive" : "secondary"}>{line.type} step</Badge>
+                <span className={line.type === "removed" ? "line-through text-muted-foreground" : ""}>{line.text}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Reviews */}
       {recipe.ratings.length > 0 && (
         <Card>
@@ -500,6 +708,27 @@ export default function RecipeDetail() {
           </CardContent>
         </Card>
       )}
+
+      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <AlertDialogContent data-testid="dialog-delete-recipe">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Recipe?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete {recipe.name} and its version history. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete-recipe">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteMutation.mutate()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-delete-recipe"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
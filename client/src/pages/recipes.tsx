@@ -18,6 +18,7 @@ type RecipeWithRating = Recipe & {
   averageRating?: number;
   ratingCount?: number;
   matchPercentage?: number;
+  matchedIngredients?: { name: string; inventoryName: string; confidence: number; explanation: string }[];
 };
 
 export default function Recipes() {
@@ -240,7 +241,12 @@ export default function Recipes() {
                     </div>
                   )}
                   {recipe.matchPercentage !== undefined && recipe.matchPercentage > 0 && (
-                    <Badge className="absolute top-2 left-2 flex items-center gap-1" variant="secondary" data-testid={`badge-match-${recipe.id}`}>
+                    <Badge
+                      className="absolute top-2 left-2 flex items-center gap-1"
+                      variant="secondary"
+                      title={recipe.matchedIngredients?.map(match => `${match.name}: ${match.explanation}`).join("\n")}
+                      data-testid={`badge-match-${recipe.id}`}
+                    >
                       <Refrigerator className="w-3 h-3" />
                       {recipe.matchPercentage}%
                     </Badge>
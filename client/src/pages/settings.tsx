@@ -0,0 +1,95 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type NotificationPreferences = {
+  expirationReminders: {
+    enabled: boolean;
+    leadDays: number;
+  };
+};
+
+// The API accepts 0-14 days of lead time
+const LEAD_DAY_OPTIONS = Array.from({ length: 15 }, (_, days) => days);
+
+function formatLeadDays(days: number): string {
+  if (days === 0) return "On the day";
+  return days === 1 ? "1 day before" : `${days} days before`;
+}
+
+export default function SettingsPage() {
+  const { toast } = useToast();
+
+  const { data: preferences, isLoading } = useQuery<NotificationPreferences>({
+    queryKey: ["/api/notifications/preferences"],
+  });
+
+  const updatePreferencesMutation = useMutation({
+    mutationFn: async (expirationReminders: Partial<NotificationPreferences["expirationReminders"]>) => {
+      const res = await apiRequest("PUT", "/api/notifications/preferences", { expirationReminders });
+      return await res.json() as NotificationPreferences;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/notifications/preferences"], updated);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save settings", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const reminders = preferences?.expirationReminders;
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-large-title">Settings</h1>
+        <p className="text-muted-foreground">Choose how the app keeps you posted</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Expiration reminders</CardTitle>
+          <CardDescription>
+            Get a notification when food in your kitchen is about to expire.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="expiration-reminders-enabled">Send expiration reminders</Label>
+            <Switch
+              id="expiration-reminders-enabled"
+              checked={reminders?.enabled ?? false}
+              disabled={isLoading || updatePreferencesMutation.isPending}
+              onCheckedChange={(enabled) => updatePreferencesMutation.mutate({ enabled })}
+              data-testid="switch-expiration-reminders"
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="expiration-reminder-days">Remind me</Label>
+            <Select
+              value={reminders ? String(reminders.leadDays) : undefined}
+              disabled={isLoading || !reminders?.enabled || updatePreferencesMutation.isPending}
+              onValueChange={(value) => updatePreferencesMutation.mutate({ leadDays: Number(value) })}
+            >
+              <SelectTrigger id="expiration-reminder-days" className="w-48" data-testid="select-expiration-reminder-days">
+                <SelectValue placeholder="Lead time" />
+              </SelectTrigger>
+              <SelectContent>
+                {LEAD_DAY_OPTIONS.map(days => (
+                  <SelectItem key={days} value={String(days)}>
+                    {formatLeadDays(days)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -54,6 +54,8 @@ type ShoppingSuggestion = {
   unit: string;
   imageUrl?: string;
   recipeNames: string[];
+  requiredQuantity: number;
+  onHandQuantity: number;
 };
 
 export default function ShoppingListPage() {
@@ -510,6 +512,9 @@ export default function ShoppingListPage() {
                       <p className="font-medium text-sm">{suggestion.name}</p>
                       <p className="text-xs text-muted-foreground">
                         {suggestion.quantity} {suggestion.unit}
+                        {suggestion.onHandQuantity > 0 && (
+                          <> (need {suggestion.requiredQuantity}, have {suggestion.onHandQuantity})</>
+                        )}
                       </p>
                       <p className="text-xs text-muted-foreground truncate">
                         For: {suggestion.recipeNames.join(", ")}
@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { CookingTimer } from "@shared/schema";
+import { getTimerEndsAt, getTimerRemainingSeconds, withRemainingSeconds, formatTimerDuration } from "./cookingTimers";
+
+const startedAt = new Date("2026-10-19T18:00:00Z");
+
+function at(seconds: number): Date {
+  return new Date(startedAt.getTime() + seconds * 1000);
+}
+
+function timer(overrides: Partial<CookingTimer> = {}): CookingTimer {
+  return {
+    id: "timer-1",
+    sessionId: "session-1",
+    userId: "user-1",
+    label: "Bake",
+    stepNumber: 0,
+    durationSeconds: 600,
+    status: "running",
+    startedAt,
+    pausedAt: null,
+    pausedSeconds: 0,
+    endsAt: at(600),
+    finishedAt: null,
+    ...overrides,
+  };
+}
+
+test("a running timer counts down from its start", () => {
+  assert.deepEqual(getTimerEndsAt(startedAt, 600, 0), at(600));
+  assert.equal(getTimerRemainingSeconds(timer(), at(0)), 600);
+  assert.equal(getTimerRemainingSeconds(timer(), at(240.5)), 360);
+  assert.equal(getTimerRemainingSeconds(timer(), at(900)), 0);
+});
+
+test("a paused timer stays frozen at the moment it was paused", () => {
+  const paused = timer({ status: "paused", pausedAt: at(200), endsAt: null });
+  assert.equal(getTimerRemainingSeconds(paused, at(200)), 400);
+  assert.equal(getTimerRemainingSeconds(paused, at(5000)), 400);
+});
+
+test("time spent paused pushes the end back once resumed", () => {
+  // Paused at 200 s and resumed at 500 s, then paused again from 700 s to 800 s
+  const resumed = timer({ pausedSeconds: 300, endsAt: getTimerEndsAt(startedAt, 600, 300) });
+  assert.deepEqual(resumed.endsAt, at(900));
+  assert.equal(getTimerRemainingSeconds(resumed, at(500)), 400);
+
+  const pausedAgain = timer({ status: "paused", pausedAt: at(700), pausedSeconds: 300, endsAt: null });
+  assert.equal(getTimerRemainingSeconds(pausedAgain, at(750)), 200);
+
+  const resumedAgain = timer({ pausedSeconds: 400, endsAt: getTimerEndsAt(startedAt, 600, 400) });
+  assert.deepEqual(resumedAgain.endsAt, at(1000));
+  assert.equal(getTimerRemainingSeconds(resumedAgain, at(800)), 200);
+});
+
+test("finished timers have nothing left", () => {
+  const finished = timer({ status: "finished", finishedAt: at(600) });
+  assert.equal(withRemainingSeconds(finished, at(100)).remainingSeconds, 0);
+});
+
+test("durations read in hours, minutes or seconds", () => {
+  assert.equal(formatTimerDuration(1500), "25 min");
+  assert.equal(formatTimerDuration(4500), "1 h 15 min");
+  assert.equal(formatTimerDuration(7200), "2 h");
+  assert.equal(formatTimerDuration(45), "45 s");
+});
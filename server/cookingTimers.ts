@@ -0,0 +1,46 @@
+/**
+ * Cooking Timers
+ *
+ * Time arithmetic for cooking-session timers. The database stores when a
+ * timer started, how long it has spent paused and (while running) when it is
+ * due; everything else is computed from those so every device agrees:
+ *
+ *   endsAt = startedAt + duration + pausedSeconds
+ *   remaining = endsAt - (paused ? pausedAt : now)
+ */
+
+import type { CookingTimer, CookingTimerWithRemaining } from "@shared/schema";
+
+/**
+ * When a timer started at `startedAt` is due, given the time spent paused
+ */
+export function getTimerEndsAt(startedAt: Date, durationSeconds: number, pausedSeconds: number): Date {
+  return new Date(startedAt.getTime() + (durationSeconds + pausedSeconds) * 1000);
+}
+
+/**
+ * Whole seconds left on a timer at `now`
+ */
+export function getTimerRemainingSeconds(timer: CookingTimer, now: Date = new Date()): number {
+  if (timer.status === "finished") return 0;
+
+  // Paused timers are frozen at the moment they were paused
+  const at = timer.status === "paused" && timer.pausedAt ? timer.pausedAt : now;
+  const endsAt = getTimerEndsAt(timer.startedAt, timer.durationSeconds, timer.pausedSeconds);
+  return Math.max(0, Math.ceil((endsAt.getTime() - at.getTime()) / 1000));
+}
+
+export function withRemainingSeconds(timer: CookingTimer, now: Date = new Date()): CookingTimerWithRemaining {
+  return { ...timer, remainingSeconds: getTimerRemainingSeconds(timer, now) };
+}
+
+/**
+ * "25 min", "1 h 15 min", "45 s"
+ */
+export function formatTimerDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return minutes > 0 ? `${hours} h ${minutes} min` : `${hours} h`;
+  if (minutes > 0) return `${minutes} min`;
+  return `${seconds} s`;
+}
@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { KitchenInventory } from "@shared/schema";
+import { getDaysRemaining, getExpiringItems, scoreExpiringUsage } from "./expirationService";
+
+const now = new Date(2026, 9, 19, 18, 30);
+
+function item(id: string, name: string, daysFromNow: number): KitchenInventory {
+  return {
+    id,
+    name,
+    normalizedName: null,
+    familyId: null,
+    expirationDate: new Date(2026, 9, 19 + daysFromNow, 9),
+  } as KitchenInventory;
+}
+
+test("days remaining count calendar days, not hours", () => {
+  assert.equal(getDaysRemaining(new Date(2026, 9, 19, 8), now), 0);
+  assert.equal(getDaysRemaining(new Date(2026, 9, 20, 1), now), 1);
+  assert.equal(getDaysRemaining(new Date(2026, 9, 18, 23), now), -1);
+});
+
+test("expiring items stay inside the window and leave out expired ones", () => {
+  const inventory = [item("a", "milk", -1), item("b", "spinach", 0), item("c", "yogurt", 3), item("d", "cheese", 4)];
+  assert.deepEqual(getExpiringItems(inventory, 3, now).map(i => i.id), ["b", "c"]);
+});
+
+test("items expiring sooner weigh more in the score", () => {
+  const expiring = [item("a", "spinach", 0), item("b", "mushrooms", 1), item("c", "cream", 3)];
+
+  const today = scoreExpiringUsage([{ name: "spinach" }], expiring, now);
+  assert.equal(today.score, 1);
+  const later = scoreExpiringUsage([{ name: "mushrooms" }, { name: "cream" }], expiring, now);
+  assert.equal(later.score, 1 / 2 + 1 / 4);
+  // Something expiring today outweighs two items with a few days left
+  assert.ok(today.score > later.score);
+
+  assert.deepEqual(later.expiringIngredients.map(i => i.daysRemaining), [1, 3]);
+  assert.deepEqual(later.useBy, expiring[1].expirationDate);
+});
+
+test("an item used by several ingredients only counts once", () => {
+  const usage = scoreExpiringUsage([{ name: "spinach" }, { name: "baby spinach" }], [item("a", "spinach", 1)], now);
+  assert.equal(usage.score, 1 / 2);
+  assert.equal(usage.expiringIngredients.length, 1);
+
+  const none = scoreExpiringUsage([{ name: "flour" }], [item("a", "spinach", 1)], now);
+  assert.deepEqual(none, { score: 0, expiringIngredients: [], useBy: null });
+});
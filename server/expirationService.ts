@@ -0,0 +1,93 @@
+/**
+ * Expiration Service
+ *
+ * Helpers for ranking recipes by how many soon-to-expire inventory items
+ * they would use up, so the app can suggest "cook these before Thursday".
+ */
+
+import type { KitchenInventory, RecipeIngredient } from "@shared/schema";
+import { filterMatchingIngredients, DEFAULT_MATCH_CONFIDENCE } from "./normalizationService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Items expiring within this many days count as "expiring soon"
+export const DEFAULT_EXPIRING_WINDOW_DAYS = 3;
+
+export interface ExpiringIngredient {
+  name: string;
+  inventoryItemId: string;
+  expirationDate: Date;
+  daysRemaining: number;
+}
+
+export interface ExpiringUsage {
+  score: number;
+  expiringIngredients: ExpiringIngredient[];
+  useBy: Date | null; // earliest expiration among the used items
+}
+
+function startOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+/**
+ * Whole days until an item expires: 0 for today, 1 for tomorrow, negative once expired
+ */
+export function getDaysRemaining(expirationDate: Date | string, now: Date = new Date()): number {
+  const expires = startOfDay(new Date(expirationDate));
+  return Math.round((expires.getTime() - startOfDay(now).getTime()) / DAY_MS);
+}
+
+/**
+ * Inventory items that expire within the window. Items that are already
+ * past their date are left out - those belong in the bin, not in a recipe.
+ */
+export function getExpiringItems(
+  inventory: KitchenInventory[],
+  withinDays: number = DEFAULT_EXPIRING_WINDOW_DAYS,
+  now: Date = new Date()
+): KitchenInventory[] {
+  return inventory.filter(item => {
+    if (!item.expirationDate) return false;
+    const days = getDaysRemaining(item.expirationDate, now);
+    return days >= 0 && days <= withinDays;
+  });
+}
+
+/**
+ * Score a recipe by the expiring items it consumes. Each item contributes
+ * 1 / (daysRemaining + 1), so something expiring today outweighs two items
+ * that still have a few days left.
+ */
+export function scoreExpiringUsage(
+  ingredients: Pick<RecipeIngredient, "name">[],
+  expiringItems: KitchenInventory[],
+  now: Date = new Date(),
+  minConfidence: number = DEFAULT_MATCH_CONFIDENCE
+): ExpiringUsage {
+  const used = new Map<string, ExpiringIngredient>();
+
+  for (const ingredient of ingredients) {
+    for (const item of filterMatchingIngredients(ingredient.name, expiringItems, minConfidence)) {
+      if (used.has(item.id) || !item.expirationDate) continue;
+      used.set(item.id, {
+        name: item.name,
+        inventoryItemId: item.id,
+        expirationDate: new Date(item.expirationDate),
+        daysRemaining: getDaysRemaining(item.expirationDate, now),
+      });
+    }
+  }
+
+  const expiringIngredients = Array.from(used.values())
+    .sort((a, b) => a.daysRemaining - b.daysRemaining);
+  const score = expiringIngredients.reduce((sum, item) => sum + 1 / (item.daysRemaining + 1), 0);
+
+  return {
+    score,
+    expiringIngredients,
+    useBy: expiringIngredients.length > 0 ? expiringIngredients[0].expirationDate : null,
+  };
+}
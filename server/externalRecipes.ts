@@ -0,0 +1,85 @@
+/**
+ * External Recipes
+ *
+ * Recipes from providers (Spoonacular, api-ninjas, local fixtures) only live
+ * in the providers' short in-memory caches, but ratings, meal plans, seat
+ * assignments, nutrition logs and cooking sessions all reference rows in the
+ * recipes table. External recipes are therefore copied into the table, under
+ * their original ID (e.g. "spoon-123"), the first time someone uses them.
+ * After that they're served from the database, even when the provider is
+ * unavailable.
+ */
+
+import { storage } from "./storage";
+import { getRecipeProviderForId, getProviderRecipeById, type RecipeProviderSource } from "./recipeProviders";
+
+export type ExternalRecipeSource = RecipeProviderSource;
+
+export function getExternalRecipeSource(id: string): { source: ExternalRecipeSource; externalId: string } | null {
+  const provider = getRecipeProviderForId(id);
+  if (!provider) return null;
+  return { source: provider.source, externalId: id.slice(provider.idPrefix.length) };
+}
+
+export function isExternalRecipeId(id: string): boolean {
+  return getExternalRecipeSource(id) !== null;
+}
+
+/**
+ * Fetch an external recipe from its provider (not from the database)
+ */
+export async function fetchExternalRecipe(id: string) {
+  return await getProviderRecipeById(id);
+}
+
+/**
+ * Make sure a recipe exists in the database, importing it from its external
+ * source if needed. Returns false if the recipe can't be found anywhere, or,
+ * when a user is given, if it's a private or family recipe they can't see.
+ */
+export async function ensureRecipeStored(id: string, userId?: string): Promise<boolean> {
+  if (await storage.recipeExists(id)) {
+    return userId ? await storage.canViewRecipe(id, userId) : true;
+  }
+
+  const external = getExternalRecipeSource(id);
+  if (!external) return false;
+
+  const recipe = await fetchExternalRecipe(id);
+  if (!recipe) return false;
+
+  await storage.upsertExternalRecipe({
+    id,
+    source: external.source,
+    externalId: external.externalId,
+    name: recipe.name,
+    description: recipe.description,
+    imageUrl: recipe.imageUrl,
+    prepTime: recipe.prepTime,
+    cookTime: recipe.cookTime,
+    servings: recipe.servings,
+    calories: recipe.calories,
+    protein: recipe.protein,
+    carbs: recipe.carbs,
+    fat: recipe.fat,
+    sodium: recipe.sodium,
+    dietType: recipe.dietType,
+    cuisine: recipe.cuisine,
+    mealType: recipe.mealType,
+    ingredients: recipe.ingredients,
+    instructions: recipe.instructions,
+    tags: recipe.tags,
+  });
+  return true;
+}
+
+/**
+ * Store every recipe in the list, returning the IDs that couldn't be found
+ */
+export async function ensureRecipesStored(ids: string[], userId?: string): Promise<string[]> {
+  const missing: string[] = [];
+  for (const id of Array.from(new Set(ids))) {
+    if (!(await ensureRecipeStored(id, userId))) missing.push(id);
+  }
+  return missing;
+}
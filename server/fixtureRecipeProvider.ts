@@ -0,0 +1,118 @@
+/**
+ * Fixture Recipe Provider
+ *
+ * Serves recipes from a local JSON file so the recipes, feed and stories
+ * routes work without network access or API keys. Reads RECIPE_FIXTURES_PATH,
+ * or server/fixtures/recipes.json by default. The file is re-read when it
+ * changes, so fixtures can be edited while the server is running.
+ *
+ * Each entry uses the NormalizedRecipe fields without the "fixture-" ID
+ * prefix. Ingredients may be plain lines ("2 cloves garlic, minced") or
+ * { name, amount, unit } objects.
+ */
+
+import fs from "fs";
+import path from "path";
+import type { RecipeIngredient } from "@shared/schema";
+import { normalizeRecipeIngredients } from "./ingredientParser";
+import { matchesNutritionFilters } from "./nutritionFilter";
+import type { NormalizedRecipe, RecipeProvider, RecipeSearchParams } from "./recipeProviders";
+
+const ID_PREFIX = "fixture-";
+
+function fixturesPath(): string {
+  return process.env.RECIPE_FIXTURES_PATH || path.resolve(process.cwd(), "server", "fixtures", "recipes.json");
+}
+
+let cache: { path: string; mtimeMs: number; recipes: NormalizedRecipe[] } | null = null;
+
+function normalizeFixture(fixture: any): NormalizedRecipe {
+  const id = String(fixture.id);
+  return {
+    id: id.startsWith(ID_PREFIX) ? id : `${ID_PREFIX}${id}`,
+    name: fixture.name,
+    description: fixture.description || "",
+    imageUrl: fixture.imageUrl ?? null,
+    prepTime: fixture.prepTime ?? null,
+    cookTime: fixture.cookTime ?? null,
+    servings: fixture.servings || 4,
+    calories: fixture.calories ?? null,
+    protein: fixture.protein ?? null,
+    carbs: fixture.carbs ?? null,
+    fat: fixture.fat ?? null,
+    sodium: fixture.sodium ?? null,
+    dietType: fixture.dietType ?? null,
+    cuisine: fixture.cuisine ?? null,
+    mealType: fixture.mealType ?? null,
+    ingredients: normalizeRecipeIngredients(fixture.ingredients || []) as RecipeIngredient[],
+    instructions: fixture.instructions || [],
+    tags: fixture.tags || [],
+    averageRating: null,
+    totalRatings: 0,
+    ratings: [],
+  };
+}
+
+async function loadFixtures(): Promise<NormalizedRecipe[]> {
+  const file = fixturesPath();
+  const { mtimeMs } = await fs.promises.stat(file);
+  if (cache && cache.path === file && cache.mtimeMs === mtimeMs) {
+    return cache.recipes;
+  }
+
+  const data = JSON.parse(await fs.promises.readFile(file, "utf-8"));
+  if (!Array.isArray(data)) {
+    throw new Error(`Recipe fixtures in ${file} must be a JSON array`);
+  }
+  const recipes = data.map(normalizeFixture);
+  cache = { path: file, mtimeMs, recipes };
+  return recipes;
+}
+
+function matchesText(recipe: NormalizedRecipe, query: string): boolean {
+  const haystack = [
+    recipe.name,
+    recipe.description,
+    recipe.cuisine || "",
+    ...recipe.tags,
+    ...recipe.ingredients.map(ingredient => ingredient.name),
+  ].join(" ").toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+}
+
+function matchesOption(value: string | null, tags: string[], wanted: string | undefined): boolean {
+  if (!wanted || wanted === "all") return true;
+  const target = wanted.toLowerCase();
+  return value?.toLowerCase() === target || tags.some(tag => tag.toLowerCase() === target);
+}
+
+export async function searchFixtureRecipes(params: RecipeSearchParams): Promise<NormalizedRecipe[]> {
+  const recipes = (await loadFixtures()).filter(recipe =>
+    (!params.searchQuery || matchesText(recipe, params.searchQuery)) &&
+    matchesOption(recipe.dietType, recipe.tags, params.dietType) &&
+    matchesOption(recipe.cuisine, recipe.tags, params.cuisine) &&
+    matchesOption(recipe.mealType, recipe.tags, params.mealType) &&
+    matchesNutritionFilters(recipe, params.nutrition)
+  );
+
+  const offset = params.offset || 0;
+  const limit = params.limit || 15;
+  return recipes.slice(offset, offset + limit);
+}
+
+export async function getFixtureRecipeById(id: string): Promise<NormalizedRecipe | null> {
+  const recipes = await loadFixtures();
+  return recipes.find(recipe => recipe.id === id) || null;
+}
+
+// Only used in production when a fixtures file is configured explicitly
+export const fixtureRecipeProvider: RecipeProvider = {
+  name: "fixtures",
+  source: "fixture",
+  idPrefix: ID_PREFIX,
+  isConfigured: () =>
+    (process.env.NODE_ENV !== "production" || !!process.env.RECIPE_FIXTURES_PATH) &&
+    fs.existsSync(fixturesPath()),
+  search: searchFixtureRecipes,
+  getById: getFixtureRecipeById,
+};
@@ -1,8 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
-import { createServer } from "http";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
 import { registerRoutes } from "./routes";
 import { setupAuth } from "./replitAuth";
 import { setupVite, serveStatic, log } from "./vite";
+import { startScheduler } from "./scheduler";
+import { storage } from "./storage";
 
 const app = express();
 
@@ -11,11 +13,15 @@ declare module 'http' {
     rawBody: unknown
   }
 }
-app.use(express.json({
-  verify: (req, _res, buf) => {
-    req.rawBody = buf;
-  }
-}));
+function keepRawBody(req: IncomingMessage, _res: ServerResponse, buf: Buffer) {
+  req.rawBody = buf;
+}
+
+// Pasted recipe pages are far bigger than the default 100kb JSON limit (the
+// import validates the HTML itself up to 5 MB). Registered first so the
+// general parser below leaves the parsed body alone.
+app.use("/api/recipes/import", express.json({ limit: "10mb", verify: keepRawBody }));
+app.use(express.json({ verify: keepRawBody }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -51,6 +57,44 @@ app.use((req, res, next) => {
 (async () => {
   await setupAuth(app);
   registerRoutes(app);
+
+  try {
+    const seeded = await storage.seedIngredientDictionary();
+    if (seeded.stopwords + seeded.aliases > 0) {
+      log(`seeded ${seeded.stopwords} ingredient stopword(s) and ${seeded.aliases} alias(es)`);
+    }
+    const aliasCount = await storage.loadIngredientAliasDictionary();
+    log(`loaded ${aliasCount} ingredient alias(es)`);
+  } catch (error) {
+    console.error("Error loading ingredient aliases:", error);
+  }
+
+  try {
+    await storage.ensureRecipeSearchExtensions();
+  } catch (error) {
+    console.error("Error enabling recipe search extensions:", error);
+  }
+
+  try {
+    const migrated = await storage.migrateLegacyCookingTimers();
+    if (migrated > 0) log(`moved ${migrated} cooking timer(s) to cooking_timers`);
+  } catch (error) {
+    console.error("Error migrating cooking timers:", error);
+  }
+
+  try {
+    const named = await storage.backfillInventoryEventNames();
+    if (named > 0) log(`normalized the names of ${named} inventory event(s)`);
+  } catch (error) {
+    console.error("Error normalizing inventory event names:", error);
+  }
+
+  try {
+    const upgraded = await storage.backfillRecipeSteps();
+    if (upgraded > 0) log(`parsed structured steps for ${upgraded} recipe(s)`);
+  } catch (error) {
+    console.error("Error parsing recipe steps:", error);
+  }
   
   const server = createServer(app);
 
@@ -82,5 +126,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startScheduler();
   });
 })();
@@ -0,0 +1,169 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseIngredientLine, formatIngredientLine, toRecipeIngredient, extractIngredientLines } from "./ingredientParser";
+
+type Fixture = {
+  line: string;
+  amount: string;
+  unit: string;
+  name: string;
+  size?: string;
+  preparation?: string;
+  optional?: boolean;
+};
+
+// Ingredient lines as they appear on recipe sites, in cookbooks and in
+// copied shopping lists
+const FIXTURES: Fixture[] = [
+  { line: "2 cups all-purpose flour", amount: "2", unit: "cups", name: "all-purpose flour" },
+  { line: "1 1/2 cups sugar", amount: "1 1/2", unit: "cups", name: "sugar" },
+  { line: "3/4 cup unsalted butter, softened", amount: "3/4", unit: "cup", name: "unsalted butter", preparation: "softened" },
+  { line: "2 large eggs, beaten", amount: "2", unit: "", name: "large eggs", preparation: "beaten" },
+  { line: "1 teaspoon vanilla extract", amount: "1", unit: "teaspoon", name: "vanilla extract" },
+  { line: "1/2 tsp salt", amount: "1/2", unit: "tsp", name: "salt" },
+  { line: "1 tbsp olive oil", amount: "1", unit: "tbsp", name: "olive oil" },
+  { line: "2 tablespoons fresh lemon juice", amount: "2", unit: "tablespoons", name: "fresh lemon juice" },
+  { line: "1 (14 oz) can diced tomatoes, drained", amount: "1", unit: "can", name: "tomatoes", size: "14 oz", preparation: "diced, drained" },
+  { line: "1 can (15 oz) black beans, drained and rinsed", amount: "1", unit: "can", name: "black beans", size: "15 oz", preparation: "drained and rinsed" },
+  { line: "2 14-ounce cans coconut milk", amount: "2", unit: "cans", name: "coconut milk", size: "14 ounce" },
+  { line: "1 400g tin chickpeas", amount: "1", unit: "tin", name: "chickpeas", size: "400 g" },
+  { line: "3 cloves garlic, minced", amount: "3", unit: "cloves", name: "garlic", preparation: "minced" },
+  { line: "2 garlic cloves, finely chopped", amount: "2", unit: "", name: "garlic cloves", preparation: "finely chopped" },
+  { line: "1 medium onion, diced", amount: "1", unit: "", name: "medium onion", preparation: "diced" },
+  { line: "1 large yellow onion, thinly sliced", amount: "1", unit: "", name: "large yellow onion", preparation: "thinly sliced" },
+  { line: "1/4 cup chopped fresh parsley", amount: "1/4", unit: "cup", name: "fresh parsley", preparation: "chopped" },
+  { line: "Salt and pepper to taste", amount: "", unit: "", name: "Salt and pepper", preparation: "to taste" },
+  { line: "Pinch of salt", amount: "1", unit: "pinch", name: "salt" },
+  { line: "a pinch of red pepper flakes", amount: "1", unit: "pinch", name: "red pepper flakes" },
+  { line: "1 pinch cayenne pepper", amount: "1", unit: "pinch", name: "cayenne pepper" },
+  { line: "A handful of spinach", amount: "1", unit: "handful", name: "spinach" },
+  { line: "2-3 carrots, peeled and chopped", amount: "2-3", unit: "", name: "carrots", preparation: "peeled and chopped" },
+  { line: "2 to 3 tablespoons honey", amount: "2 to 3", unit: "tablespoons", name: "honey" },
+  { line: "½ cup milk", amount: "½", unit: "cup", name: "milk" },
+  { line: "1½ cups chicken broth", amount: "1½", unit: "cups", name: "chicken broth" },
+  { line: "1.5 lbs boneless skinless chicken breasts", amount: "1.5", unit: "lbs", name: "boneless skinless chicken breasts" },
+  { line: "500g minced beef", amount: "500", unit: "g", name: "beef", preparation: "minced" },
+  { line: "250 ml heavy cream", amount: "250", unit: "ml", name: "heavy cream" },
+  { line: "1 lb ground beef", amount: "1", unit: "lb", name: "ground beef" },
+  { line: "8 oz cream cheese, at room temperature", amount: "8", unit: "oz", name: "cream cheese", preparation: "at room temperature" },
+  { line: "1 cup (240 ml) whole milk", amount: "1", unit: "cup", name: "whole milk", preparation: "240 ml" },
+  { line: "2 sticks butter", amount: "2", unit: "sticks", name: "butter" },
+  { line: "1 bunch cilantro", amount: "1", unit: "bunch", name: "cilantro" },
+  { line: "1 head of lettuce", amount: "1", unit: "head", name: "lettuce" },
+  { line: "2 stalks celery, chopped", amount: "2", unit: "stalks", name: "celery", preparation: "chopped" },
+  { line: "3 sprigs fresh thyme", amount: "3", unit: "sprigs", name: "fresh thyme" },
+  { line: "4 slices bacon", amount: "4", unit: "slices", name: "bacon" },
+  { line: "1 slice bread", amount: "1", unit: "slice", name: "bread" },
+  { line: "6 cups water", amount: "6", unit: "cups", name: "water" },
+  { line: "1 cup grated Parmesan cheese, plus more for serving", amount: "1", unit: "cup", name: "Parmesan cheese", preparation: "grated, plus more for serving" },
+  { line: "Fresh basil leaves, for garnish", amount: "", unit: "", name: "Fresh basil leaves", preparation: "for garnish" },
+  { line: "Olive oil, for frying", amount: "", unit: "", name: "Olive oil", preparation: "for frying" },
+  { line: "1/2 cup walnuts, toasted (optional)", amount: "1/2", unit: "cup", name: "walnuts", preparation: "toasted", optional: true },
+  { line: "1 tsp cinnamon (optional)", amount: "1", unit: "tsp", name: "cinnamon", optional: true },
+  { line: "1 jalapeño, seeded and minced (optional)", amount: "1", unit: "", name: "jalapeño", preparation: "seeded and minced", optional: true },
+  { line: "2 tbsp sesame seeds, if desired", amount: "2", unit: "tbsp", name: "sesame seeds", optional: true },
+  { line: "1 egg yolk", amount: "1", unit: "", name: "egg yolk" },
+  { line: "3 egg whites", amount: "3", unit: "", name: "egg whites" },
+  { line: "1 cup packed brown sugar", amount: "1", unit: "cup", name: "brown sugar", preparation: "packed" },
+  { line: "1 cup brown sugar, packed", amount: "1", unit: "cup", name: "brown sugar", preparation: "packed" },
+  { line: "2 c flour", amount: "2", unit: "c", name: "flour" },
+  { line: "1 T butter", amount: "1", unit: "tbsp", name: "butter" },
+  { line: "1 t baking soda", amount: "1", unit: "t", name: "baking soda" },
+  { line: "1 tsp. baking powder", amount: "1", unit: "tsp", name: "baking powder" },
+  { line: "2 Tbsp. soy sauce", amount: "2", unit: "tbsp", name: "soy sauce" },
+  { line: "1 fl oz bourbon", amount: "1", unit: "fl oz", name: "bourbon" },
+  { line: "1 pint cherry tomatoes, halved", amount: "1", unit: "pint", name: "cherry tomatoes", preparation: "halved" },
+  { line: "1 quart vegetable stock", amount: "1", unit: "quart", name: "vegetable stock" },
+  { line: "1 gallon water", amount: "1", unit: "gallon", name: "water" },
+  { line: "1 kg potatoes, peeled and cubed", amount: "1", unit: "kg", name: "potatoes", preparation: "peeled and cubed" },
+  { line: "100 g dark chocolate, chopped", amount: "100", unit: "g", name: "dark chocolate", preparation: "chopped" },
+  { line: "1 envelope active dry yeast", amount: "1", unit: "envelope", name: "active dry yeast" },
+  { line: "1 package (8 oz) cream cheese", amount: "1", unit: "package", name: "cream cheese", size: "8 oz" },
+  { line: "1 (1-inch) piece ginger, grated", amount: "1", unit: "piece", name: "ginger", size: "1 inch", preparation: "grated" },
+  { line: "- 2 cups rice", amount: "2", unit: "cups", name: "rice" },
+  { line: "* 1 onion", amount: "1", unit: "", name: "onion" },
+  { line: "• 3 tomatoes", amount: "3", unit: "", name: "tomatoes" },
+  { line: "1. 2 cups flour", amount: "2", unit: "cups", name: "flour" },
+  { line: "▢ 1 cup sugar", amount: "1", unit: "cup", name: "sugar" },
+  { line: "[ ] 2 eggs", amount: "2", unit: "", name: "eggs" },
+  { line: "one onion", amount: "1", unit: "", name: "onion" },
+  { line: "two cups flour", amount: "2", unit: "cups", name: "flour" },
+  { line: "an avocado", amount: "1", unit: "", name: "avocado" },
+  { line: "half a lemon", amount: "0.5", unit: "", name: "lemon" },
+  { line: "1 dozen eggs", amount: "1", unit: "dozen", name: "eggs" },
+  { line: "2 ears corn", amount: "2", unit: "ears", name: "corn" },
+  { line: "1 loaf French bread", amount: "1", unit: "loaf", name: "French bread" },
+  { line: "1 lemon, zested and juiced", amount: "1", unit: "", name: "lemon", preparation: "zested and juiced" },
+  { line: "4 boneless pork chops", amount: "4", unit: "", name: "boneless pork chops" },
+  { line: "1/3 cup mayonnaise", amount: "1/3", unit: "cup", name: "mayonnaise" },
+  { line: "2/3 cup sour cream", amount: "2/3", unit: "cup", name: "sour cream" },
+  { line: "1 cup frozen peas, thawed", amount: "1", unit: "cup", name: "frozen peas", preparation: "thawed" },
+  { line: "3 tbsp butter, melted and divided", amount: "3", unit: "tbsp", name: "butter", preparation: "melted and divided" },
+  { line: "1/2 cup shredded mozzarella", amount: "1/2", unit: "cup", name: "mozzarella", preparation: "shredded" },
+  { line: "1 (15-ounce) can pumpkin puree", amount: "1", unit: "can", name: "pumpkin puree", size: "15 ounce" },
+  { line: "12 ounces spaghetti", amount: "12", unit: "ounces", name: "spaghetti" },
+  { line: "2 cups cooked rice", amount: "2", unit: "cups", name: "cooked rice" },
+  { line: "1 teaspoon freshly ground black pepper", amount: "1", unit: "teaspoon", name: "freshly ground black pepper" },
+  { line: "1 cup finely chopped onion", amount: "1", unit: "cup", name: "onion", preparation: "finely chopped" },
+  { line: "4 cups baby spinach, roughly chopped", amount: "4", unit: "cups", name: "baby spinach", preparation: "roughly chopped" },
+  { line: "1 large egg, at room temperature", amount: "1", unit: "", name: "large egg", preparation: "at room temperature" },
+  { line: "3 Roma tomatoes, seeded and diced", amount: "3", unit: "", name: "Roma tomatoes", preparation: "seeded and diced" },
+  { line: "1/2 red bell pepper, diced", amount: "1/2", unit: "", name: "red bell pepper", preparation: "diced" },
+  { line: "1 (28 oz) can crushed tomatoes", amount: "1", unit: "can", name: "tomatoes", size: "28 oz", preparation: "crushed" },
+  { line: "kosher salt, as needed", amount: "", unit: "", name: "kosher salt", preparation: "as needed" },
+];
+
+for (const fixture of FIXTURES) {
+  test(`parses "${fixture.line}"`, () => {
+    const parsed = parseIngredientLine(fixture.line);
+    assert.deepEqual(
+      {
+        amount: parsed.amount,
+        unit: parsed.unit,
+        name: parsed.name,
+        size: parsed.size,
+        preparation: parsed.preparation,
+        optional: parsed.optional,
+      },
+      {
+        amount: fixture.amount,
+        unit: fixture.unit,
+        name: fixture.name,
+        size: fixture.size ?? null,
+        preparation: fixture.preparation ?? null,
+        optional: fixture.optional ?? false,
+      },
+    );
+  });
+}
+
+test("parses ranges and fractions into quantities", () => {
+  assert.deepEqual(parseIngredientLine("2-3 carrots").quantity, { value: 3, min: 2, max: 3 });
+  assert.equal(parseIngredientLine("1 1/2 cups sugar").quantity?.value, 1.5);
+  assert.equal(parseIngredientLine("½ cup milk").quantity?.value, 0.5);
+  assert.equal(parseIngredientLine("Salt and pepper to taste").quantity, null);
+});
+
+test("formatted ingredients parse back to the same ingredient", () => {
+  for (const fixture of FIXTURES) {
+    const ingredient = toRecipeIngredient(parseIngredientLine(fixture.line));
+    assert.deepEqual(toRecipeIngredient(parseIngredientLine(formatIngredientLine(ingredient))), ingredient, fixture.line);
+  }
+});
+
+test("extracts list items from a chat reply, skipping headings and prose", () => {
+  const reply = [
+    "Here's what you'll need:",
+    "",
+    "- **Produce:**",
+    "- 2 onions",
+    "- 1 bunch cilantro",
+    "1. 500g minced beef",
+    "Enjoy your meal!",
+  ].join("\n");
+
+  assert.deepEqual(
+    extractIngredientLines(reply).map(parsed => [parsed.amount, parsed.unit, parsed.name]),
+    [["2", "", "onions"], ["1", "bunch", "cilantro"], ["500", "g", "beef"]],
+  );
+});
@@ -0,0 +1,329 @@
+/**
+ * Ingredient Line Parser
+ *
+ * Turns free-text ingredient lines ("1 (14 oz) can diced tomatoes, drained")
+ * into structured ingredients. Shared by:
+ * - External recipe adapters (api-ninjas, Spoonacular)
+ * - User-submitted recipes
+ * - Shopping lists suggested by the AI chat
+ */
+
+import type { RecipeIngredient } from "@shared/schema";
+import { parseQuantity, type ParsedQuantity } from "./quantityService";
+
+export interface ParsedIngredientLine {
+  original: string;
+  quantity: ParsedQuantity | null;
+  amount: string; // amount as written, e.g. "1 1/2" or "2-3" ("" when none)
+  unit: string; // unit as written, lowercased, e.g. "cups" ("" when none)
+  size: string | null; // package size, e.g. "14 oz" in "1 (14 oz) can"
+  name: string;
+  preparation: string | null;
+  optional: boolean;
+}
+
+// Units we recognise after an amount. Measurement units are listed with
+// their common spellings; the rest are containers and natural portions.
+const UNIT_WORDS = new Set([
+  // Volume
+  "ml", "milliliter", "milliliters", "millilitre", "millilitres",
+  "cl", "dl", "l", "liter", "liters", "litre", "litres",
+  "tsp", "tsps", "teaspoon", "teaspoons", "t",
+  "tbsp", "tbsps", "tbs", "tbl", "tablespoon", "tablespoons", "tb",
+  "cup", "cups", "c", "pint", "pints", "pt", "quart", "quarts", "qt",
+  "gallon", "gallons", "gal", "fl oz", "fluid ounce", "fluid ounces",
+  "pinch", "pinches", "dash", "dashes", "drop", "drops", "splash",
+  // Mass
+  "mg", "g", "gr", "gram", "grams", "kg", "kilogram", "kilograms",
+  "oz", "ounce", "ounces", "lb", "lbs", "pound", "pounds",
+  // Containers and portions
+  "can", "cans", "tin", "tins", "jar", "jars", "bottle", "bottles",
+  "package", "packages", "pkg", "packet", "packets", "envelope", "envelopes", "bag", "bags",
+  "box", "boxes", "carton", "cartons", "container", "containers",
+  "block", "blocks", "stick", "sticks", "bunch", "bunches",
+  "clove", "cloves", "head", "heads", "stalk", "stalks", "sprig", "sprigs",
+  "slice", "slices", "piece", "pieces", "fillet", "fillets", "sheet", "sheets",
+  "handful", "handfuls", "loaf", "loaves", "ear", "ears", "knob", "scoop", "scoops",
+  "dozen",
+]);
+
+// Units a package size can follow ("1 can (15 oz) black beans")
+const CONTAINER_UNITS = new Set([
+  "can", "cans", "tin", "tins", "jar", "jars", "bottle", "bottles",
+  "package", "packages", "pkg", "packet", "packets", "envelope", "envelopes", "bag", "bags",
+  "box", "boxes", "carton", "cartons", "container", "containers", "block", "blocks",
+]);
+
+// Single-letter units are only trusted straight after a number ("2 c flour")
+const AMBIGUOUS_UNITS = new Set(["t", "c", "l", "g", "tb"]);
+
+// Portions that imply a quantity of one when written without a number
+// ("pinch of salt", "a handful of spinach")
+const IMPLIED_SINGLE_UNITS = new Set(["pinch", "dash", "splash", "handful", "knob"]);
+
+const PREPARATION_WORDS = new Set([
+  "chopped", "diced", "minced", "sliced", "grated", "shredded", "crushed",
+  "beaten", "whisked", "melted", "softened", "peeled", "cubed", "julienned",
+  "halved", "quartered", "rinsed", "drained", "toasted", "divided", "packed",
+  "sifted", "thawed", "trimmed", "zested", "juiced", "seeded", "pitted",
+  "torn", "mashed", "separated", "deveined", "cored", "stemmed", "crumbled",
+  "squeezed", "scrubbed", "slivered", "cut",
+]);
+
+const PREPARATION_ADVERBS = new Set([
+  "finely", "coarsely", "roughly", "thinly", "thickly", "lightly", "firmly",
+  "loosely", "freshly", "well", "very",
+]);
+
+const NUMBER_PATTERN = "(?:\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d*\\.\\d+|\\d+(?:\\s*[½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞])?|[½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞])";
+const NUMBER_WORD_PATTERN = "(?:a|an|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|half)";
+
+// "1 1/2", "2-3", "2 to 3", "½", "1.5" and spelled-out numbers
+const AMOUNT_REGEX = new RegExp(
+  `^(${NUMBER_PATTERN}(?:\\s*(?:-|–|—|to|or)\\s*${NUMBER_PATTERN})?|${NUMBER_WORD_PATTERN}(?=\\s))\\s*`,
+  "i"
+);
+
+// "(14 oz)", "(14-ounce)", "(about 400 g)"
+const SIZE_PAREN_REGEX = /^\(\s*((?:about|approx\.?|approximately)?\s*[\d.\/½¼¾⅓⅔]+\s*-?\s*[a-z. ]*?)\s*\)\s*/i;
+
+// "14-ounce can", "400g tin"
+const SIZE_INLINE_REGEX = /^(\d+(?:\.\d+)?)\s*-?\s*(ounce|oz|g|gram|ml|lb|pound|kg|liter|litre)s?\b\.?\s+(?=\w)/i;
+
+const OPTIONAL_REGEX = /\(\s*optional\s*\)|,?\s*\boptional\b:?|,?\s*\bif (?:desired|you like|using)\b/gi;
+
+const TRAILING_NOTE_REGEX = /\s+(to taste|as needed|for (?:garnish|garnishing|serving|dusting|frying|greasing|the pan)|plus (?:more|extra)\b.*|at room temperature)$/i;
+
+function cleanText(text: string): string {
+  return text
+    .replace(/\s+/g, " ")
+    .replace(/\s+,/g, ",")
+    .replace(/^[\s,;:.\-–]+|[\s,;:\-–]+$/g, "")
+    .trim();
+}
+
+// Remove bullets, numbering and checkboxes that come with copied lists
+function stripListMarker(line: string): string {
+  return line
+    .replace(/^\s*(?:[-*•·▢□☐◦]|\[\s?[xX]?\s?\]|\d+[.)](?=\s))\s*/, "")
+    .trim();
+}
+
+function joinNotes(...notes: Array<string | null | undefined>): string | null {
+  const joined = notes.map(note => note && cleanText(note)).filter(Boolean).join(", ");
+  return joined || null;
+}
+
+function matchUnit(text: string, hasAmount: boolean): { unit: string; rest: string } | null {
+  const match = text.match(/^(fl\.?\s*oz|fluid ounces?|[a-z]+)\.?(?=\s|$|,)\s*(?:of\s+)?/i);
+  if (!match) return null;
+
+  // A capital "T" is the recipe shorthand for tablespoon, "t" for teaspoon
+  const unit = match[1] === "T" ? "tbsp" : match[1].toLowerCase().replace(/\./g, "").replace(/\s+/g, " ");
+  const normalizedUnit = unit === "floz" ? "fl oz" : unit;
+  if (!UNIT_WORDS.has(normalizedUnit)) return null;
+  if (!hasAmount && AMBIGUOUS_UNITS.has(normalizedUnit)) return null;
+
+  const rest = text.slice(match[0].length);
+  // A unit has to be followed by the ingredient itself
+  if (!rest.trim() || rest.trim().startsWith(",")) return null;
+
+  return { unit: normalizedUnit, rest };
+}
+
+// Move preparation words off the front or back of a name
+// ("finely chopped onion" / "garlic minced")
+function splitPreparation(name: string): { name: string; preparation: string | null } {
+  const words = name.split(" ");
+  const leading: string[] = [];
+  while (words.length > 1) {
+    const word = words[0].toLowerCase();
+    const next = words[1]?.toLowerCase();
+    if (PREPARATION_WORDS.has(word) || (PREPARATION_ADVERBS.has(word) && next && PREPARATION_WORDS.has(next))) {
+      leading.push(words.shift()!);
+    } else {
+      break;
+    }
+  }
+
+  const trailing: string[] = [];
+  while (words.length > 1) {
+    const word = words[words.length - 1].toLowerCase();
+    const previous = words[words.length - 2]?.toLowerCase();
+    if (!PREPARATION_WORDS.has(word)) break;
+    trailing.unshift(words.pop()!);
+    if (previous && PREPARATION_ADVERBS.has(previous) && words.length > 1) {
+      trailing.unshift(words.pop()!);
+    }
+  }
+
+  return {
+    name: words.join(" "),
+    preparation: joinNotes(leading.join(" "), trailing.join(" ")),
+  };
+}
+
+/**
+ * Parse a single ingredient line into quantity, unit, ingredient name,
+ * preparation notes and an optional flag
+ */
+export function parseIngredientLine(line: string): ParsedIngredientLine {
+  const original = (line || "").trim();
+  let text = stripListMarker(original);
+
+  const optional = OPTIONAL_REGEX.test(text);
+  OPTIONAL_REGEX.lastIndex = 0;
+  text = cleanText(text.replace(OPTIONAL_REGEX, " "));
+
+  // Quantity (also handles "400g" with no space before the unit)
+  let amount = "";
+  let quantity: ParsedQuantity | null = null;
+  const amountMatch = text.match(AMOUNT_REGEX);
+  if (amountMatch) {
+    const parsed = parseQuantity(amountMatch[1].replace(/\s*(?:—|–)\s*/g, "-"));
+    if (parsed) {
+      // Spelled-out amounts are stored as numbers ("an onion" -> "1")
+      amount = /^[a-z]+$/i.test(amountMatch[1]) ? String(parsed.value) : amountMatch[1].trim();
+      quantity = parsed;
+      text = text.slice(amountMatch[0].length);
+      // "half a lemon"
+      if (/^half$/i.test(amountMatch[1].trim())) text = text.replace(/^an?\s+/i, "");
+    }
+  }
+
+  // Package size: "1 (14 oz) can", "2 14-ounce cans"
+  let size: string | null = null;
+  const sizeMatch = text.match(SIZE_PAREN_REGEX) || (amount ? text.match(SIZE_INLINE_REGEX) : null);
+  if (sizeMatch) {
+    size = sizeMatch[2]
+      ? `${sizeMatch[1]} ${sizeMatch[2].toLowerCase()}`
+      : cleanText(sizeMatch[1].replace(/(\d)\s*-\s*(?=[a-z])/i, "$1 "));
+    text = text.slice(sizeMatch[0].length);
+  }
+
+  let unit = "";
+  const unitMatch = matchUnit(text, !!amount);
+  if (unitMatch) {
+    unit = unitMatch.unit;
+    text = unitMatch.rest;
+    // Package size written after the container: "1 can (15 oz)". After a
+    // measure ("1 cup (240 ml)") the parenthesis is just a conversion note.
+    const trailingSize = !size && CONTAINER_UNITS.has(unit) ? text.match(SIZE_PAREN_REGEX) : null;
+    if (trailingSize) {
+      size = cleanText(trailingSize[1].replace(/(\d)\s*-\s*(?=[a-z])/i, "$1 "));
+      text = text.slice(trailingSize[0].length);
+    }
+    if (!amount && IMPLIED_SINGLE_UNITS.has(unit.replace(/e?s$/, ""))) {
+      amount = "1";
+      quantity = parseQuantity("1");
+    }
+  } else if (!amount) {
+    // "Pinch of salt" with the portion first
+    const implied = text.match(/^(pinch|dash|splash|handful|knob)\s+of\s+/i);
+    if (implied) {
+      unit = implied[1].toLowerCase();
+      amount = "1";
+      quantity = parseQuantity("1");
+      text = text.slice(implied[0].length);
+    }
+  }
+
+  text = text.replace(/^of\s+/i, "");
+
+  // Everything after the first comma or in parentheses is a note
+  const notes: string[] = [];
+  text = text.replace(/\(([^)]*)\)/g, (_, note: string) => {
+    notes.push(note);
+    return " ";
+  });
+
+  const commaIndex = text.indexOf(",");
+  let name = commaIndex >= 0 ? text.slice(0, commaIndex) : text;
+  if (commaIndex >= 0) notes.unshift(text.slice(commaIndex + 1));
+
+  name = cleanText(name);
+  const trailingNote = name.match(TRAILING_NOTE_REGEX);
+  if (trailingNote) {
+    notes.push(trailingNote[1]);
+    name = cleanText(name.slice(0, trailingNote.index));
+  }
+
+  const split = splitPreparation(name);
+  name = cleanText(split.name.replace(/\.$/, ""));
+
+  return {
+    original,
+    quantity,
+    amount,
+    unit,
+    size,
+    name: name || cleanText(stripListMarker(original)),
+    preparation: joinNotes(split.preparation, ...notes),
+    optional,
+  };
+}
+
+/**
+ * Convert a parsed line into the shape stored in a recipe's ingredients
+ */
+export function toRecipeIngredient(parsed: ParsedIngredientLine): RecipeIngredient {
+  return {
+    name: parsed.name,
+    amount: parsed.amount,
+    unit: parsed.unit,
+    ...(parsed.size && { size: parsed.size }),
+    ...(parsed.preparation && { preparation: parsed.preparation }),
+    ...(parsed.optional && { optional: true }),
+  };
+}
+
+/**
+ * Format a stored ingredient back into a line that parseIngredientLine reads
+ * the same way, e.g. "1 (15 oz) can black beans, drained (optional)"
+ */
+export function formatIngredientLine(ingredient: RecipeIngredient): string {
+  const line = [
+    ingredient.amount,
+    ingredient.size && `(${ingredient.size})`,
+    ingredient.unit,
+    ingredient.name,
+  ].filter(Boolean).join(" ");
+  const preparation = ingredient.preparation ? `, ${ingredient.preparation}` : "";
+  return `${line}${preparation}${ingredient.optional ? " (optional)" : ""}`;
+}
+
+/**
+ * Normalize user-submitted recipe ingredients. Plain strings are parsed;
+ * objects with only a name have their name parsed for quantity and unit.
+ */
+export function normalizeRecipeIngredients(ingredients: unknown): RecipeIngredient[] | unknown {
+  if (!Array.isArray(ingredients)) return ingredients;
+
+  return ingredients.map(ingredient => {
+    if (typeof ingredient === "string") {
+      return toRecipeIngredient(parseIngredientLine(ingredient));
+    }
+    if (ingredient && typeof ingredient === "object" && typeof (ingredient as any).name === "string") {
+      const { amount, unit } = ingredient as Partial<RecipeIngredient>;
+      if (!amount && !unit) {
+        return { ...(ingredient as object), ...toRecipeIngredient(parseIngredientLine((ingredient as any).name)) };
+      }
+    }
+    return ingredient;
+  });
+}
+
+/**
+ * Pull ingredient-like list items out of free text such as a chat reply.
+ * Only bulleted or numbered lines are considered.
+ */
+export function extractIngredientLines(text: string): ParsedIngredientLine[] {
+  return (text || "")
+    .split(/\r?\n/)
+    .filter(line => /^\s*(?:[-*•·▢□☐◦]|\[\s?[xX]?\s?\]|\d+[.)])\s+\S/.test(line))
+    // Skip headings like "- **Produce:**"
+    .map(line => line.replace(/\*\*|__/g, ""))
+    .filter(line => !/:\s*$/.test(line.trim()))
+    .map(line => parseIngredientLine(line))
+    .filter(parsed => parsed.name.length > 0 && parsed.name.split(" ").length <= 8);
+}
@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  matchIngredients, ingredientsMatch, findMatchingIngredient, normalizeIngredientName, setIngredientAliasDictionary,
+  setIngredientStopwords, getBuiltInIngredientAliases, BUILT_IN_STOPWORDS, DEFAULT_MATCH_CONFIDENCE,
+} from "./normalizationService";
+
+test("different ingredients a letter apart never match", () => {
+  for (const [a, b] of [["custard", "mustard"], ["butter", "batter"], ["pasta", "paste"], ["lime", "lima"]]) {
+    assert.ok(matchIngredients(a, b).confidence < DEFAULT_MATCH_CONFIDENCE, `${a} / ${b}`);
+    assert.equal(ingredientsMatch(a, b), false, `${a} / ${b}`);
+  }
+});
+
+test("misspellings are suggested below the default confidence", () => {
+  const match = matchIngredients("parmesean", "parmesan");
+  assert.equal(match.reason, "spelling");
+  assert.ok(match.confidence > 0 && match.confidence < DEFAULT_MATCH_CONFIDENCE);
+});
+
+test("a more specific name for the same ingredient matches", () => {
+  assert.ok(matchIngredients("flour", "all purpose flour").confidence >= DEFAULT_MATCH_CONFIDENCE);
+  assert.ok(matchIngredients("all-purpose flour", "flour").confidence >= DEFAULT_MATCH_CONFIDENCE);
+  assert.ok(matchIngredients("sugar", "brown sugar").confidence >= DEFAULT_MATCH_CONFIDENCE);
+  // The specific kind standing in for the general one is the safer direction
+  assert.ok(matchIngredients("flour", "all purpose flour").confidence > matchIngredients("all purpose flour", "flour").confidence);
+});
+
+test("a shared head word doesn't make a different ingredient match", () => {
+  assert.equal(ingredientsMatch("butter", "peanut butter"), false);
+  assert.equal(ingredientsMatch("pepper", "bell pepper"), false);
+  assert.equal(ingredientsMatch("olive oil", "vegetable oil"), false);
+});
+
+test("descriptors, plurals and aliases still match", () => {
+  assert.ok(ingredientsMatch("chicken breast", "boneless skinless chicken breasts"));
+  assert.ok(ingredientsMatch("2 cups chopped onions", "onion"));
+  assert.ok(ingredientsMatch("scallions", "green onion"));
+});
+
+test("inventory lookup picks the right item over a near-spelling", () => {
+  const inventory = [{ name: "Mustard" }, { name: "All-purpose flour" }, { name: "Batter mix" }];
+  assert.equal(findMatchingIngredient("custard", inventory), undefined);
+  assert.equal(findMatchingIngredient("flour", inventory)?.name, "All-purpose flour");
+  assert.equal(findMatchingIngredient("butter", inventory), undefined);
+});
+
+test("matching reads the loaded dictionary, with no built-in fallback", () => {
+  try {
+    setIngredientAliasDictionary(getBuiltInIngredientAliases().filter(entry => entry.alias !== "scallion"));
+    setIngredientStopwords(BUILT_IN_STOPWORDS.filter(word => word !== "fresh"));
+    assert.equal(normalizeIngredientName("scallions"), "scallion");
+    assert.equal(normalizeIngredientName("fresh basil"), "fresh basil");
+    assert.equal(normalizeIngredientName("spring onions"), "green onion");
+  } finally {
+    setIngredientAliasDictionary(getBuiltInIngredientAliases());
+    setIngredientStopwords(BUILT_IN_STOPWORDS);
+  }
+});
@@ -7,8 +7,10 @@
  * - Shopping list items
  */
 
-// Common ingredient aliases for better matching
-const INGREDIENT_ALIASES: Record<string, string> = {
+// Built-in ingredient aliases. These seed the ingredient_aliases table, where
+// admins can edit them; matching reads the dictionary loaded from there with
+// setIngredientAliasDictionary.
+export const BUILT_IN_INGREDIENT_ALIASES: Record<string, string> = {
   // Vegetables
   "tomatoes": "tomato",
   "potatoes": "potato",
@@ -68,8 +70,9 @@ const INGREDIENT_ALIASES: Record<string, string> = {
   "grape tomatoes": "tomato",
 };
 
-// Common measurement words and stopwords to strip
-const MEASUREMENT_WORDS = new Set([
+// Common measurement words and stopwords to strip. These seed the
+// ingredient_stopwords table and are loaded with setIngredientStopwords.
+export const BUILT_IN_STOPWORDS = [
   // Units
   "cup", "cups", "tablespoon", "tablespoons", "tbsp", "teaspoon", "teaspoons", "tsp",
   "pound", "pounds", "lb", "lbs", "ounce", "ounces", "oz", "gram", "grams", "g",
@@ -93,7 +96,103 @@ const MEASUREMENT_WORDS = new Set([
   "fresh", "frozen",
   // Stopwords
   "of", "a", "an", "the", "to", "and", "or", "with", "for"
-]);
+];
+
+let stopwords = new Set(BUILT_IN_STOPWORDS);
+
+/**
+ * Replace the in-memory stopword list (called at startup and whenever
+ * stopwords change)
+ */
+export function setIngredientStopwords(words: string[]): void {
+  stopwords = new Set(words);
+}
+
+export interface IngredientAliasEntry {
+  alias: string;
+  canonicalName: string;
+  relation: "synonym" | "is_a";
+  familyId: string | null;
+}
+
+interface AliasDictionary {
+  synonyms: Map<string, string>; // alias -> canonical name
+  parents: Map<string, Set<string>>; // name -> broader names it "is a"
+}
+
+function createDictionary(): AliasDictionary {
+  return { synonyms: new Map(), parents: new Map() };
+}
+
+// Database aliases: shared by everyone, plus per-family custom aliases
+let globalDictionary = createDictionary();
+let familyDictionaries = new Map<string, AliasDictionary>();
+
+// Words the alias dictionaries know about; these are real ingredient words,
+// not typos
+let dictionaryWords = new Set<string>();
+
+// Until the database dictionary is loaded, match with the built-in aliases
+setIngredientAliasDictionary(getBuiltInIngredientAliases());
+
+/**
+ * The built-in aliases as global synonym entries, keyed the way stored
+ * aliases are. Plurals the normalizer already handles ("tomatoes") drop out.
+ */
+export function getBuiltInIngredientAliases(): IngredientAliasEntry[] {
+  const entries: IngredientAliasEntry[] = [];
+  for (const [name, canonicalName] of Object.entries(BUILT_IN_INGREDIENT_ALIASES)) {
+    const alias = toAliasKey(name);
+    if (!alias || alias === canonicalName) continue;
+    entries.push({ alias, canonicalName, relation: "synonym", familyId: null });
+  }
+  return entries;
+}
+
+/**
+ * Replace the in-memory alias dictionary (called at startup and whenever
+ * aliases change). Family aliases take precedence over global ones.
+ */
+export function setIngredientAliasDictionary(entries: IngredientAliasEntry[]): void {
+  const nextGlobal = createDictionary();
+  const nextFamilies = new Map<string, AliasDictionary>();
+
+  for (const entry of entries) {
+    let dictionary = nextGlobal;
+    if (entry.familyId) {
+      dictionary = nextFamilies.get(entry.familyId) ?? createDictionary();
+      nextFamilies.set(entry.familyId, dictionary);
+    }
+
+    if (entry.relation === "synonym") {
+      dictionary.synonyms.set(entry.alias, entry.canonicalName);
+    } else {
+      const parents = dictionary.parents.get(entry.alias) ?? new Set<string>();
+      parents.add(entry.canonicalName);
+      dictionary.parents.set(entry.alias, parents);
+    }
+  }
+
+  globalDictionary = nextGlobal;
+  familyDictionaries = nextFamilies;
+  dictionaryWords = collectDictionaryWords(entries);
+}
+
+function collectDictionaryWords(entries: IngredientAliasEntry[]): Set<string> {
+  const words = new Set<string>();
+  for (const name of entries.flatMap(entry => [entry.alias, entry.canonicalName])) {
+    for (const word of name.split(" ")) {
+      if (word) words.add(word);
+    }
+  }
+  return words;
+}
+
+function lookupAlias(key: string, familyId?: string | null): string | undefined {
+  if (!key) return undefined;
+  const family = familyId ? familyDictionaries.get(familyId) : undefined;
+  return family?.synonyms.get(key) ?? globalDictionary.synonyms.get(key);
+}
 
 // Simple singularization rules
 function singularize(word: string): string {
@@ -142,9 +241,10 @@ function singularize(word: string): string {
 }
 
 /**
- * Normalize an ingredient name for consistent matching
+ * Normalize an ingredient name for consistent matching. Pass the family ID
+ * to also apply that family's custom aliases.
  */
-export function normalizeIngredientName(name: string): string {
+export function normalizeIngredientName(name: string, familyId?: string | null): string {
   if (!name) return "";
 
   // Convert to lowercase and trim
@@ -158,8 +258,9 @@ export function normalizeIngredientName(name: string): string {
 
   // FIRST: Check for alias match on the full phrase (before filtering)
   // This handles cases like "green peppers" -> "bell pepper" before we strip "green"
-  if (INGREDIENT_ALIASES[normalized]) {
-    return INGREDIENT_ALIASES[normalized];
+  const phraseAlias = lookupAlias(normalized, familyId);
+  if (phraseAlias) {
+    return phraseAlias;
   }
 
   // Split into words
@@ -174,7 +275,7 @@ export function normalizeIngredientName(name: string): string {
       return false;
     }
     // Remove measurement/stopwords
-    if (MEASUREMENT_WORDS.has(word)) {
+    if (stopwords.has(word)) {
       return false;
     }
     return true;
@@ -182,16 +283,18 @@ export function normalizeIngredientName(name: string): string {
 
   // Rejoin after filtering and check for alias again
   normalized = words.join(" ").trim();
-  if (normalized && INGREDIENT_ALIASES[normalized]) {
-    return INGREDIENT_ALIASES[normalized];
+  const filteredAlias = lookupAlias(normalized, familyId);
+  if (filteredAlias) {
+    return filteredAlias;
   }
 
   // Try singularizing each word
   const singularized = words.map(word => singularize(word)).join(" ").trim();
 
   // Check singularized version for alias
-  if (singularized && INGREDIENT_ALIASES[singularized]) {
-    return INGREDIENT_ALIASES[singularized];
+  const singularAlias = lookupAlias(singularized, familyId);
+  if (singularAlias) {
+    return singularAlias;
   }
 
   // Return singularized version as canonical (or empty string if nothing left)
@@ -199,30 +302,322 @@ export function normalizeIngredientName(name: string): string {
 }
 
 /**
- * Check if two ingredient names match after normalization
+ * Key under which an alias is stored: cleaned, filtered and singularized,
+ * but without applying any existing aliases
+ */
+export function toAliasKey(name: string): string {
+  const words = (name || "")
+    .toLowerCase()
+    .replace(/[^\w\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(word => word && !/^\d+(\.\d+)?$/.test(word) && !stopwords.has(word));
+  return words.map(word => singularize(word)).join(" ").trim();
+}
+
+/**
+ * Broader ingredients a normalized name belongs to via "is a" aliases,
+ * nearest first (e.g. "cherry tomato" -> ["tomato"])
+ */
+export function getIngredientAncestors(normalizedName: string, familyId?: string | null): string[] {
+  const family = familyId ? familyDictionaries.get(familyId) : undefined;
+  const ancestors: string[] = [];
+  const seen = new Set<string>([normalizedName]);
+  const queue = [normalizedName];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const parents = [
+      ...Array.from(family?.parents.get(current) ?? []),
+      ...Array.from(globalDictionary.parents.get(current) ?? []),
+    ];
+    for (const parent of parents) {
+      if (seen.has(parent)) continue;
+      seen.add(parent);
+      ancestors.push(parent);
+      queue.push(parent);
+    }
+  }
+
+  return ancestors;
+}
+
+// Words that describe how an ingredient is sold or prepared rather than
+// what it is ("boneless skinless chicken breast" is still chicken breast)
+const DESCRIPTOR_WORDS = new Set([
+  "boneless", "skinless", "organic", "extra", "virgin", "unsalted", "salted",
+  "ripe", "lean", "plain", "natural", "pure", "homemade", "peeled", "seeded",
+  "pitted", "trimmed", "softened", "melted", "packed", "drained", "rinsed",
+  "room", "temperature", "free", "range", "wild", "caught", "farm",
+]);
+
+// Words that make a different ingredient rather than a kind of the head
+// word: "peanut butter" isn't butter, "bell pepper" isn't (black) pepper
+const DISTINCT_MODIFIERS = new Set([
+  "peanut", "almond", "cashew", "apple", "coconut", "soy", "oat", "rice",
+  "bell", "ice", "sour", "cream", "hot", "sweet", "baking", "cooking",
+  "corn", "potato", "tomato", "fish", "oyster", "hoisin", "worcestershire",
+]);
+
+// Real ingredient words a letter away from another ingredient word, which
+// must never be read as typos of each other
+const CONFUSABLE_WORDS = new Set([
+  "custard", "mustard", "butter", "batter", "pasta", "paste", "cream", "crema",
+  "lime", "lima", "pecan", "bacon", "chard", "cider",
+]);
+
+// Minimum confidence for two names to count as the same ingredient
+export const DEFAULT_MATCH_CONFIDENCE = 0.75;
+
+// Misspellings are only ever suggested, never matched at the default
+// confidence: one letter is all that separates "custard" from "mustard"
+const MAX_TYPO_CONFIDENCE = 0.7;
+
+export type IngredientMatchReason = "exact" | "descriptors" | "hierarchy" | "tokens" | "spelling" | "none";
+
+export interface IngredientMatch {
+  confidence: number; // 0-1
+  reason: IngredientMatchReason;
+  explanation: string;
+}
+
+const NO_MATCH: IngredientMatch = { confidence: 0, reason: "none", explanation: "No match" };
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function spellingSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+}
+
+function isKnownWord(word: string): boolean {
+  return CONFUSABLE_WORDS.has(word) || dictionaryWords.has(word);
+}
+
+// A single typo in a longer word ("parmesean" vs "parmesan"), unless both
+// are words we know
+function tokensNearlyEqual(a: string, b: string): boolean {
+  if (a === b) return true;
+  if (isKnownWord(a) && isKnownWord(b)) return false;
+  return Math.min(a.length, b.length) >= 5 && levenshtein(a, b) <= 1;
+}
+
+function tokenOverlapScore(
+  wantedTokens: string[],
+  availableTokens: string[],
+  equal: (a: string, b: string) => boolean
+): { common: number; union: number; confidence: number } {
+  const common = wantedTokens.filter(token => availableTokens.some(other => equal(token, other))).length;
+  const union = wantedTokens.length + availableTokens.length - common;
+  const overlap = common / union;
+  const headMatches = equal(wantedTokens[wantedTokens.length - 1], availableTokens[availableTokens.length - 1]);
+  return { common, union, confidence: round(headMatches ? 0.5 + 0.4 * overlap : 0.6 * overlap) };
+}
+
+// Whether the longer name is the shorter one with extra words in front
+// ("all purpose flour" for "flour"), and not a different ingredient that
+// happens to share the head word ("peanut butter" for "butter")
+function isKindOf(specific: string[], general: string[]): boolean {
+  if (general.length === 0 || specific.length <= general.length) return false;
+  const extra = specific.slice(0, specific.length - general.length);
+  return specific.slice(-general.length).join(" ") === general.join(" ")
+    && !extra.some(word => DISTINCT_MODIFIERS.has(word));
+}
+
+function significantTokens(normalizedName: string): string[] {
+  return normalizedName.split(" ").filter(word => word && !DESCRIPTOR_WORDS.has(word));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Compare two already-normalized names. `wanted` is what a recipe calls for,
+ * `available` is what's on hand.
  */
-export function ingredientsMatch(name1: string, name2: string): boolean {
-  return normalizeIngredientName(name1) === normalizeIngredientName(name2);
+function compareNormalizedNames(wanted: string, available: string, familyId?: string | null): IngredientMatch {
+  if (!wanted || !available) return NO_MATCH;
+  if (wanted === available) {
+    return { confidence: 1, reason: "exact", explanation: `Both are "${wanted}"` };
+  }
+
+  const candidates: IngredientMatch[] = [];
+
+  // Same ingredient once descriptors are ignored
+  const wantedTokens = significantTokens(wanted);
+  const availableTokens = significantTokens(available);
+  if (wantedTokens.length > 0 && wantedTokens.join(" ") === availableTokens.join(" ")) {
+    candidates.push({
+      confidence: 0.95,
+      reason: "descriptors",
+      explanation: `"${wanted}" and "${available}" differ only in descriptors`,
+    });
+  }
+
+  // Alias hierarchy: a specific kind can stand in for the general ingredient,
+  // the reverse is less certain
+  const availableAncestors = getIngredientAncestors(available, familyId);
+  const wantedAncestors = getIngredientAncestors(wanted, familyId);
+  if (availableAncestors.includes(wanted)) {
+    candidates.push({ confidence: 0.9, reason: "hierarchy", explanation: `"${available}" is a kind of "${wanted}"` });
+  } else if (wantedAncestors.includes(available)) {
+    candidates.push({ confidence: 0.7, reason: "hierarchy", explanation: `"${wanted}" is a kind of "${available}"` });
+  } else {
+    const shared = wantedAncestors.find(ancestor => availableAncestors.includes(ancestor));
+    if (shared) {
+      candidates.push({ confidence: 0.5, reason: "hierarchy", explanation: `Both are kinds of "${shared}"` });
+    }
+  }
+
+  if (wantedTokens.length > 0 && availableTokens.length > 0) {
+    // The same ingredient named more specifically, like the alias hierarchy
+    if (isKindOf(availableTokens, wantedTokens)) {
+      candidates.push({ confidence: 0.85, reason: "tokens", explanation: `"${available}" is a kind of "${wanted}"` });
+    } else if (isKindOf(wantedTokens, availableTokens)) {
+      candidates.push({ confidence: 0.8, reason: "tokens", explanation: `"${wanted}" is a kind of "${available}"` });
+    }
+
+    // Token overlap, weighted towards the head noun ("olive oil" vs "vegetable oil")
+    const exact = tokenOverlapScore(wantedTokens, availableTokens, (a, b) => a === b);
+    if (exact.common > 0) {
+      candidates.push({
+        confidence: exact.confidence,
+        reason: "tokens",
+        explanation: exact.common === wantedTokens.length && exact.common === availableTokens.length
+          ? `"${wanted}" and "${available}" have the same words`
+          : `"${wanted}" and "${available}" share ${exact.common} of ${exact.union} words`,
+      });
+    }
+
+    // The same words allowing for a typo
+    const fuzzy = tokenOverlapScore(wantedTokens, availableTokens, tokensNearlyEqual);
+    if (fuzzy.common > exact.common) {
+      candidates.push({
+        confidence: Math.min(fuzzy.confidence, MAX_TYPO_CONFIDENCE),
+        reason: "spelling",
+        explanation: `"${wanted}" may be a misspelling of "${available}"`,
+      });
+    }
+  }
+
+  // Whole-name edit distance catches misspellings
+  const similarity = spellingSimilarity(wanted, available);
+  if (similarity >= 0.8 && !(isKnownWord(wanted) && isKnownWord(available))) {
+    candidates.push({
+      confidence: Math.min(round(similarity * 0.9), MAX_TYPO_CONFIDENCE),
+      reason: "spelling",
+      explanation: `"${wanted}" is spelled similarly to "${available}"`,
+    });
+  }
+
+  return candidates.reduce((best, candidate) => candidate.confidence > best.confidence ? candidate : best, NO_MATCH);
 }
 
 /**
- * Find a matching item in inventory by normalized name
+ * How confident we are that `available` (e.g. an inventory item) can be used
+ * where `wanted` (e.g. a recipe ingredient) is called for, with an explanation
  */
-export function findMatchingIngredient<T extends { name: string; normalizedName?: string | null }>(
+export function matchIngredients(wanted: string, available: string, familyId?: string | null): IngredientMatch {
+  return compareNormalizedNames(
+    normalizeIngredientName(wanted, familyId),
+    normalizeIngredientName(available, familyId),
+    familyId
+  );
+}
+
+/**
+ * Check if two ingredient names refer to the same ingredient
+ */
+export function ingredientsMatch(name1: string, name2: string, minConfidence: number = DEFAULT_MATCH_CONFIDENCE): boolean {
+  return matchIngredients(name1, name2).confidence >= minConfidence;
+}
+
+type MatchableItem = { name: string; normalizedName?: string | null; familyId?: string | null };
+
+export interface IngredientItemMatch<T> {
+  item: T;
+  match: IngredientMatch;
+}
+
+// The search term is normalized with each item's family aliases, so a
+// family's custom alias matches that family's own inventory
+function createItemScorer(ingredientName: string) {
+  const searchByFamily = new Map<string, string>();
+
+  return (item: MatchableItem): IngredientMatch => {
+    const familyKey = item.familyId ?? "";
+    let normalizedSearch = searchByFamily.get(familyKey);
+    if (normalizedSearch === undefined) {
+      normalizedSearch = normalizeIngredientName(ingredientName, item.familyId);
+      searchByFamily.set(familyKey, normalizedSearch);
+    }
+
+    const itemName = item.normalizedName || normalizeIngredientName(item.name, item.familyId);
+    return compareNormalizedNames(normalizedSearch, itemName, item.familyId);
+  };
+}
+
+/**
+ * Best-matching inventory item for an ingredient, with the match details
+ */
+export function findBestIngredientMatch<T extends MatchableItem>(
   ingredientName: string,
-  inventory: T[]
-): T | undefined {
-  const normalizedSearch = normalizeIngredientName(ingredientName);
-  
-  return inventory.find(item => {
-    // First check if normalized name exists and matches
-    if (item.normalizedName && item.normalizedName === normalizedSearch) {
-      return true;
+  inventory: T[],
+  minConfidence: number = DEFAULT_MATCH_CONFIDENCE
+): IngredientItemMatch<T> | undefined {
+  const score = createItemScorer(ingredientName);
+  let best: IngredientItemMatch<T> | undefined;
+
+  for (const item of inventory) {
+    const match = score(item);
+    if (match.confidence < minConfidence) continue;
+    if (!best || match.confidence > best.match.confidence) {
+      best = { item, match };
+      if (match.confidence === 1) break;
     }
-    
-    // Fallback to normalizing the name on the fly
-    return normalizeIngredientName(item.name) === normalizedSearch;
-  });
+  }
+
+  return best;
+}
+
+/**
+ * Find a matching item in inventory, preferring the most confident match
+ */
+export function findMatchingIngredient<T extends MatchableItem>(
+  ingredientName: string,
+  inventory: T[],
+  minConfidence: number = DEFAULT_MATCH_CONFIDENCE
+): T | undefined {
+  return findBestIngredientMatch(ingredientName, inventory, minConfidence)?.item;
+}
+
+/**
+ * Find every inventory item matching an ingredient (e.g. two open bags of rice)
+ */
+export function filterMatchingIngredients<T extends MatchableItem>(
+  ingredientName: string,
+  inventory: T[],
+  minConfidence: number = DEFAULT_MATCH_CONFIDENCE
+): T[] {
+  const score = createItemScorer(ingredientName);
+  return inventory.filter(item => score(item).confidence >= minConfidence);
 }
 
 /**
@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseNutritionFilters, applyDailySodiumLimit, matchesNutritionFilters, type NutritionFilters } from "./nutritionFilter";
+
+function filters(query: Record<string, unknown>): NutritionFilters {
+  const parsed = parseNutritionFilters(query);
+  assert.ok("filters" in parsed);
+  return parsed.filters;
+}
+
+const recipe = { calories: 500, protein: 30, sodium: 600, servings: 4 };
+
+test("ranges apply per serving by default", () => {
+  assert.equal(matchesNutritionFilters(recipe, filters({ minProtein: "25", maxCalories: "600" })), true);
+  assert.equal(matchesNutritionFilters(recipe, filters({ maxCalories: "499" })), false);
+  assert.equal(matchesNutritionFilters(recipe, filters({ minProtein: "31" })), false);
+});
+
+test("the recipe basis multiplies by the servings", () => {
+  const wholeRecipe = filters({ nutritionBasis: "recipe", minCalories: "1800", maxCalories: "2000" });
+  assert.equal(matchesNutritionFilters(recipe, wholeRecipe), true);
+  assert.equal(matchesNutritionFilters({ ...recipe, servings: 2 }, wholeRecipe), false);
+  // Recipes without servings count as the default four
+  assert.equal(matchesNutritionFilters({ ...recipe, servings: null }, wholeRecipe), true);
+});
+
+test("recipes missing a filtered value don't match", () => {
+  assert.equal(matchesNutritionFilters({ calories: 500 }, filters({ maxFat: "20" })), false);
+  assert.equal(matchesNutritionFilters({ calories: 500 }, filters({})), true);
+});
+
+test("invalid filters are rejected", () => {
+  assert.deepEqual(parseNutritionFilters({ nutritionBasis: "meal" }), { error: "nutritionBasis must be 'serving' or 'recipe'" });
+  assert.deepEqual(parseNutritionFilters({ minSodium: "-1" }), { error: "minSodium must be a non-negative number" });
+  assert.deepEqual(parseNutritionFilters({ minFat: "10", maxFat: "5" }), { error: "minFat cannot be greater than maxFat" });
+});
+
+test("a daily sodium limit caps each serving at a third, whatever the basis", () => {
+  const capped = applyDailySodiumLimit(filters({ nutritionBasis: "recipe" }), 1500);
+  assert.equal(capped.maxSodiumPerServing, 500);
+  assert.equal(matchesNutritionFilters(recipe, capped), false);
+  assert.equal(matchesNutritionFilters({ ...recipe, sodium: 450 }, capped), true);
+  assert.equal(matchesNutritionFilters({ ...recipe, sodium: null }, capped), false);
+
+  // A second limit never loosens the first
+  assert.equal(applyDailySodiumLimit(applyDailySodiumLimit(filters({}), 2300), 1500).maxSodiumPerServing, 500);
+  assert.equal(applyDailySodiumLimit(applyDailySodiumLimit(filters({}), 1500), 2300).maxSodiumPerServing, 500);
+});
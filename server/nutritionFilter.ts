@@ -0,0 +1,115 @@
+/**
+ * Nutrition Filters
+ *
+ * Min/max ranges for recipe macros, shared by:
+ * - Database recipe queries (SQL conditions in storage)
+ * - External recipe results (filtered in memory)
+ *
+ * Recipe nutrition columns hold per-serving values. With the "recipe" basis a
+ * range applies to the whole recipe, i.e. the per-serving value times servings.
+ */
+
+export const NUTRIENTS = ["calories", "protein", "carbs", "fat", "sodium"] as const;
+export type Nutrient = typeof NUTRIENTS[number];
+
+export type NutritionBasis = "serving" | "recipe";
+
+export interface NutritionRange {
+  min?: number;
+  max?: number;
+}
+
+export interface NutritionFilters {
+  basis: NutritionBasis;
+  ranges: Partial<Record<Nutrient, NutritionRange>>;
+  maxSodiumPerServing?: number; // from users' daily sodium limits, always per serving
+}
+
+// Servings assumed when a recipe doesn't say (matches the recipes table default)
+export const DEFAULT_SERVINGS = 4;
+
+// A daily sodium limit is spread across this many meals when applied to a serving
+const MEALS_PER_DAY = 3;
+
+type NutritionValues = Partial<Record<Nutrient, number | null>> & { servings?: number | null };
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Read `min<Nutrient>` / `max<Nutrient>` (e.g. minProtein, maxSodium) and
+ * `nutritionBasis` from query params. Returns an error message for invalid input.
+ */
+export function parseNutritionFilters(query: Record<string, unknown>): { filters: NutritionFilters } | { error: string } {
+  const basis = (query.nutritionBasis as string) || "serving";
+  if (basis !== "serving" && basis !== "recipe") {
+    return { error: "nutritionBasis must be 'serving' or 'recipe'" };
+  }
+
+  const ranges: NutritionFilters["ranges"] = {};
+  for (const nutrient of NUTRIENTS) {
+    const range: NutritionRange = {};
+    for (const bound of ["min", "max"] as const) {
+      const raw = query[`${bound}${capitalize(nutrient)}`];
+      if (raw === undefined || raw === "") continue;
+      const value = Number(raw);
+      if (!isFinite(value) || value < 0) {
+        return { error: `${bound}${capitalize(nutrient)} must be a non-negative number` };
+      }
+      range[bound] = value;
+    }
+    if (range.min !== undefined && range.max !== undefined && range.min > range.max) {
+      return { error: `min${capitalize(nutrient)} cannot be greater than max${capitalize(nutrient)}` };
+    }
+    if (range.min !== undefined || range.max !== undefined) {
+      ranges[nutrient] = range;
+    }
+  }
+
+  return { filters: { basis, ranges } };
+}
+
+export function hasNutritionFilters(filters: NutritionFilters | undefined): filters is NutritionFilters {
+  return !!filters && (Object.keys(filters.ranges).length > 0 || filters.maxSodiumPerServing !== undefined);
+}
+
+/**
+ * Limit sodium per serving to a share of a daily limit (mg), since one
+ * serving is only one of the day's meals
+ */
+export function applyDailySodiumLimit(filters: NutritionFilters, dailyLimit: number): NutritionFilters {
+  const perServing = Math.floor(dailyLimit / MEALS_PER_DAY);
+  return {
+    ...filters,
+    maxSodiumPerServing: Math.min(filters.maxSodiumPerServing ?? perServing, perServing),
+  };
+}
+
+/**
+ * Whether a recipe's nutrition falls inside every requested range. Recipes
+ * missing a value for a filtered nutrient don't match.
+ */
+export function matchesNutritionFilters(recipe: NutritionValues, filters: NutritionFilters | undefined): boolean {
+  if (!hasNutritionFilters(filters)) return true;
+
+  if (filters.maxSodiumPerServing !== undefined) {
+    if (recipe.sodium === null || recipe.sodium === undefined || recipe.sodium > filters.maxSodiumPerServing) {
+      return false;
+    }
+  }
+
+  const multiplier = filters.basis === "recipe" ? (recipe.servings || DEFAULT_SERVINGS) : 1;
+  for (const nutrient of NUTRIENTS) {
+    const range = filters.ranges[nutrient];
+    if (!range) continue;
+
+    const perServing = recipe[nutrient];
+    if (perServing === null || perServing === undefined) return false;
+
+    const value = perServing * multiplier;
+    if (range.min !== undefined && value < range.min) return false;
+    if (range.max !== undefined && value > range.max) return false;
+  }
+  return true;
+}
@@ -0,0 +1,25 @@
+/**
+ * Database Preparation
+ *
+ * Run by `npm run db:push` before `drizzle-kit push`. Creates the extensions
+ * and SQL functions that the schema's indexes and generated columns depend
+ * on, which push doesn't manage, so a fresh database can be pushed, and
+ * clears out rows that would violate newly added unique indexes.
+ */
+
+import { storage } from "./storage";
+import { pool } from "./db";
+
+(async () => {
+  try {
+    await storage.ensureRecipeSearchExtensions();
+    const removed = await storage.dedupeShelfLifeOverrides();
+    if (removed > 0) console.log(`Removed ${removed} duplicate shelf-life correction(s)`);
+    console.log("Database extensions ready");
+  } catch (error) {
+    console.error("Error preparing the database:", error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+})();
@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseQuantity, normalizeUnit, convertQuantity, addQuantities, unitsCompatible, hasSufficientQuantity } from "./quantityService";
+
+test("plural portion and container units match their singular", () => {
+  for (const [plural, singular] of [
+    ["cloves", "clove"], ["slices", "slice"], ["cans", "can"], ["stalks", "stalk"],
+    ["bunches", "bunch"], ["boxes", "box"], ["loaves", "loaf"], ["packages", "package"],
+  ]) {
+    assert.equal(normalizeUnit(plural).canonical, normalizeUnit(singular).canonical, plural);
+  }
+});
+
+test("unknown units singularize without cutting the stem", () => {
+  assert.equal(normalizeUnit("wedges").canonical, "wedge");
+  assert.equal(normalizeUnit("pouches").canonical, "pouch");
+  assert.equal(normalizeUnit("glass").canonical, "glass");
+});
+
+test("portions combine with their plural but not with other units", () => {
+  assert.equal(convertQuantity(1, "clove", "cloves"), 1);
+  assert.deepEqual(addQuantities({ value: 2, unit: "slices" }, { value: 1, unit: "slice" }), { value: 3, unit: "slices" });
+  assert.equal(unitsCompatible("can", "piece"), false);
+  assert.equal(unitsCompatible("clove", "head"), false);
+});
+
+test("mixed numbers, unicode fractions and ranges parse", () => {
+  assert.deepEqual(parseQuantity("1 1/2"), { value: 1.5, min: 1.5, max: 1.5 });
+  assert.deepEqual(parseQuantity("½"), { value: 0.5, min: 0.5, max: 0.5 });
+  assert.deepEqual(parseQuantity("1½"), { value: 1.5, min: 1.5, max: 1.5 });
+  // A range's value is its upper bound, so shopping never under-buys
+  assert.deepEqual(parseQuantity("2-3"), { value: 3, min: 2, max: 3 });
+  assert.deepEqual(parseQuantity("2 to 3"), { value: 3, min: 2, max: 3 });
+  assert.equal(parseQuantity("a pinch"), null);
+  assert.equal(parseQuantity(""), null);
+});
+
+test("cups and grams convert through the ingredient's density", () => {
+  // 2 cups × 236.588 ml × 0.53 g/ml
+  assert.equal(Math.round(convertQuantity(2, "cups", "g", "flour")!), 251);
+  assert.equal(Math.round(convertQuantity(1, "kg", "cups", "all-purpose flour")!), 8);
+  assert.equal(convertQuantity(2, "cups", "g", "paprika"), null);
+  assert.equal(unitsCompatible("cup", "g"), false);
+});
+
+test("sufficiency compares across volume and mass", () => {
+  const required = { value: 2, unit: "cups" };
+  assert.equal(hasSufficientQuantity(required, { value: 1, unit: "kg" }, "flour"), true);
+  assert.equal(hasSufficientQuantity(required, { value: 200, unit: "g" }, "flour"), false);
+  assert.equal(hasSufficientQuantity(required, { value: 1, unit: "pint" }, "flour"), true);
+});
+
+test("incompatible units count as covered", () => {
+  // All we can tell is that there's some rice; don't report it as missing
+  assert.equal(hasSufficientQuantity({ value: 2, unit: "cups" }, { value: 1, unit: "bag" }, "rice"), true);
+  assert.equal(hasSufficientQuantity({ value: 3, unit: "cloves" }, { value: 1, unit: "head" }, "garlic"), true);
+});
@@ -0,0 +1,340 @@
+/**
+ * Quantity Service
+ *
+ * Parses free-text amounts and converts between units so that quantities
+ * can be compared across:
+ * - Recipe ingredients (free-text amount/unit)
+ * - Kitchen inventory (decimal quantity)
+ * - Shopping list items (varchar quantity)
+ */
+
+import { normalizeIngredientName } from "./normalizationService";
+
+export type UnitDimension = "volume" | "mass" | "count";
+
+export interface UnitDefinition {
+  canonical: string;
+  dimension: UnitDimension;
+  toBase: number; // multiplier to ml (volume), g (mass) or pieces (count)
+}
+
+export interface ParsedQuantity {
+  value: number; // upper bound for ranges so we never under-buy
+  min: number;
+  max: number;
+}
+
+export interface Quantity {
+  value: number;
+  unit: string;
+}
+
+// Volume units (base: ml)
+const VOLUME_UNITS: Record<string, number> = {
+  ml: 1,
+  cl: 10,
+  dl: 100,
+  l: 1000,
+  tsp: 4.92892,
+  tbsp: 14.7868,
+  "fl oz": 29.5735,
+  cup: 236.588,
+  pint: 473.176,
+  quart: 946.353,
+  gallon: 3785.41,
+  pinch: 0.31,
+  dash: 0.62,
+};
+
+// Mass units (base: g)
+const MASS_UNITS: Record<string, number> = {
+  mg: 0.001,
+  g: 1,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592,
+};
+
+// Generic count units all convert to "piece"
+const COUNT_UNITS: Record<string, number> = {
+  piece: 1,
+  dozen: 12,
+};
+
+// Spellings and abbreviations mapped to the canonical unit keys above
+const UNIT_ALIASES: Record<string, string> = {
+  // Volume
+  "milliliter": "ml", "milliliters": "ml", "millilitre": "ml", "millilitres": "ml", "mls": "ml",
+  "centiliter": "cl", "centiliters": "cl",
+  "deciliter": "dl", "deciliters": "dl",
+  "liter": "l", "liters": "l", "litre": "l", "litres": "l", "ltr": "l",
+  "teaspoon": "tsp", "teaspoons": "tsp", "tsps": "tsp", "t": "tsp",
+  "tablespoon": "tbsp", "tablespoons": "tbsp", "tbsps": "tbsp", "tbs": "tbsp", "tbl": "tbsp", "tb": "tbsp",
+  "fluid ounce": "fl oz", "fluid ounces": "fl oz", "floz": "fl oz", "fl. oz": "fl oz",
+  "cups": "cup", "c": "cup",
+  "pints": "pint", "pt": "pint",
+  "quarts": "quart", "qt": "quart",
+  "gallons": "gallon", "gal": "gallon",
+  "pinches": "pinch",
+  "dashes": "dash",
+  // Mass
+  "milligram": "mg", "milligrams": "mg",
+  "gram": "g", "grams": "g", "gr": "g", "grs": "g",
+  "kilogram": "kg", "kilograms": "kg", "kilo": "kg", "kilos": "kg", "kgs": "kg",
+  "ounce": "oz", "ounces": "oz",
+  "pound": "lb", "pounds": "lb", "lbs": "lb",
+  // Count
+  "": "piece", "pieces": "piece", "pc": "piece", "pcs": "piece",
+  "each": "piece", "ea": "piece", "whole": "piece", "unit": "piece", "units": "piece",
+  "large": "piece", "medium": "piece", "small": "piece", "item": "piece", "items": "piece",
+  "dozens": "dozen", "doz": "dozen",
+};
+
+// Containers and natural portions stay units of their own ("2 cans" never
+// compares with "2 pieces"), but their spellings still need to agree
+const PORTION_ALIASES: Record<string, string> = {
+  "cloves": "clove", "slices": "slice", "cans": "can", "tins": "tin", "stalks": "stalk",
+  "sprigs": "sprig", "heads": "head", "bunches": "bunch", "jars": "jar", "bottles": "bottle",
+  "packages": "package", "pkg": "package", "pkgs": "package", "packets": "packet",
+  "envelopes": "envelope", "bags": "bag", "boxes": "box", "cartons": "carton",
+  "containers": "container", "sticks": "stick", "blocks": "block", "loaves": "loaf",
+  "leaves": "leaf", "fillets": "fillet", "sheets": "sheet", "ears": "ear",
+  "handfuls": "handful", "scoops": "scoop",
+};
+
+// Grams per millilitre, used to convert cups <-> grams for common ingredients
+const DENSITY_HINTS: Record<string, number> = {
+  "water": 1.0,
+  "milk": 1.03,
+  "cream": 1.01,
+  "heavy cream": 1.01,
+  "yogurt": 1.03,
+  "buttermilk": 1.03,
+  "butter": 0.96,
+  "oil": 0.92,
+  "olive oil": 0.91,
+  "vegetable oil": 0.92,
+  "honey": 1.42,
+  "maple syrup": 1.32,
+  "flour": 0.53,
+  "all purpose flour": 0.53,
+  "bread flour": 0.55,
+  "whole wheat flour": 0.51,
+  "sugar": 0.85,
+  "granulated sugar": 0.85,
+  "brown sugar": 0.93,
+  "powdered sugar": 0.56,
+  "salt": 1.2,
+  "rice": 0.85,
+  "oat": 0.41,
+  "rolled oat": 0.41,
+  "cocoa powder": 0.42,
+  "cornstarch": 0.54,
+  "baking soda": 0.93,
+  "baking powder": 0.81,
+  "peanut butter": 1.09,
+  "cheese": 0.45,
+  "parmesan": 0.42,
+  "lentil": 0.81,
+  "quinoa": 0.72,
+  "pasta": 0.42,
+};
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "½": 1 / 2, "⅓": 1 / 3, "⅔": 2 / 3, "¼": 1 / 4, "¾": 3 / 4,
+  "⅕": 1 / 5, "⅖": 2 / 5, "⅗": 3 / 5, "⅘": 4 / 5, "⅙": 1 / 6, "⅚": 5 / 6,
+  "⅛": 1 / 8, "⅜": 3 / 8, "⅝": 5 / 8, "⅞": 7 / 8,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  "a": 1, "an": 1, "one": 1, "two": 2, "three": 3, "four": 4, "five": 5, "six": 6,
+  "seven": 7, "eight": 8, "nine": 9, "ten": 10, "eleven": 11, "twelve": 12,
+  "half": 0.5, "quarter": 0.25,
+};
+
+// Parse a single number token: "2", "1.5", "1/2", "1 1/2", "1½", "½"
+function parseSingleNumber(text: string): number | null {
+  let input = text.trim().toLowerCase();
+  if (!input) return null;
+
+  if (NUMBER_WORDS[input] !== undefined) {
+    return NUMBER_WORDS[input];
+  }
+
+  // Separate unicode fractions from a leading whole number ("1½" -> "1 ½")
+  input = input.replace(/(\d)([½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞])/g, "$1 $2");
+
+  let total = 0;
+  const parts = input.split(/\s+/);
+  for (const part of parts) {
+    if (UNICODE_FRACTIONS[part] !== undefined) {
+      total += UNICODE_FRACTIONS[part];
+      continue;
+    }
+    const fraction = part.match(/^(\d+)\/(\d+)$/);
+    if (fraction) {
+      const denominator = parseInt(fraction[2]);
+      if (denominator === 0) return null;
+      total += parseInt(fraction[1]) / denominator;
+      continue;
+    }
+    if (/^\d+(\.\d+)?$/.test(part) || /^\.\d+$/.test(part)) {
+      total += parseFloat(part);
+      continue;
+    }
+    return null;
+  }
+
+  return total;
+}
+
+/**
+ * Parse a free-text amount such as "2", "1 1/2", "½", "1½", "2-3" or "2 to 3".
+ * Returns null when the text contains no recognizable number.
+ */
+export function parseQuantity(text: string | number | null | undefined): ParsedQuantity | null {
+  if (text === null || text === undefined) return null;
+  if (typeof text === "number") {
+    return isFinite(text) ? { value: text, min: text, max: text } : null;
+  }
+
+  const input = text.trim().toLowerCase();
+  if (!input) return null;
+
+  // Ranges: "2-3", "2 – 3", "2 to 3", "1/2-1"
+  const range = input.match(/^(.+?)\s*(?:-|–|—|to|or)\s*(.+)$/);
+  if (range) {
+    const min = parseSingleNumber(range[1]);
+    const max = parseSingleNumber(range[2]);
+    if (min !== null && max !== null) {
+      return { value: Math.max(min, max), min: Math.min(min, max), max: Math.max(min, max) };
+    }
+  }
+
+  const single = parseSingleNumber(input);
+  if (single === null) return null;
+  return { value: single, min: single, max: single };
+}
+
+/**
+ * Resolve a unit string to its definition. Unknown units (e.g. "clove", "can")
+ * are treated as their own count unit, so they only compare with themselves.
+ */
+export function normalizeUnit(unit: string | null | undefined): UnitDefinition {
+  const cleaned = (unit || "").toLowerCase().replace(/\.$/, "").replace(/\s+/g, " ").trim();
+  const key = UNIT_ALIASES[cleaned] ?? cleaned;
+
+  if (VOLUME_UNITS[key] !== undefined) {
+    return { canonical: key, dimension: "volume", toBase: VOLUME_UNITS[key] };
+  }
+  if (MASS_UNITS[key] !== undefined) {
+    return { canonical: key, dimension: "mass", toBase: MASS_UNITS[key] };
+  }
+  if (COUNT_UNITS[key] !== undefined) {
+    return { canonical: "piece", dimension: "count", toBase: COUNT_UNITS[key] };
+  }
+
+  // Other units: singularize and keep them distinct from generic pieces.
+  // Only sibilant stems take "-es" ("dashes"); "cloves" is "clove" + "s".
+  const singular = PORTION_ALIASES[key]
+    ?? (/(?:ch|sh|x|ss)es$/.test(key) ? key.slice(0, -2)
+      : key.endsWith("s") && !key.endsWith("ss") && key.length > 3 ? key.slice(0, -1)
+      : key);
+  return { canonical: singular, dimension: "count", toBase: 1 };
+}
+
+/**
+ * Look up the density (g/ml) for an ingredient, falling back to its last word
+ * so that "whole wheat flour" or "jasmine rice" still resolve.
+ */
+export function getDensityHint(ingredientName: string | undefined): number | null {
+  if (!ingredientName) return null;
+  const normalized = normalizeIngredientName(ingredientName);
+  if (DENSITY_HINTS[normalized] !== undefined) {
+    return DENSITY_HINTS[normalized];
+  }
+  const words = normalized.split(" ");
+  for (let i = 1; i < words.length; i++) {
+    const suffix = words.slice(i).join(" ");
+    if (DENSITY_HINTS[suffix] !== undefined) {
+      return DENSITY_HINTS[suffix];
+    }
+  }
+  return null;
+}
+
+/**
+ * Convert a value between units. Volume <-> mass conversions use the
+ * ingredient's density hint. Returns null when the units are incompatible.
+ */
+export function convertQuantity(
+  value: number,
+  fromUnit: string | null | undefined,
+  toUnit: string | null | undefined,
+  ingredientName?: string
+): number | null {
+  const from = normalizeUnit(fromUnit);
+  const to = normalizeUnit(toUnit);
+
+  if (from.dimension === to.dimension) {
+    // Count units only convert between generic pieces/dozens or identical units
+    if (from.dimension === "count" && from.canonical !== to.canonical) {
+      return null;
+    }
+    return (value * from.toBase) / to.toBase;
+  }
+
+  if (from.dimension === "count" || to.dimension === "count") {
+    return null;
+  }
+
+  const density = getDensityHint(ingredientName);
+  if (density === null) return null;
+
+  if (from.dimension === "volume") {
+    const grams = value * from.toBase * density;
+    return grams / to.toBase;
+  }
+  const millilitres = (value * from.toBase) / density;
+  return millilitres / to.toBase;
+}
+
+/**
+ * Check whether two units can be compared for a given ingredient
+ */
+export function unitsCompatible(unitA: string | null | undefined, unitB: string | null | undefined, ingredientName?: string): boolean {
+  return convertQuantity(1, unitA, unitB, ingredientName) !== null;
+}
+
+/**
+ * Add b to a, expressed in a's unit. Returns null if the units are incompatible.
+ */
+export function addQuantities(a: Quantity, b: Quantity, ingredientName?: string): Quantity | null {
+  const converted = convertQuantity(b.value, b.unit, a.unit, ingredientName);
+  if (converted === null) return null;
+  return { value: roundQuantity(a.value + converted), unit: a.unit };
+}
+
+/**
+ * Subtract b from a, expressed in a's unit (never below zero).
+ * Returns null if the units are incompatible.
+ */
+export function subtractQuantities(a: Quantity, b: Quantity, ingredientName?: string): Quantity | null {
+  const converted = convertQuantity(b.value, b.unit, a.unit, ingredientName);
+  if (converted === null) return null;
+  return { value: roundQuantity(Math.max(0, a.value - converted)), unit: a.unit };
+}
+
+/**
+ * Check whether the available quantity covers the required one.
+ * Incompatible units count as covered, since presence is all we can tell.
+ */
+export function hasSufficientQuantity(required: Quantity, available: Quantity, ingredientName?: string): boolean {
+  const converted = convertQuantity(available.value, available.unit, required.unit, ingredientName);
+  if (converted === null) return true;
+  return converted + 1e-9 >= required.value;
+}
+
+export function roundQuantity(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -1,4 +1,7 @@
 import memoizee from "memoizee";
+import type { RecipeIngredient } from "@shared/schema";
+import { parseIngredientLine, toRecipeIngredient } from "./ingredientParser";
+import type { NormalizedRecipe, RecipeProvider } from "./recipeProviders";
 
 const RECIPE_API_BASE_URL = "https://api.api-ninjas.com/v2/recipe";
 const RECIPE_API_KEY = process.env.RECIPE_API_KEY;
@@ -15,26 +18,6 @@ export interface RecipeApiResponse {
   instructions: string;
 }
 
-export interface NormalizedRecipe {
-  id: string;
-  name: string;
-  description: string;
-  imageUrl: string | null;
-  prepTime: number | null;
-  cookTime: number | null;
-  servings: number;
-  calories: number | null;
-  dietType: string | null;
-  cuisine: string | null;
-  mealType: string | null;
-  ingredients: Array<{ name: string; amount: string; unit: string }>;
-  instructions: string[];
-  tags: string[];
-  averageRating: number | null;
-  totalRatings: number;
-  ratings: any[];
-}
-
 // Generate a stable ID from recipe title
 function generateRecipeId(title: string): string {
   return `api-${title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
@@ -46,25 +29,6 @@ function parseServings(servingsStr: string): number {
   return match ? parseInt(match[1]) : 4;
 }
 
-// Parse ingredient string into structured format
-function parseIngredient(ingredientStr: string): { name: string; amount: string; unit: string } {
-  // Simple parsing: split by first number or fraction
-  const match = ingredientStr.match(/^([\d\/\s]+)?\s*([a-z]+)?\s*(.+)$/i);
-  if (match) {
-    const [, amount = '1', unit = '', name] = match;
-    return {
-      amount: amount.trim() || '1',
-      unit: unit.trim(),
-      name: (name || ingredientStr).trim()
-    };
-  }
-  return {
-    amount: '1',
-    unit: '',
-    name: ingredientStr.trim()
-  };
-}
-
 // Detect diet type from ingredients
 function detectDietType(ingredients: string[]): string | null {
   const ingredientText = ingredients.join(' ').toLowerCase();
@@ -152,7 +116,7 @@ function generateTags(recipe: RecipeApiResponse): string[] {
 
 // Normalize API recipe to our format
 function normalizeRecipe(apiRecipe: RecipeApiResponse): NormalizedRecipe {
-  const parsedIngredients = apiRecipe.ingredients.map(parseIngredient);
+  const parsedIngredients = apiRecipe.ingredients.map(line => toRecipeIngredient(parseIngredientLine(line)));
   const dietType = detectDietType(apiRecipe.ingredients);
   const tags = generateTags(apiRecipe);
   
@@ -184,6 +148,10 @@ function normalizeRecipe(apiRecipe: RecipeApiResponse): NormalizedRecipe {
     cookTime: null,
     servings: parseServings(apiRecipe.servings),
     calories: null,
+    protein: null,
+    carbs: null,
+    fat: null,
+    sodium: null,
     dietType,
     cuisine,
     mealType,
@@ -213,6 +181,7 @@ async function fetchRecipesFromApi(params: {
   const url = `${RECIPE_API_BASE_URL}?${queryParams.toString()}`;
   console.log('Calling api-ninjas with URL:', url);
   
+  apiNinjasProvider.onRequest?.();
   const response = await fetch(url, {
     headers: {
       'X-Api-Key': RECIPE_API_KEY,
@@ -222,7 +191,7 @@ async function fetchRecipesFromApi(params: {
   if (!response.ok) {
     const errorText = await response.text();
     console.log('api-ninjas error response:', errorText);
-    throw new Error(`Recipe API error: ${response.status} ${response.statusText}`);
+    throw Object.assign(new Error(`Recipe API error: ${response.status} ${response.statusText}`), { status: response.status });
   }
 
   const data = await response.json();
@@ -243,7 +212,6 @@ export async function searchRecipes(params: {
   dietType?: string;
   cuisine?: string;
   mealType?: string;
-  maxCalories?: number;
   limit?: number;
   offset?: number;
 }): Promise<NormalizedRecipe[]> {
@@ -289,11 +257,6 @@ export async function searchRecipes(params: {
     });
   }
 
-  if (params.maxCalories && params.maxCalories > 0) {
-    // Since API doesn't provide calories, we can't filter by it
-    // In a real app, you'd need a different API or calculate calories
-  }
-
   // Apply limit/offset on client side since API doesn't support it
   const offset = params.offset || 0;
   const limit = params.limit || 10;
@@ -320,3 +283,13 @@ export async function getRecipeById(id: string): Promise<NormalizedRecipe | null
     return null;
   }
 }
+
+// api-ninjas has no images, so it ranks below Spoonacular by default
+export const apiNinjasProvider: RecipeProvider = {
+  name: "api-ninjas",
+  source: "api_ninjas",
+  idPrefix: "api-",
+  isConfigured: () => !!RECIPE_API_KEY,
+  search: searchRecipes,
+  getById: getRecipeById,
+};
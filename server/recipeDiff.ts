@@ -0,0 +1,154 @@
+/**
+ * Recipe Diff
+ *
+ * Compares two versions of a recipe's content for the version history:
+ * - Scalar fields (name, times, nutrition, ...) as before/after pairs
+ * - Ingredients matched by normalized name, so "onions" -> "red onion"
+ *   edits show as a change rather than a removal plus an addition
+ * - Instructions as a step-by-step line diff
+ */
+
+import type { Recipe, RecipeContent, RecipeIngredient } from "@shared/schema";
+import { normalizeIngredientName } from "./normalizationService";
+import { getRecipeSteps } from "./stepParser";
+
+// Versioned fields, in the order they're shown; ingredients and instructions
+// get their own diffs below
+export const RECIPE_CONTENT_FIELDS = [
+  "name", "description", "imageUrl", "prepTime", "cookTime", "servings",
+  "calories", "protein", "carbs", "fat", "sodium",
+  "dietType", "cuisine", "mealType", "tags", "ingredients", "instructions", "steps",
+] as const;
+
+// Step details (timers, temperatures) are only listed as a field change when
+// the step text itself is unchanged
+type ScalarField = Exclude<(typeof RECIPE_CONTENT_FIELDS)[number], "ingredients" | "instructions">;
+
+export type RecipeFieldChange = {
+  field: ScalarField;
+  before: unknown;
+  after: unknown;
+};
+
+export type IngredientChange =
+  | { type: "added"; name: string; after: RecipeIngredient }
+  | { type: "removed"; name: string; before: RecipeIngredient }
+  | { type: "changed"; name: string; before: RecipeIngredient; after: RecipeIngredient };
+
+export type InstructionLine = {
+  type: "added" | "removed" | "unchanged";
+  text: string;
+};
+
+export type RecipeDiff = {
+  changed: boolean;
+  fields: RecipeFieldChange[];
+  ingredients: IngredientChange[];
+  instructions: InstructionLine[];
+};
+
+/**
+ * The versioned content of a recipe row
+ */
+export function getRecipeContent(recipe: Pick<Recipe, (typeof RECIPE_CONTENT_FIELDS)[number]>): RecipeContent {
+  const content: Record<string, unknown> = {};
+  for (const field of RECIPE_CONTENT_FIELDS) {
+    content[field] = recipe[field] ?? null;
+  }
+  return content as RecipeContent;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function ingredientKey(ingredient: RecipeIngredient): string {
+  return normalizeIngredientName(ingredient.name) || ingredient.name.toLowerCase().trim();
+}
+
+function diffIngredients(before: RecipeIngredient[], after: RecipeIngredient[]): IngredientChange[] {
+  const changes: IngredientChange[] = [];
+  const remaining = new Map<string, RecipeIngredient[]>();
+  for (const ingredient of before) {
+    const key = ingredientKey(ingredient);
+    remaining.set(key, [...(remaining.get(key) || []), ingredient]);
+  }
+
+  for (const ingredient of after) {
+    const matches = remaining.get(ingredientKey(ingredient));
+    const previous = matches?.shift();
+    if (!previous) {
+      changes.push({ type: "added", name: ingredient.name, after: ingredient });
+    } else if (!sameValue(previous, ingredient)) {
+      changes.push({ type: "changed", name: ingredient.name, before: previous, after: ingredient });
+    }
+  }
+
+  for (const leftovers of Array.from(remaining.values())) {
+    for (const ingredient of leftovers) {
+      changes.push({ type: "removed", name: ingredient.name, before: ingredient });
+    }
+  }
+  return changes;
+}
+
+// Line diff over the longest common subsequence of steps
+function diffInstructions(before: string[], after: string[]): InstructionLine[] {
+  const lengths: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: InstructionLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      lines.push({ type: "unchanged", text: before[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: "removed", text: before[i++] });
+    } else {
+      lines.push({ type: "added", text: after[j++] });
+    }
+  }
+  while (i < before.length) lines.push({ type: "removed", text: before[i++] });
+  while (j < after.length) lines.push({ type: "added", text: after[j++] });
+  return lines;
+}
+
+/**
+ * Compare two versions of a recipe's content
+ */
+export function diffRecipeContent(before: RecipeContent, after: RecipeContent): RecipeDiff {
+  const fields: RecipeFieldChange[] = [];
+  for (const field of RECIPE_CONTENT_FIELDS) {
+    if (field === "ingredients" || field === "instructions" || field === "steps") continue;
+    if (!sameValue(before[field], after[field])) {
+      fields.push({ field, before: before[field] ?? null, after: after[field] ?? null });
+    }
+  }
+
+  const ingredients = diffIngredients(
+    (before.ingredients as RecipeIngredient[]) || [],
+    (after.ingredients as RecipeIngredient[]) || [],
+  );
+  const instructions = diffInstructions(before.instructions || [], after.instructions || []);
+  // Versions saved before steps existed are compared as parsed from their text
+  const [beforeSteps, afterSteps] = [getRecipeSteps(before), getRecipeSteps(after)];
+  if (instructions.every(line => line.type === "unchanged") && !sameValue(beforeSteps, afterSteps)) {
+    fields.push({ field: "steps", before: beforeSteps, after: afterSteps });
+  }
+
+  return {
+    changed: fields.length > 0 || ingredients.length > 0 || instructions.some(line => line.type !== "unchanged"),
+    fields,
+    ingredients,
+    instructions,
+  };
+}
@@ -0,0 +1,461 @@
+/**
+ * Recipe Export
+ *
+ * Single recipes export as:
+ * - schema.org JSON-LD (what other recipe apps and our own importer read)
+ * - a Markdown card (also readable as plain text)
+ * - a printable HTML card, with the JSON-LD embedded
+ *
+ * A user's own and rated recipes export together as a zip with one JSON-LD
+ * and one Markdown file per recipe, plus a manifest carrying the user's
+ * ratings. importRecipeArchive reads that zip back into another account.
+ */
+
+import JSZip from "jszip";
+import { recipeVisibilityEnum, type Recipe, type RecipeIngredient, type RecipeVisibility } from "@shared/schema";
+import { storage } from "./storage";
+import { formatIngredientLine } from "./ingredientParser";
+import { findRecipeNode, recipeNodeToDraft } from "./recipeImport";
+
+export const EXPORT_FORMATS = ["jsonld", "markdown", "html"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Accepted spellings of each format in ?format=
+const FORMAT_ALIASES: Record<string, ExportFormat> = {
+  jsonld: "jsonld",
+  "json-ld": "jsonld",
+  json: "jsonld",
+  markdown: "markdown",
+  md: "markdown",
+  text: "markdown",
+  txt: "markdown",
+  html: "html",
+  print: "html",
+};
+
+const ARCHIVE_FORMAT = "recipe-export";
+const ARCHIVE_VERSION = 1;
+const MAX_ARCHIVE_RECIPES = 1000;
+// Limits on decompressed sizes, so a small zip can't inflate into gigabytes
+const MAX_ARCHIVE_FILE_BYTES = 5 * 1024 * 1024;
+const MAX_ARCHIVE_TOTAL_BYTES = 100 * 1024 * 1024;
+
+type ExportableRecipe = Omit<Recipe, "searchVector">;
+
+export interface ExportedFile {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  recipes: Array<{
+    id: string;
+    name: string;
+    file: string;
+    own: boolean;
+    visibility?: RecipeVisibility; // own recipes only
+    rating: number | null;
+    comment: string | null;
+  }>;
+}
+
+export interface ArchiveImportSummary {
+  imported: number; // recipes copied into the account
+  rated: number; // ratings restored, on copies or on recipes that already exist here
+  skipped: Array<{ file: string; reason: string }>;
+}
+
+const SCHEMA_DIETS: Record<string, string> = {
+  vegan: "https://schema.org/VeganDiet",
+  vegetarian: "https://schema.org/VegetarianDiet",
+  "gluten-free": "https://schema.org/GlutenFreeDiet",
+  "low-sodium": "https://schema.org/LowSaltDiet",
+};
+
+export function parseExportFormat(value: unknown): ExportFormat | null {
+  if (value === undefined || value === "") return "jsonld";
+  return FORMAT_ALIASES[String(value).toLowerCase()] ?? null;
+}
+
+function toIsoDuration(minutes: number | null | undefined): string | undefined {
+  if (!minutes || minutes <= 0) return undefined;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `PT${hours ? `${hours}H` : ""}${rest ? `${rest}M` : ""}`;
+}
+
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (!hours) return `${rest} min`;
+  return rest ? `${hours} hr ${rest} min` : `${hours} hr`;
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().normalize("NFKD").replace(/[^\w\s-]/g, "").trim().replace(/[\s_-]+/g, "-").slice(0, 60) || "recipe";
+}
+
+function ingredientLines(recipe: ExportableRecipe): string[] {
+  return ((recipe.ingredients as RecipeIngredient[]) || []).map(formatIngredientLine);
+}
+
+function nutritionFacts(recipe: ExportableRecipe): Array<[string, string]> {
+  const facts: Array<[string, string]> = [];
+  if (recipe.calories !== null) facts.push(["Calories", `${recipe.calories} kcal`]);
+  if (recipe.protein !== null) facts.push(["Protein", `${recipe.protein} g`]);
+  if (recipe.carbs !== null) facts.push(["Carbs", `${recipe.carbs} g`]);
+  if (recipe.fat !== null) facts.push(["Fat", `${recipe.fat} g`]);
+  if (recipe.sodium !== null) facts.push(["Sodium", `${recipe.sodium} mg`]);
+  return facts;
+}
+
+/**
+ * schema.org Recipe document. Nutrition values are per serving, as stored.
+ */
+export function toJsonLd(recipe: ExportableRecipe): Record<string, unknown> {
+  const tags = recipe.tags || [];
+  const diets = Array.from(new Set([recipe.dietType, ...tags]))
+    .map(diet => diet && SCHEMA_DIETS[diet])
+    .filter(Boolean);
+  const totalTime = (recipe.prepTime || 0) + (recipe.cookTime || 0);
+
+  const nutrition: Record<string, string> = {};
+  if (recipe.calories !== null) nutrition.calories = `${recipe.calories} kcal`;
+  if (recipe.protein !== null) nutrition.proteinContent = `${recipe.protein} g`;
+  if (recipe.carbs !== null) nutrition.carbohydrateContent = `${recipe.carbs} g`;
+  if (recipe.fat !== null) nutrition.fatContent = `${recipe.fat} g`;
+  if (recipe.sodium !== null) nutrition.sodiumContent = `${recipe.sodium} mg`;
+
+  // JSON.stringify drops the undefined fields
+  return {
+    "@context": "https://schema.org",
+    "@type": "Recipe",
+    identifier: recipe.id,
+    name: recipe.name,
+    description: recipe.description || undefined,
+    image: recipe.imageUrl || undefined,
+    dateCreated: recipe.createdAt ? new Date(recipe.createdAt).toISOString() : undefined,
+    prepTime: toIsoDuration(recipe.prepTime),
+    cookTime: toIsoDuration(recipe.cookTime),
+    totalTime: toIsoDuration(totalTime),
+    recipeYield: recipe.servings ? `${recipe.servings} servings` : undefined,
+    recipeCategory: recipe.mealType || undefined,
+    recipeCuisine: recipe.cuisine || undefined,
+    keywords: tags.length > 0 ? tags.join(", ") : undefined,
+    suitableForDiet: diets.length > 0 ? diets : undefined,
+    recipeIngredient: ingredientLines(recipe),
+    recipeInstructions: (recipe.instructions || []).map(text => ({ "@type": "HowToStep", text })),
+    nutrition: Object.keys(nutrition).length > 0
+      ? { "@type": "NutritionInformation", servingSize: "1 serving", ...nutrition }
+      : undefined,
+  };
+}
+
+export function toMarkdown(recipe: ExportableRecipe): string {
+  const lines: string[] = [`# ${recipe.name}`, ""];
+  if (recipe.description) lines.push(recipe.description, "");
+
+  const meta = [
+    recipe.servings ? `Serves ${recipe.servings}` : null,
+    recipe.prepTime ? `Prep ${formatMinutes(recipe.prepTime)}` : null,
+    recipe.cookTime ? `Cook ${formatMinutes(recipe.cookTime)}` : null,
+    recipe.cuisine,
+    recipe.mealType,
+    recipe.dietType,
+  ].filter(Boolean);
+  if (meta.length > 0) lines.push(meta.join(" · "), "");
+
+  lines.push("## Ingredients", "", ...ingredientLines(recipe).map(line => `- ${line}`), "");
+
+  const instructions = recipe.instructions || [];
+  if (instructions.length > 0) {
+    lines.push("## Instructions", "", ...instructions.map((step, index) => `${index + 1}. ${step}`), "");
+  }
+
+  const facts = nutritionFacts(recipe);
+  if (facts.length > 0) {
+    lines.push("## Nutrition (per serving)", "", ...facts.map(([label, value]) => `- ${label}: ${value}`), "");
+  }
+
+  if (recipe.tags && recipe.tags.length > 0) {
+    lines.push(`Tags: ${recipe.tags.join(", ")}`, "");
+  }
+  return lines.join("\n");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// JSON-LD inside <script> must not be able to close the tag
+function scriptSafeJson(value: unknown): string {
+  return JSON.stringify(value, null, 2).replace(/</g, "\\u003c");
+}
+
+export function toHtmlCard(recipe: ExportableRecipe): string {
+  const meta = [
+    recipe.servings ? `Serves ${recipe.servings}` : null,
+    recipe.prepTime ? `Prep ${formatMinutes(recipe.prepTime)}` : null,
+    recipe.cookTime ? `Cook ${formatMinutes(recipe.cookTime)}` : null,
+    recipe.cuisine,
+    recipe.mealType,
+  ].filter((value): value is string => !!value);
+  const facts = nutritionFacts(recipe);
+  const instructions = recipe.instructions || [];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(recipe.name)}</title>
+<script type="application/ld+json">
+${scriptSafeJson(toJsonLd(recipe))}
+</script>
+<style>
+  body { font-family: Georgia, "Times New Roman", serif; color: #222; max-width: 720px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { margin-bottom: 0.25rem; }
+  .meta { color: #666; margin-bottom: 1rem; }
+  img { width: 100%; max-height: 320px; object-fit: cover; border-radius: 8px; }
+  .columns { display: grid; grid-template-columns: 1fr 2fr; gap: 2rem; }
+  ol li { margin-bottom: 0.5rem; }
+  .nutrition { border-top: 1px solid #ccc; margin-top: 1rem; padding-top: 0.5rem; font-size: 0.9rem; color: #444; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    img { max-height: 200px; }
+  }
+  @media (max-width: 600px) {
+    .columns { grid-template-columns: 1fr; }
+  }
+</style>
+</head>
+<body>
+<article>
+  <h1>${escapeHtml(recipe.name)}</h1>
+${meta.length > 0 ? `  <div class="meta">${meta.map(escapeHtml).join(" &middot; ")}</div>\n` : ""}${recipe.imageUrl ? `  <img src="${escapeHtml(recipe.imageUrl)}" alt="">\n` : ""}${recipe.description ? `  <p>${escapeHtml(recipe.description)}</p>\n` : ""}  <div class="columns">
+    <section>
+      <h2>Ingredients</h2>
+      <ul>
+${ingredientLines(recipe).map(line => `        <li>${escapeHtml(line)}</li>`).join("\n")}
+      </ul>
+    </section>
+    <section>
+      <h2>Instructions</h2>
+      <ol>
+${instructions.map(step => `        <li>${escapeHtml(step)}</li>`).join("\n")}
+      </ol>
+    </section>
+  </div>
+${facts.length > 0 ? `  <div class="nutrition">Per serving: ${facts.map(([label, value]) => `${label} ${escapeHtml(value)}`).join(" &middot; ")}</div>\n` : ""}</article>
+</body>
+</html>
+`;
+}
+
+export function exportRecipe(recipe: ExportableRecipe, format: ExportFormat): ExportedFile {
+  const slug = slugify(recipe.name);
+  switch (format) {
+    case "markdown":
+      return { filename: `${slug}.md`, contentType: "text/markdown; charset=utf-8", body: toMarkdown(recipe) };
+    case "html":
+      return { filename: `${slug}.html`, contentType: "text/html; charset=utf-8", body: toHtmlCard(recipe) };
+    default:
+      return { filename: `${slug}.jsonld`, contentType: "application/ld+json; charset=utf-8", body: JSON.stringify(toJsonLd(recipe), null, 2) };
+  }
+}
+
+/**
+ * Zip of every recipe the user added or rated
+ */
+export async function exportUserRecipesArchive(userId: string): Promise<{ filename: string; data: Buffer; count: number }> {
+  const entries = await storage.getUserRecipesForExport(userId);
+  const zip = new JSZip();
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    recipes: [],
+  };
+
+  const usedNames = new Set<string>();
+  for (const { recipe, own, rating, comment } of entries) {
+    let base = slugify(recipe.name);
+    for (let suffix = 2; usedNames.has(base); suffix++) {
+      base = `${slugify(recipe.name)}-${suffix}`;
+    }
+    usedNames.add(base);
+
+    const file = `recipes/${base}.jsonld`;
+    zip.file(file, JSON.stringify(toJsonLd(recipe), null, 2));
+    zip.file(`recipes/${base}.md`, toMarkdown(recipe));
+    manifest.recipes.push({ id: recipe.id, name: recipe.name, file, own, visibility: own ? recipe.visibility : undefined, rating, comment });
+  }
+
+  zip.file("manifest.json", JSON.stringify(manifest, null, 2));
+  const data = await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+  const date = manifest.exportedAt.slice(0, 10);
+  return { filename: `recipes-${date}.zip`, data, count: entries.length };
+}
+
+function isRecipeVisibility(value: unknown): value is RecipeVisibility {
+  return recipeVisibilityEnum.enumValues.includes(value as RecipeVisibility);
+}
+
+// Sizes the zip's central directory declares for an entry once inflated.
+// JSZip keeps them on a private property.
+function declaredSize(file: JSZip.JSZipObject): number {
+  return (file as unknown as { _data?: { uncompressedSize?: number } })._data?.uncompressedSize ?? 0;
+}
+
+class ArchiveTooLargeError extends Error {}
+
+/**
+ * Inflate one entry as text, counting the bytes actually produced (declared
+ * sizes can lie) against the per-file limit and the archive's remaining budget
+ */
+function readArchiveFile(file: JSZip.JSZipObject, budget: { remaining: number }): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = file.nodeStream("nodebuffer") as NodeJS.ReadableStream & { destroy?: () => void };
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_ARCHIVE_FILE_BYTES || size > budget.remaining) {
+        stream.removeAllListeners("data");
+        stream.destroy?.();
+        reject(new ArchiveTooLargeError(file.name));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("error", reject);
+    stream.on("end", () => {
+      budget.remaining -= size;
+      resolve(Buffer.concat(chunks).toString("utf8"));
+    });
+  });
+}
+
+const ARCHIVE_TOO_LARGE = `Archives are limited to ${MAX_ARCHIVE_FILE_BYTES / 1024 / 1024} MB per file and ${MAX_ARCHIVE_TOTAL_BYTES / 1024 / 1024} MB in total once unzipped`;
+
+/**
+ * Import a zip produced by exportUserRecipesArchive into a user's account.
+ * The user's own recipes are copied with them as author. Rated recipes that
+ * still exist here (e.g. moving between accounts) only get the rating
+ * restored; others are copied first. Archives without a manifest (e.g.
+ * hand-made zips of JSON-LD files) import every .json/.jsonld file as own.
+ */
+export async function importRecipeArchive(data: Buffer, userId: string, familyId?: string | null): Promise<ArchiveImportSummary | { error: string }> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    return { error: "File is not a valid zip archive" };
+  }
+
+  // Reject archives whose declared sizes are over the limits before inflating anything
+  const files = Object.values(zip.files).filter(file => !file.dir);
+  const declaredTotal = files.reduce((total, file) => total + declaredSize(file), 0);
+  if (declaredTotal > MAX_ARCHIVE_TOTAL_BYTES || files.some(file => declaredSize(file) > MAX_ARCHIVE_FILE_BYTES)) {
+    return { error: ARCHIVE_TOO_LARGE };
+  }
+  const budget = { remaining: MAX_ARCHIVE_TOTAL_BYTES };
+
+  try {
+    return await importArchiveEntries(zip, budget, userId, familyId);
+  } catch (error) {
+    if (error instanceof ArchiveTooLargeError) return { error: ARCHIVE_TOO_LARGE };
+    throw error;
+  }
+}
+
+async function importArchiveEntries(
+  zip: JSZip,
+  budget: { remaining: number },
+  userId: string,
+  familyId?: string | null
+): Promise<ArchiveImportSummary | { error: string }> {
+  let manifest: ArchiveManifest["recipes"];
+  const manifestFile = zip.file("manifest.json");
+  if (manifestFile) {
+    try {
+      const parsed = JSON.parse(await readArchiveFile(manifestFile, budget));
+      if (parsed?.format !== ARCHIVE_FORMAT || !Array.isArray(parsed.recipes)) {
+        return { error: "manifest.json is not a recipe export manifest" };
+      }
+      if (parsed.version > ARCHIVE_VERSION) {
+        return { error: `Unsupported export version ${parsed.version}` };
+      }
+      manifest = parsed.recipes;
+    } catch (error) {
+      if (error instanceof ArchiveTooLargeError) throw error;
+      return { error: "manifest.json is not valid JSON" };
+    }
+  } else {
+    manifest = zip.file(/\.(jsonld|json)$/i).map(entry => ({
+      id: "", name: entry.name, file: entry.name, own: true, rating: null, comment: null,
+    }));
+  }
+
+  if (manifest.length > MAX_ARCHIVE_RECIPES) {
+    return { error: `Archives are limited to ${MAX_ARCHIVE_RECIPES} recipes` };
+  }
+
+  const summary: ArchiveImportSummary = { imported: 0, rated: 0, skipped: [] };
+  for (const entry of manifest) {
+    const rating = typeof entry.rating === "number" && entry.rating >= 1 && entry.rating <= 5 ? Math.round(entry.rating) : null;
+
+    if (!entry.own && rating !== null && entry.id && await storage.canViewRecipe(entry.id, userId)) {
+      await storage.rateRecipe({ recipeId: entry.id, userId, rating, comment: entry.comment ?? null });
+      summary.rated++;
+      continue;
+    }
+
+    const file = typeof entry.file === "string" ? zip.file(entry.file) : null;
+    if (!file) {
+      summary.skipped.push({ file: String(entry.file), reason: "File missing from archive" });
+      continue;
+    }
+
+    let node: any;
+    try {
+      node = findRecipeNode(JSON.parse(await readArchiveFile(file, budget)));
+    } catch (error) {
+      if (error instanceof ArchiveTooLargeError) throw error;
+      summary.skipped.push({ file: entry.file, reason: "Not valid JSON" });
+      continue;
+    }
+    if (!node) {
+      summary.skipped.push({ file: entry.file, reason: "No schema.org Recipe found" });
+      continue;
+    }
+
+    const { recipe, ingredients } = recipeNodeToDraft(node, null, familyId);
+    if (ingredients.length === 0) {
+      summary.skipped.push({ file: entry.file, reason: "Recipe has no ingredients" });
+      continue;
+    }
+
+    // Own recipes keep their visibility; family sharing needs a family here
+    const visibility = entry.own && isRecipeVisibility(entry.visibility) ? entry.visibility : undefined;
+    const saved = await storage.addRecipe(
+      { ...recipe, visibility: visibility === "family" && !familyId ? "private" : visibility },
+      userId,
+    );
+    summary.imported++;
+    if (rating !== null) {
+      await storage.rateRecipe({ recipeId: saved.id, userId, rating, comment: entry.comment ?? null });
+      summary.rated++;
+    }
+  }
+  return summary;
+}
@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { importRecipeFromJsonLd, isPrivateAddress, checkPublicUrl } from "./recipeImport";
+
+function importDraft(node: Record<string, unknown>) {
+  const result = importRecipeFromJsonLd({
+    "@type": "Recipe",
+    name: "Test recipe",
+    recipeIngredient: ["1 cup flour"],
+    recipeInstructions: "Mix.",
+    ...node,
+  });
+  assert.ok("draft" in result);
+  return result.draft;
+}
+
+test("nutrition keeps thousands separators and decimal commas apart", () => {
+  const { recipe } = importDraft({
+    nutrition: { calories: "1,200 kcal", sodiumContent: "1,250 mg", proteinContent: "12,75 g" },
+  });
+  assert.equal(recipe.calories, 1200);
+  assert.equal(recipe.sodium, 1250);
+  assert.equal(recipe.protein, 13);
+});
+
+test("out-of-range character references are left as written", () => {
+  const { recipe } = importDraft({ name: "Soup &#99999999; &#x1F600; &amp; bread" });
+  assert.equal(recipe.name, "Soup &#99999999; 😀 & bread");
+});
+
+test("addresses that aren't globally routable are private", () => {
+  for (const address of [
+    "127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0",
+    "192.0.0.8", "198.18.0.1", "198.19.255.255", "224.0.0.1", "239.255.255.250", "240.0.0.1", "255.255.255.255",
+    "::1", "::", "fe80::1", "fd00::1", "ff02::1", "64:ff9b::a00:1", "2001:db8::1", "2002:7f00:1::1",
+    "::ffff:127.0.0.1", "::ffff:7f00:1", "::ffff:a9fe:a9fe", "::7f00:1",
+  ]) {
+    assert.equal(isPrivateAddress(address), true, address);
+  }
+});
+
+test("public addresses are allowed", () => {
+  for (const address of ["8.8.8.8", "1.1.1.1", "151.101.1.69", "2606:4700:4700::1111", "2a00:1450:4001:80b::200e"]) {
+    assert.equal(isPrivateAddress(address), false, address);
+  }
+});
+
+test("IP literal URLs are checked in every spelling", () => {
+  for (const url of [
+    "http://[::ffff:127.0.0.1]/", "http://[::ffff:a9fe:a9fe]/latest/meta-data", "http://[::ffff:10.0.0.1]/",
+    "http://[64:ff9b::7f00:1]/", "http://2130706433/", "http://0x7f.1/", "http://127.1/", "http://[::1]:8080/",
+  ]) {
+    assert.equal(checkPublicUrl(new URL(url)), "URL must point to a public website", url);
+  }
+  assert.equal(checkPublicUrl(new URL("https://93.184.215.14/recipe")), null);
+  assert.equal(checkPublicUrl(new URL("https://example.com/recipe")), null);
+  assert.equal(checkPublicUrl(new URL("file:///etc/passwd")), "Only http and https URLs can be imported");
+});
@@ -0,0 +1,520 @@
+/**
+ * Recipe Import
+ *
+ * Turns a recipe page (URL or raw HTML) or a schema.org JSON-LD document into
+ * a draft recipe for the user to review before saving with POST /api/recipes.
+ * Most recipe blogs embed a JSON-LD `Recipe` (often inside an `@graph`),
+ * which is where name, image, times, yield, ingredients, instructions and
+ * nutrition are read from. Ingredient lines go through the shared parser and
+ * the ingredient name normalizer.
+ */
+
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import type { InsertRecipe, RecipeIngredient } from "@shared/schema";
+import { parseIngredientLine, toRecipeIngredient } from "./ingredientParser";
+import { normalizeIngredientName } from "./normalizationService";
+
+export interface ImportedIngredient {
+  original: string;
+  ingredient: RecipeIngredient;
+  normalizedName: string;
+}
+
+export interface RecipeImportDraft {
+  recipe: InsertRecipe; // ready to submit to POST /api/recipes once reviewed
+  sourceUrl: string | null;
+  ingredients: ImportedIngredient[];
+  warnings: string[];
+}
+
+export type RecipeImportResult = { draft: RecipeImportDraft } | { error: string; status: number };
+
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_PAGE_BYTES = 5_000_000;
+const MAX_REDIRECTS = 5;
+
+const MEAL_TYPES: Record<string, string> = {
+  breakfast: "breakfast",
+  brunch: "breakfast",
+  lunch: "lunch",
+  dinner: "dinner",
+  supper: "dinner",
+  "main course": "dinner",
+  "main dish": "dinner",
+  main: "dinner",
+  entree: "dinner",
+  snack: "snack",
+  appetizer: "snack",
+  dessert: "snack",
+};
+
+// schema.org RestrictedDiet values we have a diet type / tag for
+const DIETS: Record<string, string> = {
+  VeganDiet: "vegan",
+  VegetarianDiet: "vegetarian",
+  GlutenFreeDiet: "gluten-free",
+  LowCalorieDiet: "low-calorie",
+  LowFatDiet: "low-fat",
+  LowSaltDiet: "low-sodium",
+  LowLactoseDiet: "dairy-free",
+  DiabeticDiet: "diabetic",
+  HalalDiet: "halal",
+  KosherDiet: "kosher",
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  frac12: "½",
+  frac14: "¼",
+  frac34: "¾",
+  deg: "°",
+  ndash: "–",
+  mdash: "—",
+  rsquo: "'",
+  lsquo: "'",
+  rdquo: '"',
+  ldquo: '"',
+  hellip: "…",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z0-9]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return isFinite(code) && code >= 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Text fields in JSON-LD frequently contain markup and entities
+function cleanText(value: unknown): string {
+  if (typeof value !== "string") return "";
+  return decodeEntities(value.replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]+>/g, ""))
+    .replace(/[ \t]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .trim();
+}
+
+function toArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function hasType(node: any, type: string): boolean {
+  return toArray(node?.["@type"]).some(t => typeof t === "string" && t.replace(/^.*[/#]/, "") === type);
+}
+
+/**
+ * Find the first Recipe node in a JSON-LD document, looking through arrays,
+ * @graph and mainEntity
+ */
+export function findRecipeNode(data: unknown): any | null {
+  const queue: unknown[] = [data];
+  while (queue.length > 0) {
+    const node: any = queue.shift();
+    if (!node || typeof node !== "object") continue;
+    if (Array.isArray(node)) {
+      queue.push(...node);
+      continue;
+    }
+    if (hasType(node, "Recipe")) return node;
+    if (node["@graph"]) queue.push(node["@graph"]);
+    if (node.mainEntity) queue.push(node.mainEntity);
+  }
+  return null;
+}
+
+/**
+ * Parse the contents of every <script type="application/ld+json"> block,
+ * skipping blocks that aren't valid JSON
+ */
+export function extractJsonLdDocuments(html: string): unknown[] {
+  const documents: unknown[] = [];
+  const pattern = /<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html)) !== null) {
+    const content = match[1].trim().replace(/^<!\[CDATA\[|\]\]>$/g, "");
+    try {
+      documents.push(JSON.parse(content));
+    } catch {
+      // Some sites emit invalid JSON-LD (e.g. raw newlines in strings); try once more without them
+      try {
+        documents.push(JSON.parse(content.replace(/[\r\n\t]+/g, " ")));
+      } catch {
+        continue;
+      }
+    }
+  }
+  return documents;
+}
+
+/**
+ * ISO 8601 durations ("PT1H30M", "P0DT45M") to minutes
+ */
+export function parseDuration(value: unknown): number | null {
+  if (typeof value !== "string") return null;
+  const match = value.trim().match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+  if (!match) return null;
+  const [, days, hours, minutes, seconds] = match.map(part => (part ? parseFloat(part) : 0));
+  const total = Math.round(days * 1440 + hours * 60 + minutes + seconds / 60);
+  return total > 0 ? total : null;
+}
+
+function parseYield(value: unknown): number | null {
+  for (const entry of toArray(value as any)) {
+    const match = String(entry).match(/\d+/);
+    if (match) {
+      const servings = parseInt(match[0], 10);
+      if (servings > 0) return servings;
+    }
+  }
+  return null;
+}
+
+function parseImage(value: unknown, baseUrl: string | null): string | null {
+  for (const entry of toArray(value as any)) {
+    const url = typeof entry === "string" ? entry : entry?.url || entry?.contentUrl;
+    if (typeof url !== "string" || !url) continue;
+    try {
+      return baseUrl ? new URL(url, baseUrl).toString() : new URL(url).toString();
+    } catch {
+      continue;
+    }
+  }
+  return null;
+}
+
+/**
+ * Instructions may be a single string, a list of strings, HowToStep objects,
+ * or HowToSection objects grouping steps
+ */
+function parseInstructions(value: unknown): string[] {
+  const steps: string[] = [];
+  const visit = (node: any) => {
+    if (!node) return;
+    if (typeof node === "string") {
+      steps.push(...cleanText(node).split(/\n+/));
+      return;
+    }
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (hasType(node, "HowToSection") || node.itemListElement) {
+      visit(node.itemListElement);
+      return;
+    }
+    visit(node.text || node.name);
+  };
+  visit(value);
+  return steps.map(step => step.trim()).filter(Boolean);
+}
+
+// "320 kcal", "38 g", "0.5 g" sodium (converted to mg). A comma followed by
+// three digits groups thousands ("1,200 kcal"); by one or two it's a decimal
+// point ("0,5 g").
+function parseNutrient(value: unknown, unit: "g" | "mg" | "kcal"): number | null {
+  if (value === undefined || value === null) return null;
+  const text = String(value)
+    .replace(/(\d),(?=\d{3}(?!\d))/g, "$1")
+    .replace(/(\d),(?=\d{1,2}(?!\d))/, "$1.");
+  const match = text.match(/(\d+(?:\.\d+)?)\s*(mg|g|kcal|cal|kj)?/i);
+  if (!match) return null;
+  let amount = parseFloat(match[1]);
+  const given = match[2]?.toLowerCase();
+  if (unit === "mg" && given === "g") amount *= 1000;
+  if (unit === "g" && given === "mg") amount /= 1000;
+  if (unit === "kcal" && given === "kj") amount /= 4.184;
+  return Math.round(amount);
+}
+
+function parseKeywords(value: unknown): string[] {
+  return toArray(value as any)
+    .flatMap(entry => String(entry).split(","))
+    .map(keyword => cleanText(keyword).toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Build a draft from a schema.org Recipe node
+ */
+export function recipeNodeToDraft(node: any, sourceUrl: string | null, familyId?: string | null): RecipeImportDraft {
+  const warnings: string[] = [];
+
+  const name = cleanText(node.name || node.headline);
+  if (!name) warnings.push("Recipe has no name");
+
+  const ingredients: ImportedIngredient[] = toArray(node.recipeIngredient || node.ingredients)
+    .map(line => cleanText(line))
+    .filter(Boolean)
+    .map(original => {
+      const ingredient = toRecipeIngredient(parseIngredientLine(original));
+      return { original, ingredient, normalizedName: normalizeIngredientName(ingredient.name, familyId) };
+    });
+  if (ingredients.length === 0) warnings.push("No ingredients found");
+
+  const instructions = parseInstructions(node.recipeInstructions);
+  if (instructions.length === 0) warnings.push("No instructions found");
+
+  let prepTime = parseDuration(node.prepTime);
+  let cookTime = parseDuration(node.cookTime);
+  const totalTime = parseDuration(node.totalTime);
+  if (cookTime === null && totalTime !== null) {
+    cookTime = prepTime !== null ? Math.max(totalTime - prepTime, 0) : totalTime;
+  }
+  if (prepTime === null && cookTime === null) warnings.push("No prep or cook time found");
+
+  const servings = parseYield(node.recipeYield);
+  if (servings === null) warnings.push("No yield found, assuming 4 servings");
+
+  const nutrition = node.nutrition || {};
+  const calories = parseNutrient(nutrition.calories, "kcal");
+  if (calories === null) warnings.push("No nutrition information found");
+
+  const imageUrl = parseImage(node.image || node.thumbnailUrl, sourceUrl);
+  if (!imageUrl) warnings.push("No image found");
+
+  const diets = toArray(node.suitableForDiet)
+    .map(diet => DIETS[String(diet).replace(/^.*[/#]/, "")])
+    .filter(Boolean);
+  const keywords = parseKeywords(node.keywords);
+  const categories = toArray(node.recipeCategory).flatMap(category => String(category).split(",")).map(category => category.trim().toLowerCase());
+  const mealType = categories.map(category => MEAL_TYPES[category]).find(Boolean) || null;
+  const cuisine = toArray(node.recipeCuisine).map(value => cleanText(value).toLowerCase()).find(Boolean) || null;
+  const dietType = (["vegan", "vegetarian"].find(diet => diets.includes(diet) || keywords.includes(diet))) || null;
+
+  const recipe: InsertRecipe = {
+    name: name || "Imported recipe",
+    description: cleanText(node.description) || null,
+    imageUrl,
+    prepTime,
+    cookTime,
+    servings: servings ?? 4,
+    calories,
+    protein: parseNutrient(nutrition.proteinContent, "g"),
+    carbs: parseNutrient(nutrition.carbohydrateContent, "g"),
+    fat: parseNutrient(nutrition.fatContent, "g"),
+    sodium: parseNutrient(nutrition.sodiumContent, "mg"),
+    dietType,
+    cuisine,
+    mealType,
+    ingredients: ingredients.map(({ ingredient }) => ingredient),
+    instructions,
+    tags: Array.from(new Set([...diets, ...keywords])).slice(0, 20),
+  };
+
+  return { recipe, sourceUrl, ingredients, warnings };
+}
+
+// IPv4 ranges that aren't globally reachable (IANA special-purpose registry)
+const NON_PUBLIC_IPV4: Array<[string, number]> = [
+  ["0.0.0.0", 8], // "this network"
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // link-local, including cloud metadata services
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.0.2.0", 24], // documentation
+  ["192.88.99.0", 24], // 6to4 relay anycast
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15], // benchmarking
+  ["198.51.100.0", 24], // documentation
+  ["203.0.113.0", 24], // documentation
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved, including broadcast
+];
+
+// Public IPv6 unicast is 2000::/3. Everything outside it is refused, which
+// covers loopback, link-local, unique-local and multicast as well as forms
+// that embed an IPv4 address (IPv4-mapped ::ffff:0:0/96, NAT64 64:ff9b::/96)
+// and could otherwise reach a private IPv4 host.
+const NON_PUBLIC_IPV6_UNICAST: Array<[string, number]> = [
+  ["2001::", 23], // IETF protocol assignments, including Teredo
+  ["2001:db8::", 32], // documentation
+  ["2002::", 16], // 6to4, which embeds an IPv4 address
+  ["3fff::", 20], // documentation
+];
+
+const nonPublicAddresses = new net.BlockList();
+for (const [network, prefix] of NON_PUBLIC_IPV4) nonPublicAddresses.addSubnet(network, prefix, "ipv4");
+for (const [network, prefix] of NON_PUBLIC_IPV6_UNICAST) nonPublicAddresses.addSubnet(network, prefix, "ipv6");
+
+const globalUnicastIpv6 = new net.BlockList();
+globalUnicastIpv6.addSubnet("2000::", 3, "ipv6");
+
+/**
+ * Whether an IP address is anything other than a globally routable one.
+ * Anything that doesn't parse as an address counts as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) return nonPublicAddresses.check(address, "ipv4");
+  if (net.isIPv6(address)) {
+    return !globalUnicastIpv6.check(address, "ipv6") || nonPublicAddresses.check(address, "ipv6");
+  }
+  return true;
+}
+
+class PrivateAddressError extends Error {}
+
+// Only fetch public http(s) pages, so the import can't be used to probe internal services
+export function checkPublicUrl(url: URL): string | null {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return "Only http and https URLs can be imported";
+  }
+  // IP literals never go through the lookup below
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (net.isIP(host) && isPrivateAddress(host)) {
+    return "URL must point to a public website";
+  }
+  return null;
+}
+
+// Resolve hostnames for the page request and refuse private addresses. The
+// connection is made to the address checked here, so a second DNS answer
+// can't send it somewhere else (DNS rebinding).
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "", 0);
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(new PrivateAddressError(hostname), "", 0);
+    }
+    if (options.all) {
+      (callback as (error: NodeJS.ErrnoException | null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+type PageResponse =
+  | { status: number; statusText: string; location: string | null; html: string | null }
+  | { tooLarge: true };
+
+// GET a page, reading at most MAX_PAGE_BYTES of it
+function requestPage(url: URL): Promise<PageResponse> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+    const request = client.get(url, {
+      lookup: publicLookup,
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      headers: { Accept: "text/html,application/xhtml+xml,application/ld+json" },
+    }, (response) => {
+      const status = response.statusCode ?? 0;
+      const result = {
+        status,
+        statusText: response.statusMessage ?? "",
+        location: response.headers.location ?? null,
+      };
+      if (status < 200 || status >= 300) {
+        response.resume();
+        return resolve({ ...result, html: null });
+      }
+      if (Number(response.headers["content-length"] || 0) > MAX_PAGE_BYTES) {
+        request.destroy();
+        return resolve({ tooLarge: true });
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      response.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_PAGE_BYTES) {
+          request.destroy();
+          resolve({ tooLarge: true });
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on("end", () => resolve({ ...result, html: Buffer.concat(chunks).toString("utf8") }));
+      response.on("error", reject);
+    });
+    request.on("error", reject);
+  });
+}
+
+async function fetchRecipePage(pageUrl: string): Promise<{ html: string; url: string } | { error: string; status: number }> {
+  let url = new URL(pageUrl);
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    const problem = checkPublicUrl(url);
+    if (problem) return { error: problem, status: 400 };
+
+    let response: PageResponse;
+    try {
+      response = await requestPage(url);
+    } catch (error: any) {
+      if (error instanceof PrivateAddressError) {
+        return { error: "URL must point to a public website", status: 400 };
+      }
+      if (error?.code === "ENOTFOUND") {
+        return { error: `Could not resolve ${url.hostname}`, status: 400 };
+      }
+      return { error: `Could not fetch the page: ${error?.message || error}`, status: 502 };
+    }
+
+    if ("tooLarge" in response) {
+      return { error: "The page is too large to import", status: 413 };
+    }
+    if (response.status >= 300 && response.status < 400 && response.location) {
+      url = new URL(response.location, url);
+      continue;
+    }
+    if (response.html === null) {
+      return { error: `The page returned ${response.status} ${response.statusText}`, status: 502 };
+    }
+    return { html: response.html, url: url.toString() };
+  }
+
+  return { error: "Too many redirects", status: 502 };
+}
+
+/**
+ * Build a draft from raw HTML, using the page's JSON-LD
+ */
+export function importRecipeFromHtml(html: string, sourceUrl: string | null, familyId?: string | null): RecipeImportResult {
+  const node = findRecipeNode(extractJsonLdDocuments(html));
+  if (!node) {
+    return { error: "No schema.org Recipe found in the page", status: 422 };
+  }
+
+  // Pasted HTML has no URL; fall back to the recipe's or the page's canonical URL
+  if (!sourceUrl) {
+    const canonical = html.match(/<link\b[^>]*rel=["']canonical["'][^>]*href=["']([^"']+)["']/i);
+    sourceUrl = (node.url && String(node.url)) || (canonical ? decodeEntities(canonical[1]) : null);
+  }
+  const draft = recipeNodeToDraft(node, sourceUrl, familyId);
+  return { draft };
+}
+
+export function importRecipeFromJsonLd(jsonLd: unknown, familyId?: string | null): RecipeImportResult {
+  let data = jsonLd;
+  if (typeof jsonLd === "string") {
+    try {
+      data = JSON.parse(jsonLd);
+    } catch {
+      return { error: "jsonLd is not valid JSON", status: 400 };
+    }
+  }
+
+  const node = findRecipeNode(data);
+  if (!node) {
+    return { error: "No schema.org Recipe found in the document", status: 422 };
+  }
+  return { draft: recipeNodeToDraft(node, node.url ? String(node.url) : null, familyId) };
+}
+
+export async function importRecipeFromUrl(url: string, familyId?: string | null): Promise<RecipeImportResult> {
+  const page = await fetchRecipePage(url);
+  if ("error" in page) return page;
+  return importRecipeFromHtml(page.html, page.url, familyId);
+}
@@ -0,0 +1,248 @@
+/**
+ * Recipe Providers
+ *
+ * Registry of external recipe sources with:
+ * - A single normalized recipe shape shared by every provider
+ * - Configurable priority (RECIPE_PROVIDER_PRIORITY, comma-separated names)
+ * - Health tracking: providers that keep failing are skipped for a while
+ * - Daily quota tracking, from configured limits or 402/429 responses
+ */
+
+import type { RecipeIngredient, recipeSourceEnum } from "@shared/schema";
+import type { NutritionFilters } from "./nutritionFilter";
+import { spoonacularProvider } from "./spoonacularApi";
+import { apiNinjasProvider } from "./recipeApi";
+import { fixtureRecipeProvider } from "./fixtureRecipeProvider";
+
+export interface NormalizedRecipe {
+  id: string;
+  name: string;
+  description: string;
+  imageUrl: string | null;
+  prepTime: number | null;
+  cookTime: number | null;
+  servings: number;
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  sodium: number | null;
+  dietType: string | null;
+  cuisine: string | null;
+  mealType: string | null;
+  ingredients: RecipeIngredient[];
+  instructions: string[];
+  tags: string[];
+  averageRating: number | null;
+  totalRatings: number;
+  ratings: any[];
+}
+
+export interface RecipeSearchParams {
+  searchQuery?: string;
+  dietType?: string;
+  cuisine?: string;
+  mealType?: string;
+  nutrition?: NutritionFilters;
+  limit?: number;
+  offset?: number;
+}
+
+export type RecipeProviderSource = Exclude<typeof recipeSourceEnum.enumValues[number], "local">;
+
+export interface RecipeProvider {
+  name: string;
+  source: RecipeProviderSource; // stored as recipes.source when imported
+  idPrefix: string; // recipe IDs from this provider start with it, e.g. "spoon-"
+  dailyQuota?: number | null; // requests per day, if the provider is metered
+  onRequest?: () => void; // set on registration; adapters call it for each real HTTP request (not cache hits)
+  isConfigured(): boolean; // e.g. API key present
+  search(params: RecipeSearchParams): Promise<NormalizedRecipe[]>;
+  getById(id: string): Promise<NormalizedRecipe | null>;
+}
+
+export interface RecipeProviderHealth {
+  name: string;
+  priority: number;
+  configured: boolean;
+  available: boolean;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastSuccessAt: Date | null;
+  lastFailureAt: Date | null;
+  cooldownUntil: Date | null;
+  requestsToday: number;
+  dailyQuota: number | null;
+  quotaExhausted: boolean;
+}
+
+// After this many failures in a row a provider is skipped for the cooldown period
+const FAILURE_THRESHOLD = 3;
+const FAILURE_COOLDOWN_MS = 5 * 60 * 1000;
+
+interface ProviderState {
+  provider: RecipeProvider;
+  priority: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastSuccessAt: Date | null;
+  lastFailureAt: Date | null;
+  cooldownUntil: Date | null;
+  quotaDay: string;
+  requestsToday: number;
+  quotaExhausted: boolean;
+}
+
+const registry = new Map<string, ProviderState>();
+
+function today(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function configuredPriority(name: string): number | undefined {
+  const order = (process.env.RECIPE_PROVIDER_PRIORITY || "")
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  const index = order.indexOf(name);
+  return index >= 0 ? index : undefined;
+}
+
+/**
+ * Register a provider. Lower priority numbers are tried first; the
+ * RECIPE_PROVIDER_PRIORITY env var takes precedence over the default.
+ */
+export function registerRecipeProvider(provider: RecipeProvider, options: { priority: number }) {
+  const state: ProviderState = {
+    provider,
+    priority: options.priority,
+    consecutiveFailures: 0,
+    lastError: null,
+    lastSuccessAt: null,
+    lastFailureAt: null,
+    cooldownUntil: null,
+    quotaDay: today(),
+    requestsToday: 0,
+    quotaExhausted: false,
+  };
+  registry.set(provider.name, state);
+
+  provider.onRequest = () => {
+    rollQuotaDay(state, new Date());
+    state.requestsToday++;
+  };
+}
+
+function effectivePriority(state: ProviderState): number {
+  // Explicitly ordered providers come before the rest
+  const configured = configuredPriority(state.provider.name);
+  return configured !== undefined ? configured - 1000 : state.priority;
+}
+
+function rollQuotaDay(state: ProviderState, now: Date) {
+  const day = today(now);
+  if (state.quotaDay !== day) {
+    state.quotaDay = day;
+    state.requestsToday = 0;
+    state.quotaExhausted = false;
+  }
+}
+
+function isAvailable(state: ProviderState, now: Date = new Date()): boolean {
+  rollQuotaDay(state, now);
+  if (!state.provider.isConfigured()) return false;
+  if (state.quotaExhausted) return false;
+  const quota = state.provider.dailyQuota;
+  if (quota && state.requestsToday >= quota) return false;
+  if (state.cooldownUntil && state.cooldownUntil > now) return false;
+  return true;
+}
+
+async function callProvider<T>(state: ProviderState, call: (provider: RecipeProvider) => Promise<T>): Promise<T> {
+  try {
+    const result = await call(state.provider);
+    state.consecutiveFailures = 0;
+    state.cooldownUntil = null;
+    state.lastSuccessAt = new Date();
+    return result;
+  } catch (error: any) {
+    state.consecutiveFailures++;
+    state.lastError = error?.message || String(error);
+    state.lastFailureAt = new Date();
+    // Payment required / too many requests: out of quota until tomorrow
+    if (error?.status === 402 || error?.status === 429) {
+      state.quotaExhausted = true;
+    }
+    if (state.consecutiveFailures >= FAILURE_THRESHOLD) {
+      state.cooldownUntil = new Date(Date.now() + FAILURE_COOLDOWN_MS);
+    }
+    throw error;
+  }
+}
+
+function orderedStates(): ProviderState[] {
+  return Array.from(registry.values()).sort((a, b) => effectivePriority(a) - effectivePriority(b));
+}
+
+/**
+ * Search the highest-priority available provider, falling back to the next
+ * one on failure. Returns the name of the provider that answered.
+ */
+export async function searchRecipeProviders(params: RecipeSearchParams): Promise<{ recipes: NormalizedRecipe[]; provider: string | null }> {
+  for (const state of orderedStates()) {
+    if (!isAvailable(state)) continue;
+    try {
+      const recipes = await callProvider(state, provider => provider.search(params));
+      return { recipes, provider: state.provider.name };
+    } catch (error) {
+      console.log(`Recipe provider ${state.provider.name} failed, trying the next one...`, error);
+    }
+  }
+  return { recipes: [], provider: null };
+}
+
+export function getRecipeProviderForId(id: string): RecipeProvider | null {
+  for (const state of Array.from(registry.values())) {
+    if (id.startsWith(state.provider.idPrefix)) return state.provider;
+  }
+  return null;
+}
+
+/**
+ * Fetch a single recipe from the provider that owns its ID
+ */
+export async function getProviderRecipeById(id: string): Promise<NormalizedRecipe | null> {
+  const provider = getRecipeProviderForId(id);
+  const state = provider ? registry.get(provider.name) : undefined;
+  if (!state || !isAvailable(state)) return null;
+
+  try {
+    return await callProvider(state, provider => provider.getById(id));
+  } catch (error) {
+    console.error(`Error fetching recipe ${id} from ${state.provider.name}:`, error);
+    return null;
+  }
+}
+
+export function getRecipeProviderHealth(): RecipeProviderHealth[] {
+  return orderedStates().map(state => ({
+    name: state.provider.name,
+    priority: effectivePriority(state),
+    configured: state.provider.isConfigured(),
+    available: isAvailable(state),
+    consecutiveFailures: state.consecutiveFailures,
+    lastError: state.lastError,
+    lastSuccessAt: state.lastSuccessAt,
+    lastFailureAt: state.lastFailureAt,
+    cooldownUntil: state.cooldownUntil,
+    requestsToday: state.requestsToday,
+    dailyQuota: state.provider.dailyQuota ?? null,
+    quotaExhausted: state.quotaExhausted,
+  }));
+}
+
+// Default order: Spoonacular has images, api-ninjas doesn't, and local
+// fixtures are the last resort (or the only source without API keys)
+registerRecipeProvider(spoonacularProvider, { priority: 10 });
+registerRecipeProvider(apiNinjasProvider, { priority: 20 });
+registerRecipeProvider(fixtureRecipeProvider, { priority: 100 });
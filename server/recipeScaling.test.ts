@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { promoteUnit, scaleIngredient, scaleRecipe } from "./recipeScaling";
+
+test("exact multiples of a larger spoon unit move up to it", () => {
+  assert.equal(promoteUnit(3, "tsp").unit, "tbsp");
+  assert.equal(promoteUnit(4, "tbsp").unit, "cup");
+  assert.equal(promoteUnit(2.9, "tsp").unit, "tsp");
+  assert.deepEqual(scaleIngredient({ name: "salt", amount: "1", unit: "tsp" }, 3), { name: "salt", amount: "1", unit: "tbsp" });
+});
+
+test("scaling up multiplies and moves to a larger unit", () => {
+  const scaled = scaleRecipe({
+    servings: 4,
+    ingredients: [
+      { name: "flour", amount: "1 1/2", unit: "cups" },
+      { name: "butter", amount: "600", unit: "g" },
+      { name: "salt", amount: "2-3", unit: "tsp" },
+    ],
+  }, 8);
+  assert.equal(scaled.scale, 2);
+  assert.deepEqual(scaled.ingredients.map(i => `${i.amount} ${i.unit}`), ["3 cups", "1.2 kg", "1 1/3-2 tbsp"]);
+});
+
+test("scaling down keeps measurable fractions", () => {
+  assert.deepEqual(scaleIngredient({ name: "milk", amount: "1", unit: "cup" }, 0.5), { name: "milk", amount: "1/2", unit: "cup" });
+  assert.deepEqual(scaleIngredient({ name: "sugar", amount: "1/4", unit: "cup" }, 0.5), { name: "sugar", amount: "2", unit: "tbsp" });
+  assert.deepEqual(scaleIngredient({ name: "flour", amount: "250", unit: "g" }, 0.25), { name: "flour", amount: "63", unit: "g" });
+});
+
+test("counted items round to whole items, never to none", () => {
+  const eggs = { name: "eggs", amount: "3", unit: "" };
+  assert.equal(scaleIngredient(eggs, 6 / 4).amount, "5");
+  assert.equal(scaleIngredient(eggs, 1 / 4).amount, "1");
+  assert.equal(scaleIngredient({ name: "eggs", amount: "1", unit: "dozen" }, 1.5).amount, "1 1/2");
+  // Containers and portions can still be halved
+  assert.equal(scaleIngredient({ name: "butter", amount: "1", unit: "stick" }, 0.5).amount, "1/2");
+  assert.equal(scaleIngredient({ name: "garlic", amount: "1", unit: "clove" }, 0.25).amount, "1/2");
+});
@@ -0,0 +1,229 @@
+/**
+ * Recipe Scaling
+ *
+ * Rescales recipe ingredient amounts to a target serving count for:
+ * - Recipe detail and cooking mode (GET /api/recipes/:id?servings=N)
+ * - Shopping suggestions for meal plans
+ * - Inventory deduction when a cooking session completes
+ *
+ * Display amounts are rounded to what a cook can measure (kitchen fractions
+ * for spoons and cups, whole grams above 10 g, whole eggs) and moved to a
+ * more natural unit when they grow or shrink past it, e.g. 12 tsp -> 1/4 cup
+ * or 1500 g -> 1.5 kg. Amounts without a number ("to taste") are left alone.
+ */
+
+import { MAX_SERVINGS, type RecipeIngredient } from "@shared/schema";
+import { parseQuantity, normalizeUnit } from "./quantityService";
+import { DEFAULT_SERVINGS } from "./nutritionFilter";
+
+export type ScaledRecipe<T> = T & {
+  ingredients: RecipeIngredient[];
+  servings: number;
+  originalServings: number;
+  scale: number;
+};
+
+// Kitchen fractions cooks can measure, per kind of unit
+const SPOON_FRACTIONS = [0, 1 / 8, 1 / 4, 1 / 3, 1 / 2, 2 / 3, 3 / 4, 1];
+// Containers and portions ("1/2 stick", "1/2 can") still halve
+const PORTION_FRACTIONS = [0, 1 / 2, 1];
+const FRACTION_TEXT: Array<[number, string]> = [
+  [1 / 8, "1/8"], [1 / 4, "1/4"], [1 / 3, "1/3"], [3 / 8, "3/8"], [1 / 2, "1/2"],
+  [5 / 8, "5/8"], [2 / 3, "2/3"], [3 / 4, "3/4"], [7 / 8, "7/8"],
+];
+
+// US volume units from small to large, with the amount (in ml) at which the
+// larger unit takes over: 1 tbsp and 1/4 cup
+const SPOON_CHAIN: Array<{ unit: string; from: number }> = [
+  { unit: "tsp", from: 0 },
+  { unit: "tbsp", from: 14.7868 },
+  { unit: "cup", from: 236.588 / 4 },
+];
+
+// Relative slack when comparing an amount with the size of a larger unit
+const PROMOTION_TOLERANCE = 1e-3;
+
+const METRIC_UNITS = new Set(["mg", "g", "kg", "ml", "cl", "dl", "l"]);
+
+// Metric and imperial pairs: [small, large, amount of small at which to switch up]
+const UNIT_PAIRS: Array<[string, string, number]> = [
+  ["g", "kg", 1000],
+  ["ml", "l", 1000],
+  ["oz", "lb", 16],
+];
+
+/**
+ * Multiplier from a recipe's servings to a target serving count
+ */
+export function getServingsScale(recipeServings: number | null | undefined, targetServings: number): number {
+  return targetServings / (recipeServings || DEFAULT_SERVINGS);
+}
+
+function nearestFraction(value: number, fractions: number[]): number {
+  const whole = Math.floor(value);
+  const rest = value - whole;
+  let best = fractions[0];
+  for (const fraction of fractions) {
+    if (Math.abs(rest - fraction) < Math.abs(rest - best)) best = fraction;
+  }
+  return whole + best;
+}
+
+/**
+ * Format a number as a whole number plus kitchen fraction ("1 1/2"), or a
+ * trimmed decimal for metric units and values that aren't close to one
+ */
+export function formatAmount(value: number, unit: string = ""): string {
+  if (METRIC_UNITS.has(normalizeUnit(unit).canonical)) {
+    return String(Math.round(value * 100) / 100);
+  }
+
+  const whole = Math.floor(value + 1e-9);
+  const rest = value - whole;
+  if (rest < 0.01) return String(whole);
+
+  const fraction = FRACTION_TEXT.find(([amount]) => Math.abs(rest - amount) < 0.01);
+  if (fraction) return whole > 0 ? `${whole} ${fraction[1]}` : fraction[1];
+
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Round an amount to something measurable in its unit
+ */
+function roundForUnit(value: number, unit: string): number {
+  const { canonical, dimension, toBase } = normalizeUnit(unit);
+
+  if (canonical === "g" || canonical === "ml") {
+    if (value >= 100) return Math.round(value / 5) * 5;
+    if (value >= 10) return Math.round(value);
+    return Math.max(Math.round(value * 2) / 2, 0.5);
+  }
+  if (canonical === "kg" || canonical === "l" || canonical === "mg") {
+    return Math.round(value * 100) / 100;
+  }
+  if (canonical === "piece") {
+    // Whole items (a dozen counts its eggs): nobody cracks 3/4 of an egg
+    return Math.max(Math.round(value * toBase), 1) / toBase;
+  }
+  if (value >= 10) return Math.round(value);
+
+  const fractions = dimension === "count" ? PORTION_FRACTIONS : SPOON_FRACTIONS;
+  const rounded = nearestFraction(value, fractions);
+  // Never round an ingredient away entirely
+  return rounded > 0 ? rounded : fractions[1];
+}
+
+/**
+ * Move an amount to the unit that reads most naturally at its size, e.g.
+ * 12 tsp -> 0.25 cup, 0.125 cup -> 2 tbsp, 1500 g -> 1.5 kg
+ */
+export function promoteUnit(value: number, unit: string): { value: number; unit: string } {
+  const definition = normalizeUnit(unit);
+
+  const chainIndex = SPOON_CHAIN.findIndex(step => step.unit === definition.canonical);
+  if (chainIndex >= 0) {
+    const millilitres = value * definition.toBase;
+    // Unit sizes are rounded, so 3 tsp comes out a little under 1 tbsp
+    const target = [...SPOON_CHAIN].reverse().find(step => millilitres >= step.from * (1 - PROMOTION_TOLERANCE)) || SPOON_CHAIN[0];
+    if (target.unit === definition.canonical) return { value, unit };
+    return { value: millilitres / normalizeUnit(target.unit).toBase, unit: target.unit };
+  }
+
+  for (const [small, large, threshold] of UNIT_PAIRS) {
+    if (definition.canonical === small && value >= threshold) {
+      return { value: value / threshold, unit: large };
+    }
+    if (definition.canonical === large && value < 1) {
+      // Keep half pounds as pounds; they read better than 8 oz
+      if (large === "lb" && value >= 0.5) break;
+      return { value: value * threshold, unit: small };
+    }
+  }
+
+  return { value, unit };
+}
+
+function pluralizeUnit(unit: string, value: number): string {
+  return unit === "cup" && value > 1 ? "cups" : unit;
+}
+
+// A new unit is only used when rounding in it stays this close to the exact amount
+const MAX_PROMOTION_ERROR = 0.05;
+
+function scaleValue(value: number, unit: string, factor: number): { value: number; unit: string } {
+  const exact = value * factor;
+  const promoted = promoteUnit(exact, unit);
+  const rounded = roundForUnit(promoted.value, promoted.unit);
+  if (promoted.unit !== unit && Math.abs(rounded - promoted.value) > promoted.value * MAX_PROMOTION_ERROR) {
+    // e.g. 6 tbsp would round to 1/3 cup; keep it in tablespoons
+    return { value: roundForUnit(exact, unit), unit };
+  }
+  return { value: rounded, unit: promoted.unit };
+}
+
+/**
+ * Scale one ingredient. Package sizes ("15 oz" cans) stay as they are; only
+ * the number of packages changes.
+ */
+export function scaleIngredient(ingredient: RecipeIngredient, factor: number): RecipeIngredient {
+  const parsed = parseQuantity(ingredient.amount);
+  if (!parsed || factor === 1) return ingredient;
+
+  const unit = ingredient.unit || "";
+  const upper = scaleValue(parsed.max, unit, factor);
+
+  // Ranges keep one unit, taken from the upper bound
+  let amount: string;
+  if (parsed.min !== parsed.max) {
+    const lowerValue = roundForUnit(convertToUnit(parsed.min * factor, unit, upper.unit), upper.unit);
+    amount = `${formatAmount(lowerValue, upper.unit)}-${formatAmount(upper.value, upper.unit)}`;
+  } else {
+    amount = formatAmount(upper.value, upper.unit);
+  }
+
+  const unitChanged = normalizeUnit(upper.unit).canonical !== normalizeUnit(unit).canonical;
+  return {
+    ...ingredient,
+    amount,
+    unit: unitChanged ? pluralizeUnit(upper.unit, upper.value) : unit,
+  };
+}
+
+// Express a value in a specific (compatible) unit
+function convertToUnit(value: number, fromUnit: string, toUnit: string): number {
+  const from = normalizeUnit(fromUnit);
+  const to = normalizeUnit(toUnit);
+  return from.canonical === to.canonical ? value : (value * from.toBase) / to.toBase;
+}
+
+export function scaleRecipeIngredients(ingredients: RecipeIngredient[], factor: number): RecipeIngredient[] {
+  return ingredients.map(ingredient => scaleIngredient(ingredient, factor));
+}
+
+/**
+ * Scale a recipe to a serving count. Nutrition stays per serving, so only
+ * the ingredients and servings change.
+ */
+export function scaleRecipe<T extends { servings?: number | null; ingredients: unknown }>(recipe: T, targetServings: number): ScaledRecipe<T> {
+  const originalServings = recipe.servings || DEFAULT_SERVINGS;
+  const scale = getServingsScale(originalServings, targetServings);
+  return {
+    ...recipe,
+    ingredients: scaleRecipeIngredients((recipe.ingredients as RecipeIngredient[]) || [], scale),
+    servings: targetServings,
+    originalServings,
+    scale,
+  };
+}
+
+/**
+ * Read a servings value from a query param or request body. Returns
+ * undefined when absent and null when invalid.
+ */
+export function parseServings(value: unknown): number | null | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const servings = Number(value);
+  if (!Number.isInteger(servings) || servings < 1 || servings > MAX_SERVINGS) return null;
+  return servings;
+}
@@ -216,3 +216,15 @@ export const optionalAuth: RequestHandler = async (req, res, next) => {
   
   next();
 };
+
+// Admin-only routes - must run after isAuthenticated
+export const requireAdmin: RequestHandler = async (req, res, next) => {
+  const userId = (req.user as any)?.dbUserId;
+  const user = userId ? await storage.getUserById(userId) : null;
+
+  if (!user?.isAdmin) {
+    return res.status(403).json({ message: "Admin access required" });
+  }
+
+  next();
+};
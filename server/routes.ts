@@ -1,12 +1,25 @@
 // Blueprint reference: javascript_log_in_with_replit, javascript_openai_ai_integrations
-import type { Express, Response } from "express";
+import express, { type Express, type Response } from "express";
 import { storage } from "./storage";
-import { isAuthenticated, optionalAuth } from "./replitAuth";
+import { isAuthenticated, optionalAuth, requireAdmin } from "./replitAuth";
 import { getChatCompletion, getProductRecommendations, getProductImageUrl } from "./openai";
-import { insertKitchenInventorySchema, insertKitchenEquipmentSchema, insertMealPlanSchema, insertMealVoteSchema, insertRecipeSchema, insertRecipeRatingSchema, insertShoppingListSchema, insertShoppingListItemSchema, insertInventoryReviewQueueSchema, insertNotificationSchema } from "@shared/schema";
-import { searchRecipes, getRecipeById as getApiRecipeById } from "./recipeApi";
-import { searchSpoonacularRecipes, getSpoonacularRecipeById, getIngredientImageMemoized, getIngredientSuggestionsMemoized } from "./spoonacularApi";
-import { normalizeIngredientName } from "./normalizationService";
+import { insertKitchenInventorySchema, insertKitchenEquipmentSchema, insertMealPlanSchema, insertMealVoteSchema, insertRecipeSchema, insertRecipeRatingSchema, insertShoppingListSchema, insertShoppingListItemSchema, insertInventoryReviewQueueSchema, insertNotificationSchema, MAX_SERVINGS } from "@shared/schema";
+import { searchRecipeProviders, getRecipeProviderHealth } from "./recipeProviders";
+import { importRecipeFromUrl, importRecipeFromHtml, importRecipeFromJsonLd } from "./recipeImport";
+import { parseExportFormat, exportRecipe, exportUserRecipesArchive, importRecipeArchive } from "./recipeExport";
+import { scaleRecipe, parseServings } from "./recipeScaling";
+import { diffRecipeContent, getRecipeContent } from "./recipeDiff";
+import { getRecipeSteps } from "./stepParser";
+import { getIngredientImageMemoized, getIngredientSuggestionsMemoized } from "./spoonacularApi";
+import { findMatchingIngredient, findBestIngredientMatch } from "./normalizationService";
+import { parseQuantity, hasSufficientQuantity } from "./quantityService";
+import { getExpiringItems, scoreExpiringUsage } from "./expirationService";
+import { requestIngredientRenormalization, scheduleCookingTimerCheck } from "./scheduler";
+import { withRemainingSeconds } from "./cookingTimers";
+import { normalizeRecipeIngredients, extractIngredientLines } from "./ingredientParser";
+import { isExternalRecipeId, fetchExternalRecipe, ensureRecipeStored, ensureRecipesStored } from "./externalRecipes";
+import { parseNutritionFilters, applyDailySodiumLimit, hasNutritionFilters, matchesNutritionFilters, type NutritionFilters } from "./nutritionFilter";
+import type { KitchenInventory } from "@shared/schema";
 
 // Shared error response helper
 interface ErrorResponse {
@@ -23,6 +36,51 @@ function sendError(res: Response, status: number, message: string, code?: string
   res.status(status).json(error);
 }
 
+// Split recipe ingredients into those covered by the inventory and those still needed
+function splitIngredientsByInventory(ingredients: any[], inventory: KitchenInventory[]) {
+  const ownedIngredients: any[] = [];
+  const missingIngredients: any[] = [];
+
+  for (const ing of ingredients) {
+    const item = findMatchingIngredient(ing.name, inventory);
+    const covered = !!item && hasSufficientQuantity(
+      { value: parseQuantity(ing.amount)?.value ?? 1, unit: ing.unit || '' },
+      { value: parseQuantity(item.quantity)?.value ?? 0, unit: item.unit || '' },
+      ing.name
+    );
+    (covered ? ownedIngredients : missingIngredients).push(ing);
+  }
+
+  return { ownedIngredients, missingIngredients };
+}
+
+// Nutrition range filters from query params. With applySodiumLimit=true the
+// strictest daily sodium limit in the user's family is applied as well.
+async function resolveNutritionFilters(query: Record<string, unknown>, userId?: string): Promise<{ filters: NutritionFilters } | { error: string }> {
+  const parsed = parseNutritionFilters(query);
+  if ('error' in parsed || query.applySodiumLimit !== 'true' || !userId) return parsed;
+
+  const sodiumLimit = await storage.getFamilySodiumLimit(userId);
+  return { filters: sodiumLimit ? applyDailySodiumLimit(parsed.filters, sodiumLimit) : parsed.filters };
+}
+
+// Parse a "matchConfidence" query param (percent) into a 0-1 threshold.
+// Returns undefined when absent and null when invalid.
+function parseMatchConfidence(value: unknown): number | null | undefined {
+  if (value === undefined || value === '') return undefined;
+  const percent = parseInt(value as string);
+  if (isNaN(percent) || percent < 0 || percent > 100) return null;
+  return percent / 100;
+}
+
+// Swap recipe IDs for the user's own variant of each recipe, if they have one
+// and didn't ask for the original
+async function preferUserVariants(userId: string, recipeIds: string[], useOriginal: unknown): Promise<(recipeId: string) => string> {
+  if (useOriginal === true) return recipeId => recipeId;
+  const variants = await storage.getUserVariants(userId, recipeIds);
+  return recipeId => variants.get(recipeId)?.id ?? recipeId;
+}
+
 export function registerRoutes(app: Express) {
   // Auth routes
   app.get("/api/auth/user", async (req: any, res) => {
@@ -59,7 +117,15 @@ export function registerRoutes(app: Express) {
   app.post("/api/kitchen-inventory", isAuthenticated, async (req, res) => {
     try {
       const userId = (req as any).user.dbUserId;
-      const validatedData = insertKitchenInventorySchema.parse(req.body);
+      const { shared, ...itemData } = req.body;
+      const validatedData = insertKitchenInventorySchema.parse(itemData);
+      
+      if (validatedData.locationId && !(await storage.getStorageLocation(validatedData.locationId, userId))) {
+        return res.status(400).json({ message: "Storage location not found" });
+      }
+      
+      // Items go into the family's shared kitchen unless explicitly kept personal
+      const familyId = shared === false ? null : await storage.getUserFamilyId(userId);
       
       // Fetch ingredient image if not provided
       let imageUrl = validatedData.imageUrl;
@@ -71,6 +137,7 @@ export function registerRoutes(app: Express) {
         ...validatedData,
         imageUrl: imageUrl || null,
         userId: userId,
+        familyId,
       });
       res.json(item);
     } catch (error: any) {
@@ -82,10 +149,104 @@ export function registerRoutes(app: Express) {
     }
   });
 
+  app.get("/api/kitchen-inventory/events", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const { itemId, limit } = req.query;
+      const events = await storage.getInventoryEvents(userId, {
+        itemId: typeof itemId === 'string' ? itemId : undefined,
+        limit: limit ? Math.min(parseInt(limit as string) || 50, 200) : undefined,
+      });
+      res.json(events);
+    } catch (error) {
+      console.error("Error getting inventory events:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/kitchen-inventory/waste-report", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const weeks = req.query.weeks ? parseInt(req.query.weeks as string) : 8;
+
+      if (isNaN(weeks) || weeks < 1 || weeks > 52) {
+        return sendError(res, 400, "Weeks must be between 1 and 52", "VALIDATION_ERROR");
+      }
+
+      const report = await storage.getWasteReport(userId, { weeks });
+      res.json(report);
+    } catch (error) {
+      console.error("Error getting waste report:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  app.patch("/api/kitchen-inventory/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const { updateKitchenInventorySchema } = await import('@shared/schema');
+      const validation = updateKitchenInventorySchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return sendError(res, 400, "Validation error", "VALIDATION_ERROR", validation.error.errors);
+      }
+
+      if (validation.data.locationId && !(await storage.getStorageLocation(validation.data.locationId, userId))) {
+        return sendError(res, 400, "Storage location not found", "VALIDATION_ERROR");
+      }
+
+      const item = await storage.updateKitchenItem(req.params.id, userId, validation.data);
+      if (!item) {
+        return sendError(res, 404, "Inventory item not found", "NOT_FOUND");
+      }
+      res.json(item);
+    } catch (error) {
+      console.error("Error updating inventory item:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  app.post("/api/kitchen-inventory/:id/consume", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const { consumeKitchenInventorySchema } = await import('@shared/schema');
+      const validation = consumeKitchenInventorySchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return sendError(res, 400, "Validation error", "VALIDATION_ERROR", validation.error.errors);
+      }
+
+      const result = await storage.consumeKitchenItem(req.params.id, userId, validation.data);
+
+      if (result.status === "not_found") {
+        return sendError(res, 404, "Inventory item not found", "NOT_FOUND");
+      }
+
+      if (result.status === "unit_mismatch") {
+        return sendError(res, 400, `Cannot convert ${validation.data.unit} to ${result.itemUnit || "item count"}`, "UNIT_MISMATCH");
+      }
+
+      res.json({ item: result.item, removed: result.removed, event: result.event });
+    } catch (error) {
+      console.error("Error consuming inventory item:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
   app.delete("/api/kitchen-inventory/:id", isAuthenticated, async (req, res) => {
     try {
       const userId = (req as any).user.dbUserId;
-      await storage.deleteKitchenItem(req.params.id, userId);
+      const { removeKitchenInventorySchema } = await import('@shared/schema');
+      const validation = removeKitchenInventorySchema.safeParse({ ...req.query, ...req.body });
+
+      if (!validation.success) {
+        return sendError(res, 400, "Validation error", "VALIDATION_ERROR", validation.error.errors);
+      }
+
+      const deleted = await storage.deleteKitchenItem(req.params.id, userId, validation.data);
+      if (!deleted) {
+        return sendError(res, 404, "Inventory item not found", "NOT_FOUND");
+      }
       res.json({ message: "Item deleted" });
     } catch (error) {
       console.error("Error deleting inventory item:", error);
@@ -93,6 +254,233 @@ export function registerRoutes(app: Express) {
     }
   });
 
+  // Storage Location routes
+  app.get("/api/storage-locations", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const locations = await storage.getStorageLocations(userId);
+      res.json(locations);
+    } catch (error) {
+      console.error("Error getting storage locations:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  app.post("/api/storage-locations", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const { insertStorageLocationSchema } = await import('@shared/schema');
+      const validation = insertStorageLocationSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return sendError(res, 400, "Validation error", "VALIDATION_ERROR", validation.error.errors);
+      }
+
+      const location = await storage.createStorageLocation(userId, validation.data);
+      res.status(201).json(location);
+    } catch (error) {
+      console.error("Error creating storage location:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  app.patch("/api/storage-locations/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const { insertStorageLocationSchema } = await import('@shared/schema');
+      const validation = insertStorageLocationSchema.partial().safeParse(req.body);
+
+      if (!validation.success) {
+        return sendError(res, 400, "Validation error", "VALIDATION_ERROR", validation.error.errors);
+      }
+
+      const location = await storage.updateStorageLocation(req.params.id, userId, validation.data);
+      if (!location) {
+        return sendError(res, 404, "Storage location not found", "NOT_FOUND");
+      }
+      res.json(location);
+    } catch (error) {
+      console.error("Error updating storage location:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  app.delete("/api/storage-locations/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const deleted = await storage.deleteStorageLocation(req.params.id, userId);
+      if (!deleted) {
+        return sendError(res, 404, "Storage location not found", "NOT_FOUND");
+      }
+      res.json({ message: "Storage location deleted" });
+    } catch (error) {
+      console.error("Error deleting storage location:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  // Ingredient Alias routes
+  app.get("/api/ingredient-aliases", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const aliases = await storage.getIngredientAliases(userId);
+      res.json(aliases);
+    } catch (error) {
+      console.error("Error getting ingredient aliases:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  // Custom aliases for the caller's family
+  app.post("/api/ingredient-aliases", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const { insertIngredientAliasSchema } = await import('@shared/schema');
+      const validation = insertIngredientAliasSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return sendError(res, 400, "Validation error", "VALIDATION_ERROR", validation.error.errors);
+      }
+
+      const familyId = await storage.getUserFamilyId(userId);
+      if (!familyId) {
+        return sendError(res, 403, "Custom aliases require a family", "FORBIDDEN");
+      }
+
+      const alias = await storage.addIngredientAlias(validation.data, { familyId, createdById: userId });
+      if (!alias) {
+        return sendError(res, 400, "Alias and canonical name must be different ingredients", "VALIDATION_ERROR");
+      }
+
+      requestIngredientRenormalization();
+      res.status(201).json(alias);
+    } catch (error) {
+      console.error("Error adding ingredient alias:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  app.delete("/api/ingredient-aliases/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const alias = await storage.getIngredientAliasById(req.params.id);
+      if (!alias) {
+        return sendError(res, 404, "Alias not found", "NOT_FOUND");
+      }
+
+      // Global aliases are managed through the admin endpoints
+      if (!alias.familyId || !(await storage.isUserFamilyMember(userId, alias.familyId))) {
+        return sendError(res, 403, "Access denied to this alias", "FORBIDDEN");
+      }
+
+      await storage.deleteIngredientAlias(alias.id);
+      requestIngredientRenormalization();
+      res.json({ message: "Alias deleted" });
+    } catch (error) {
+      console.error("Error deleting ingredient alias:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  app.post("/api/admin/ingredient-aliases", isAuthenticated, requireAdmin, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const { insertIngredientAliasSchema } = await import('@shared/schema');
+      const validation = insertIngredientAliasSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return sendError(res, 400, "Validation error", "VALIDATION_ERROR", validation.error.errors);
+      }
+
+      const alias = await storage.addIngredientAlias(validation.data, { familyId: null, createdById: userId });
+      if (!alias) {
+        return sendError(res, 400, "Alias and canonical name must be different ingredients", "VALIDATION_ERROR");
+      }
+
+      requestIngredientRenormalization();
+      res.status(201).json(alias);
+    } catch (error) {
+      console.error("Error adding global ingredient alias:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  app.delete("/api/admin/ingredient-aliases/:id", isAuthenticated, requireAdmin, async (req, res) => {
+    try {
+      const alias = await storage.getIngredientAliasById(req.params.id);
+      if (!alias) {
+        return sendError(res, 404, "Alias not found", "NOT_FOUND");
+      }
+
+      await storage.deleteIngredientAlias(alias.id);
+      requestIngredientRenormalization();
+      res.json({ message: "Alias deleted" });
+    } catch (error) {
+      console.error("Error deleting global ingredient alias:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  // Words stripped from ingredient names before matching
+  app.get("/api/admin/ingredient-stopwords", isAuthenticated, requireAdmin, async (req, res) => {
+    try {
+      const stopwords = await storage.getIngredientStopwords();
+      res.json(stopwords);
+    } catch (error) {
+      console.error("Error getting ingredient stopwords:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  app.post("/api/admin/ingredient-stopwords", isAuthenticated, requireAdmin, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const { insertIngredientStopwordSchema } = await import('@shared/schema');
+      const validation = insertIngredientStopwordSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return sendError(res, 400, "Validation error", "VALIDATION_ERROR", validation.error.errors);
+      }
+
+      const stopword = await storage.addIngredientStopword(validation.data, userId);
+      if (!stopword) {
+        return sendError(res, 409, "Stopword already exists", "STOPWORD_EXISTS");
+      }
+
+      requestIngredientRenormalization();
+      res.status(201).json(stopword);
+    } catch (error) {
+      console.error("Error adding ingredient stopword:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  app.delete("/api/admin/ingredient-stopwords/:id", isAuthenticated, requireAdmin, async (req, res) => {
+    try {
+      const stopword = await storage.getIngredientStopwordById(req.params.id);
+      if (!stopword) {
+        return sendError(res, 404, "Stopword not found", "NOT_FOUND");
+      }
+
+      await storage.deleteIngredientStopword(stopword.id);
+      requestIngredientRenormalization();
+      res.json({ message: "Stopword deleted" });
+    } catch (error) {
+      console.error("Error deleting ingredient stopword:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  app.post("/api/admin/ingredient-aliases/renormalize", isAuthenticated, requireAdmin, async (req, res) => {
+    requestIngredientRenormalization();
+    res.status(202).json({ message: "Re-normalization started" });
+  });
+
+  // Recipe provider health, quota usage and priority order
+  app.get("/api/admin/recipe-providers", isAuthenticated, requireAdmin, async (req, res) => {
+    res.json(getRecipeProviderHealth());
+  });
+
   // Kitchen Equipment routes
   app.get("/api/kitchen-equipment", isAuthenticated, async (req, res) => {
     try {
@@ -168,9 +556,20 @@ export function registerRoutes(app: Express) {
   // Recipe routes - merging external API with database recipes
   app.get("/api/recipes", optionalAuth, async (req, res) => {
     try {
-      const { search, dietType, cuisine, mealType, maxCalories, limit, offset, ingredientMatch, restrictions, source = 'all' } = req.query;
+      const { search, dietType, cuisine, mealType, limit, offset, ingredientMatch, matchConfidence, restrictions, source = 'all', sort } = req.query;
       const requestLimit = limit ? parseInt(limit as string) : 15; // Default to 15 recipes
       const matchThreshold = ingredientMatch ? parseInt(ingredientMatch as string) : 0;
+
+      const requestedConfidence = parseMatchConfidence(matchConfidence);
+      if (requestedConfidence === null) {
+        return sendError(res, 400, "matchConfidence must be between 0 and 100", "VALIDATION_ERROR");
+      }
+
+      const nutritionResult = await resolveNutritionFilters(req.query, (req.user as any)?.dbUserId);
+      if ('error' in nutritionResult) {
+        return sendError(res, 400, nutritionResult.error, "VALIDATION_ERROR");
+      }
+      const nutrition = hasNutritionFilters(nutritionResult.filters) ? nutritionResult.filters : undefined;
       
       // Parse dietary restrictions (comma-separated or JSON array)
       let dietaryRestrictions: string[] = [];
@@ -187,67 +586,50 @@ export function registerRoutes(app: Express) {
       // Skip external API if source=local
       if (source === 'local') {
         const localRecipes = await storage.getRecipes({
+          viewerId: (req.user as any)?.dbUserId,
           searchQuery: search as string,
           dietType: dietType as string,
           cuisine: cuisine as string,
           mealType: mealType as string,
-          maxCalories: maxCalories ? parseInt(maxCalories as string) : undefined,
+          nutrition,
         });
         return res.json(localRecipes);
       }
       
-      // Fetch recipes from external API with automatic fallback
-      // Prioritize Spoonacular since it provides images (api-ninjas doesn't)
-      let apiRecipes: any[] = [];
-      let apiSource = "Spoonacular";
-      
-      // Try Spoonacular first (has images!)
-      try {
-        const apiLimit = matchThreshold > 0 ? Math.min(requestLimit * 2, 20) : requestLimit;
-        apiRecipes = await searchSpoonacularRecipes({
-          searchQuery: search as string,
-          dietType: dietType as string,
-          cuisine: cuisine as string,
-          mealType: mealType as string,
-          maxCalories: maxCalories ? parseInt(maxCalories as string) : undefined,
-          limit: apiLimit,
-          offset: offset ? parseInt(offset as string) : 0,
-        });
+      // Fetch recipes from the highest-priority healthy provider, falling
+      // back down the chain (Spoonacular, api-ninjas, local fixtures)
+      const apiLimit = matchThreshold > 0 ? Math.min(requestLimit * 2, 20) : requestLimit;
+      const { recipes: apiRecipes, provider: apiSource } = await searchRecipeProviders({
+        searchQuery: search as string,
+        dietType: dietType as string,
+        cuisine: cuisine as string,
+        mealType: mealType as string,
+        nutrition,
+        limit: apiLimit,
+        offset: offset ? parseInt(offset as string) : 0,
+      });
+      if (apiSource) {
         console.log(`Fetched ${apiRecipes.length} recipes from ${apiSource}`);
-      } catch (spoonError) {
-        console.log("Spoonacular failed, trying api-ninjas fallback...");
-        apiSource = "api-ninjas";
-        // Fallback to api-ninjas if Spoonacular fails (no images though)
-        try {
-          const apiLimit = matchThreshold > 0 ? Math.min(requestLimit * 2, 20) : requestLimit;
-          apiRecipes = await searchRecipes({
-            searchQuery: search as string,
-            dietType: dietType as string,
-            cuisine: cuisine as string,
-            mealType: mealType as string,
-            maxCalories: maxCalories ? parseInt(maxCalories as string) : undefined,
-            limit: apiLimit,
-            offset: offset ? parseInt(offset as string) : 0,
-          });
-          console.log(`Fetched ${apiRecipes.length} recipes from ${apiSource}`);
-        } catch (apiError) {
-          console.error("Both API sources failed:", apiError);
-          // Continue with database recipes only
-        }
       }
       
-      // Get database recipes with dietary restriction filtering
+      // Get database recipes with dietary restriction filtering. Only the
+      // requested page is needed unless we re-rank by inventory afterwards.
+      const needsAllRecipes = matchThreshold > 0 || sort === 'expiring';
       const dbRecipes = await storage.getRecipes({
+        viewerId: (req.user as any)?.dbUserId,
         searchQuery: search as string,
         dietType: dietType as string,
         cuisine: cuisine as string,
         mealType: mealType as string,
-        maxCalories: maxCalories ? parseInt(maxCalories as string) : undefined,
+        nutrition,
         dietaryRestrictions: dietaryRestrictions.length > 0 ? dietaryRestrictions : undefined,
+        limit: needsAllRecipes ? undefined : requestLimit,
       });
       
-      // Handle external API recipes based on dietary restrictions
-      let filteredApiRecipes = apiRecipes;
+      // Handle external API recipes based on dietary restrictions. Nutrition
+      // ranges are re-checked here since not every source can filter by them
+      // (recipes without nutrition data are dropped when ranges are set).
+      let filteredApiRecipes = apiRecipes.filter((recipe: any) => matchesNutritionFilters(recipe, nutrition));
       if (dietaryRestrictions.length > 0) {
         // When dietary restrictions are present, exclude ALL external recipes
         // External recipes lack our tag taxonomy and cannot be reliably validated
@@ -261,42 +643,66 @@ export function registerRoutes(app: Express) {
       const dbWithImages = dbRecipes.filter((r: any) => r.imageUrl);
       const recipesWithoutImages = [...filteredApiRecipes.filter((r: any) => !r.imageUrl), ...dbRecipes.filter((r: any) => !r.imageUrl)];
       
-      // Merge: prioritize image-bearing recipes
-      let allRecipes = [...recipesWithImages, ...dbWithImages, ...recipesWithoutImages];
+      // Merge: prioritize image-bearing recipes. External recipes that have
+      // been stored locally appear in both lists; keep the database copy.
+      const storedIds = new Set(dbRecipes.map(r => r.id));
+      let allRecipes = [...recipesWithImages, ...dbWithImages, ...recipesWithoutImages]
+        .filter((r: any) => !storedIds.has(r.id) || dbRecipes.includes(r));
       
       // Calculate match percentage for all recipes if user is authenticated
       if (req.user) {
         const userId = (req.user as any)?.dbUserId;
         if (userId) {
           const inventory = await storage.getKitchenInventory(userId);
-          const inventoryMap = new Map(
-            inventory.map(item => [
-              item.normalizedName || normalizeIngredientName(item.name),
-              item
-            ])
-          );
+          const minConfidence = requestedConfidence ?? await storage.getIngredientMatchConfidence(userId);
           
-          // Calculate match percentage for each recipe
+          // Calculate match percentage for each recipe, explaining which
+          // inventory item covers each ingredient
           allRecipes = allRecipes.map((recipe: any) => {
             const ingredients = recipe.ingredients || [];
             if (ingredients.length === 0) {
-              return { ...recipe, matchPercentage: 0, hasImage: !!recipe.imageUrl };
+              return { ...recipe, matchPercentage: 0, matchedIngredients: [], hasImage: !!recipe.imageUrl };
             }
             
-            const ownedCount = ingredients.filter((ing: any) => {
-              const normalized = normalizeIngredientName(ing.name);
-              return inventoryMap.has(normalized);
-            }).length;
+            const matchedIngredients = ingredients.flatMap((ing: any) => {
+              const best = findBestIngredientMatch(ing.name, inventory, minConfidence);
+              return best ? [{
+                name: ing.name,
+                inventoryItemId: best.item.id,
+                inventoryName: best.item.name,
+                confidence: best.match.confidence,
+                explanation: best.match.explanation,
+              }] : [];
+            });
             
-            const matchPercentage = Math.round((ownedCount / ingredients.length) * 100);
-            return { ...recipe, matchPercentage, hasImage: !!recipe.imageUrl };
+            const matchPercentage = Math.round((matchedIngredients.length / ingredients.length) * 100);
+            return { ...recipe, matchPercentage, matchedIngredients, hasImage: !!recipe.imageUrl };
           });
           
+          // "Use it up" ordering: recipes consuming soon-to-expire items first
+          if (sort === 'expiring') {
+            const expiringItems = getExpiringItems(inventory);
+            allRecipes = allRecipes
+              .map((recipe: any) => {
+                const usage = scoreExpiringUsage(recipe.ingredients || [], expiringItems, new Date(), minConfidence);
+                return {
+                  ...recipe,
+                  expiringScore: usage.score,
+                  expiringIngredients: usage.expiringIngredients,
+                  useBy: usage.useBy,
+                };
+              })
+              .sort((a: any, b: any) => b.expiringScore - a.expiringScore);
+          }
+          
           // Apply ingredient matching filter if requested
           if (matchThreshold > 0) {
             allRecipes = allRecipes
               .filter((recipe: any) => recipe.matchPercentage >= matchThreshold)
               .sort((a: any, b: any) => {
+                if (sort === 'expiring' && a.expiringScore !== b.expiringScore) {
+                  return b.expiringScore - a.expiringScore;
+                }
                 // Sort by hasImage first (images priority), then by matchPercentage
                 if (a.hasImage !== b.hasImage) return a.hasImage ? -1 : 1;
                 return (b.matchPercentage || 0) - (a.matchPercentage || 0);
@@ -315,151 +721,533 @@ export function registerRoutes(app: Express) {
           return false;
         });
       }
-      
-      // Limit to requested amount
-      const finalRecipes = allRecipes.slice(0, requestLimit);
-      
-      res.json(finalRecipes);
+      
+      // Limit to requested amount
+      const finalRecipes = allRecipes.slice(0, requestLimit);
+      
+      res.json(finalRecipes);
+    } catch (error) {
+      console.error("Error getting recipes:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Get ingredient suggestions from Spoonacular autocomplete
+  app.get("/api/ingredient-suggestions", async (req, res) => {
+    try {
+      const { query } = req.query;
+      
+      if (!query || typeof query !== 'string') {
+        return res.status(400).json({ error: "Query parameter is required" });
+      }
+
+      if (query.length < 2) {
+        return res.json([]);
+      }
+
+      const suggestions = await getIngredientSuggestionsMemoized(query);
+      res.json(suggestions);
+    } catch (error) {
+      console.error("Error fetching ingredient suggestions:", error);
+      res.status(500).json({ error: "Failed to fetch ingredient suggestions" });
+    }
+  });
+
+  // Zip of the user's own and rated recipes (JSON-LD and Markdown per recipe)
+  app.get("/api/recipes/export", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const archive = await exportUserRecipesArchive(userId);
+
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="${archive.filename}"`);
+      res.send(archive.data);
+    } catch (error) {
+      console.error("Error exporting recipes:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  // Database recipe search with relevance ranking, pagination and facet counts
+  app.get("/api/recipes/search", async (req, res) => {
+    try {
+      const { q, dietType, cuisine, mealType, restrictions, page, pageSize } = req.query;
+
+      const pageNumber = page ? parseInt(page as string) : 1;
+      const size = pageSize ? parseInt(pageSize as string) : 20;
+      if (isNaN(pageNumber) || pageNumber < 1) {
+        return sendError(res, 400, "Page must be a positive number", "VALIDATION_ERROR");
+      }
+      if (isNaN(size) || size < 1 || size > 100) {
+        return sendError(res, 400, "Page size must be between 1 and 100", "VALIDATION_ERROR");
+      }
+
+      const nutritionResult = await resolveNutritionFilters(req.query, (req as any).user?.dbUserId);
+      if ('error' in nutritionResult) {
+        return sendError(res, 400, nutritionResult.error, "VALIDATION_ERROR");
+      }
+
+      const result = await storage.searchRecipes({
+        viewerId: (req as any).user?.dbUserId,
+        searchQuery: q as string,
+        dietType: dietType as string,
+        cuisine: cuisine as string,
+        mealType: mealType as string,
+        nutrition: nutritionResult.filters,
+        dietaryRestrictions: typeof restrictions === 'string' && restrictions
+          ? restrictions.split(',').map(r => r.trim())
+          : undefined,
+        page: pageNumber,
+        pageSize: size,
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error searching recipes:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  // Registered before /api/recipes/:id so "recommended" isn't treated as a recipe ID
+  app.get("/api/recipes/recommended", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const { mode = 'default', days, matchConfidence } = req.query;
+
+      if (mode !== 'default' && mode !== 'expiring') {
+        return res.status(400).json({ message: "Mode must be 'default' or 'expiring'" });
+      }
+
+      const minConfidence = parseMatchConfidence(matchConfidence);
+      if (minConfidence === null) {
+        return res.status(400).json({ message: "matchConfidence must be between 0 and 100" });
+      }
+
+      const withinDays = days ? parseInt(days as string) : undefined;
+      if (withinDays !== undefined && (isNaN(withinDays) || withinDays < 0 || withinDays > 30)) {
+        return res.status(400).json({ message: "Days must be between 0 and 30" });
+      }
+
+      const recipes = await storage.getRecommendedRecipes(userId, { mode, withinDays, minConfidence });
+      res.json(recipes);
+    } catch (error) {
+      console.error("Error getting recommended recipes:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Export one recipe as schema.org JSON-LD, a Markdown card or a printable HTML card
+  app.get("/api/recipes/:id/export", isAuthenticated, async (req, res) => {
+    try {
+      const format = parseExportFormat(req.query.format);
+      if (!format) {
+        return sendError(res, 400, "Format must be one of jsonld, markdown or html", "VALIDATION_ERROR");
+      }
+
+      const userId = (req as any).user.dbUserId;
+      if (!(await ensureRecipeStored(req.params.id, userId))) {
+        return sendError(res, 404, "Recipe not found", "NOT_FOUND");
+      }
+
+      const recipe = await storage.getRecipeById(req.params.id, userId);
+      const file = exportRecipe(recipe, format);
+
+      // The HTML card opens in the browser for printing; other formats download
+      const disposition = format === "html" ? "inline" : "attachment";
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `${disposition}; filename="${file.filename}"`);
+      res.send(file.body);
+    } catch (error) {
+      console.error("Error exporting recipe:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  app.get("/api/recipes/:id", async (req, res) => {
+    try {
+      const userId = (req.user as any)?.dbUserId;
+      const isExternal = isExternalRecipeId(req.params.id);
+
+      // ?servings=N rescales the ingredients; "household" uses the user's household size
+      let servings = req.query.servings === "household" ? undefined : parseServings(req.query.servings);
+      if (servings === null) {
+        return res.status(400).json({ message: `Servings must be a whole number between 1 and ${MAX_SERVINGS}` });
+      }
+      if (req.query.servings === "household" && userId) {
+        servings = (await storage.getUserById(userId))?.householdSize || undefined;
+      }
+
+      // Signed-in views keep a local copy of external recipes
+      if (isExternal && userId) {
+        await ensureRecipeStored(req.params.id);
+      }
+
+      let recipe = await storage.getRecipeById(req.params.id, userId);
+      if (!recipe && isExternal) {
+        // Anonymous preview of a recipe we haven't stored yet
+        recipe = await fetchExternalRecipe(req.params.id);
+      }
+
+      // Database recipes (for user-created recipes) require auth
+      if (!userId && !isExternal) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      if (!recipe) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+
+      // Recipes saved before structured steps existed are parsed on the fly
+      recipe = { ...recipe, steps: getRecipeSteps(recipe) };
+
+      if (servings) {
+        recipe = scaleRecipe(recipe, servings);
+      }
+
+      if (!userId) {
+        return res.json(recipe);
+      }
+
+      // Add ingredient matching against the user's kitchen inventory
+      const inventory = await storage.getKitchenInventory(userId);
+      const ingredients = (recipe.ingredients as any) || [];
+      const { ownedIngredients, missingIngredients } = splitIngredientsByInventory(ingredients, inventory);
+
+      // Link forks to their parent, and the parent to the user's own variant
+      const [parent, variants] = await Promise.all([
+        recipe.parentRecipeId ? storage.getRecipeById(recipe.parentRecipeId, userId) : null,
+        storage.getUserVariants(userId, [recipe.id]),
+      ]);
+      const variant = variants.get(recipe.id);
+      
+      res.json({
+        ...recipe,
+        ownedIngredients,
+        missingIngredients,
+        parentRecipe: parent ? { id: parent.id, name: parent.name } : null,
+        userVariant: variant ? { id: variant.id, name: variant.name } : null,
+      });
+    } catch (error) {
+      console.error("Error getting recipe:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/recipes/:id/rate", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const { rating, comment } = req.body;
+
+      if (typeof rating !== "number" || rating < 1 || rating > 5) {
+        return res.status(400).json({ message: "Rating must be between 1 and 5" });
+      }
+
+      if (!(await ensureRecipeStored(req.params.id, userId))) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+
+      await storage.rateRecipe({
+        recipeId: req.params.id,
+        userId: userId,
+        rating,
+        comment: comment || null,
+      });
+
+      res.json({ message: "Rating submitted successfully" });
+    } catch (error) {
+      console.error("Error rating recipe:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Import a recipe from a URL, raw HTML or JSON-LD. Returns a draft for
+  // review; nothing is saved until the client posts it to /api/recipes.
+  app.post("/api/recipes/import", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const { importRecipeRequestSchema } = await import('@shared/schema');
+      const validation = importRecipeRequestSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return sendError(res, 400, "Validation error", "VALIDATION_ERROR", validation.error.errors);
+      }
+
+      const { url, html, jsonLd } = validation.data;
+      const familyId = await storage.getUserFamilyId(userId);
+      const result = url
+        ? await importRecipeFromUrl(url, familyId)
+        : html !== undefined
+          ? importRecipeFromHtml(html, null, familyId)
+          : importRecipeFromJsonLd(jsonLd, familyId);
+
+      if ("error" in result) {
+        return sendError(res, result.status, result.error, "IMPORT_FAILED");
+      }
+
+      res.json(result.draft);
+    } catch (error) {
+      console.error("Error importing recipe:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  // Import a zip made by GET /api/recipes/export into the signed-in account
+  app.post(
+    "/api/recipes/import/bulk",
+    isAuthenticated,
+    express.raw({ type: ["application/zip", "application/x-zip-compressed", "application/octet-stream"], limit: "50mb" }),
+    async (req, res) => {
+      try {
+        const userId = (req as any).user.dbUserId;
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return sendError(res, 400, "Send the export zip as the request body with Content-Type application/zip", "VALIDATION_ERROR");
+        }
+
+        const familyId = await storage.getUserFamilyId(userId);
+        const result = await importRecipeArchive(req.body, userId, familyId);
+        if ("error" in result) {
+          return sendError(res, 400, result.error, "IMPORT_FAILED");
+        }
+
+        res.json(result);
+      } catch (error) {
+        console.error("Error importing recipe archive:", error);
+        sendError(res, 500, "Internal server error");
+      }
+    },
+  );
+
+  app.post("/api/recipes", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      // Ingredients may be submitted as plain lines ("2 large eggs, beaten")
+      const validatedData = insertRecipeSchema.parse({
+        ...req.body,
+        ingredients: normalizeRecipeIngredients(req.body?.ingredients),
+      });
+      if (validatedData.visibility === "family" && !(await storage.getUserFamilyId(userId))) {
+        return res.status(400).json({ message: "Join a family to share recipes with it" });
+      }
+      const recipe = await storage.addRecipe(validatedData, userId);
+      res.json(recipe);
+    } catch (error: any) {
+      console.error("Error adding recipe:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Edit a recipe. Only its author can; content changes add a version.
+  app.patch("/api/recipes/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const { updateRecipeSchema } = await import('@shared/schema');
+      const validation = updateRecipeSchema.safeParse({
+        ...req.body,
+        ingredients: req.body?.ingredients === undefined ? undefined : normalizeRecipeIngredients(req.body.ingredients),
+      });
+
+      if (!validation.success) {
+        return sendError(res, 400, "Validation error", "VALIDATION_ERROR", validation.error.errors);
+      }
+
+      const recipe = await storage.getRecipeById(req.params.id, userId);
+      if (!recipe) {
+        return sendError(res, 404, "Recipe not found", "NOT_FOUND");
+      }
+      if (recipe.authorId !== userId) {
+        return sendError(res, 403, "Only the recipe's author can edit it", "FORBIDDEN");
+      }
+      if (validation.data.visibility === "family" && !(await storage.getUserFamilyId(userId))) {
+        return sendError(res, 400, "Join a family to share recipes with it", "NO_FAMILY");
+      }
+
+      const updated = await storage.updateRecipe(req.params.id, validation.data, userId);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating recipe:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  app.delete("/api/recipes/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const recipe = await storage.getRecipeById(req.params.id, userId);
+      if (!recipe) {
+        return sendError(res, 404, "Recipe not found", "NOT_FOUND");
+      }
+      if (recipe.authorId !== userId) {
+        return sendError(res, 403, "Only the recipe's author can delete it", "FORBIDDEN");
+      }
+
+      if (!(await storage.deleteRecipe(req.params.id))) {
+        return sendError(res, 409, "Recipe is used by meal plans, nutrition logs or cooking history; make it private instead", "RECIPE_IN_USE");
+      }
+      res.json({ message: "Recipe deleted" });
+    } catch (error) {
+      console.error("Error deleting recipe:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  // Version history of a recipe, newest first
+  app.get("/api/recipes/:id/versions", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      if (!(await storage.canViewRecipe(req.params.id, userId))) {
+        return sendError(res, 404, "Recipe not found", "NOT_FOUND");
+      }
+
+      const versions = await storage.getRecipeVersions(req.params.id);
+      res.json(versions);
     } catch (error) {
-      console.error("Error getting recipes:", error);
-      res.status(500).json({ message: "Internal server error" });
+      console.error("Error getting recipe versions:", error);
+      sendError(res, 500, "Internal server error");
     }
   });
 
-  // Get ingredient suggestions from Spoonacular autocomplete
-  app.get("/api/ingredient-suggestions", async (req, res) => {
+  // Compare two versions: ?from=N&to=M. `to` defaults to the current recipe.
+  app.get("/api/recipes/:id/versions/compare", isAuthenticated, async (req, res) => {
     try {
-      const { query } = req.query;
-      
-      if (!query || typeof query !== 'string') {
-        return res.status(400).json({ error: "Query parameter is required" });
+      const userId = (req as any).user.dbUserId;
+      const from = parseInt(req.query.from as string);
+      const to = req.query.to === undefined ? undefined : parseInt(req.query.to as string);
+      if (isNaN(from) || (to !== undefined && isNaN(to))) {
+        return sendError(res, 400, "from and to must be version numbers", "VALIDATION_ERROR");
       }
 
-      if (query.length < 2) {
-        return res.json([]);
+      if (!(await storage.canViewRecipe(req.params.id, userId))) {
+        return sendError(res, 404, "Recipe not found", "NOT_FOUND");
       }
 
-      const suggestions = await getIngredientSuggestionsMemoized(query);
-      res.json(suggestions);
+      const [before, after] = await Promise.all([
+        storage.getRecipeVersion(req.params.id, from).then(version => version?.content ?? null),
+        to === undefined
+          ? storage.getRecipeContent(req.params.id)
+          : storage.getRecipeVersion(req.params.id, to).then(version => version?.content ?? null),
+      ]);
+      if (!before || !after) {
+        return sendError(res, 404, "Version not found", "NOT_FOUND");
+      }
+
+      res.json({ from, to: to ?? null, diff: diffRecipeContent(before, after) });
     } catch (error) {
-      console.error("Error fetching ingredient suggestions:", error);
-      res.status(500).json({ error: "Failed to fetch ingredient suggestions" });
+      console.error("Error comparing recipe versions:", error);
+      sendError(res, 500, "Internal server error");
     }
   });
 
-  app.get("/api/recipes/:id", async (req, res) => {
+  // Roll back to an earlier version. The restored content becomes a new
+  // version, so the rollback itself can be undone.
+  app.post("/api/recipes/:id/versions/:version/restore", isAuthenticated, async (req, res) => {
     try {
-      let recipe = null;
-      
-      // Try to get from API based on ID prefix
-      if (req.params.id.startsWith('api-')) {
-        recipe = await getApiRecipeById(req.params.id);
-      } else if (req.params.id.startsWith('spoon-')) {
-        recipe = await getSpoonacularRecipeById(req.params.id);
+      const userId = (req as any).user.dbUserId;
+      const versionNumber = parseInt(req.params.version);
+      if (isNaN(versionNumber)) {
+        return sendError(res, 400, "Version must be a number", "VALIDATION_ERROR");
       }
-      
-      if (recipe) {
-        // Get user's kitchen inventory to map ingredients if authenticated
-        const userId = (req.user as any)?.dbUserId;
-        if (userId) {
-          const inventory = await storage.getKitchenInventory(userId);
-          const inventoryNames = new Set(inventory.map(item => item.name.toLowerCase()));
-          
-          const ownedIngredients = recipe.ingredients.filter((ing: any) => 
-            inventoryNames.has(ing.name.toLowerCase())
-          );
-          const missingIngredients = recipe.ingredients.filter((ing: any) => 
-            !inventoryNames.has(ing.name.toLowerCase())
-          );
-          
-          return res.json({
-            ...recipe,
-            ownedIngredients,
-            missingIngredients,
-          });
-        }
-        return res.json(recipe);
+
+      const recipe = await storage.getRecipeById(req.params.id, userId);
+      if (!recipe) {
+        return sendError(res, 404, "Recipe not found", "NOT_FOUND");
       }
-      
-      // Fallback to database recipes (for user-created recipes) - requires auth
-      const userId = (req.user as any)?.dbUserId;
-      if (!userId) {
-        return res.status(401).json({ message: "Authentication required" });
+      if (recipe.authorId !== userId) {
+        return sendError(res, 403, "Only the recipe's author can restore a version", "FORBIDDEN");
       }
-      
-      const dbRecipe = await storage.getRecipeById(req.params.id, userId);
-      if (!dbRecipe) {
-        return res.status(404).json({ message: "Recipe not found" });
+
+      const version = await storage.getRecipeVersion(req.params.id, versionNumber);
+      if (!version) {
+        return sendError(res, 404, "Version not found", "NOT_FOUND");
       }
-      
-      // Add ingredient matching for database recipes too
-      const inventory = await storage.getKitchenInventory(userId);
-      const inventoryNames = new Set(inventory.map(item => item.name.toLowerCase()));
-      
-      const ingredients = (dbRecipe.ingredients as any) || [];
-      const ownedIngredients = ingredients.filter((ing: any) => 
-        inventoryNames.has(ing.name.toLowerCase())
-      );
-      const missingIngredients = ingredients.filter((ing: any) => 
-        !inventoryNames.has(ing.name.toLowerCase())
-      );
-      
-      res.json({
-        ...dbRecipe,
-        ownedIngredients,
-        missingIngredients,
-      });
+
+      const updated = await storage.updateRecipe(req.params.id, version.content, userId, versionNumber);
+      res.json(updated);
     } catch (error) {
-      console.error("Error getting recipe:", error);
-      res.status(500).json({ message: "Internal server error" });
+      console.error("Error restoring recipe version:", error);
+      sendError(res, 500, "Internal server error");
     }
   });
 
-  app.post("/api/recipes/:id/rate", isAuthenticated, async (req, res) => {
+  // Fork a recipe into a private personal variant. The body may carry edits
+  // (e.g. a name, oat milk instead of milk) to apply to the copy.
+  app.post("/api/recipes/:id/fork", isAuthenticated, async (req, res) => {
     try {
       const userId = (req as any).user.dbUserId;
-      const { rating, comment } = req.body;
+      const { updateRecipeSchema } = await import('@shared/schema');
+      const validation = updateRecipeSchema.safeParse({
+        ...req.body,
+        ingredients: req.body?.ingredients === undefined ? undefined : normalizeRecipeIngredients(req.body.ingredients),
+      });
 
-      if (typeof rating !== "number" || rating < 1 || rating > 5) {
-        return res.status(400).json({ message: "Rating must be between 1 and 5" });
+      if (!validation.success) {
+        return sendError(res, 400, "Validation error", "VALIDATION_ERROR", validation.error.errors);
       }
 
-      await storage.rateRecipe({
-        recipeId: req.params.id,
-        userId: userId,
-        rating,
-        comment: comment || null,
-      });
+      if (!(await ensureRecipeStored(req.params.id, userId))) {
+        return sendError(res, 404, "Recipe not found", "NOT_FOUND");
+      }
+      const parent = await storage.getRecipeById(req.params.id, userId);
 
-      res.json({ message: "Rating submitted successfully" });
+      // One variant per recipe, so there's no doubt which one to cook
+      const existing = (await storage.getUserVariants(userId, [parent.id])).get(parent.id);
+      if (existing) {
+        return res.status(409).json({
+          message: "You already have a variant of this recipe",
+          code: "VARIANT_EXISTS",
+          variantId: existing.id,
+        });
+      }
+      if (validation.data.visibility === "family" && !(await storage.getUserFamilyId(userId))) {
+        return sendError(res, 400, "Join a family to share recipes with it", "NO_FAMILY");
+      }
+
+      const variant = await storage.forkRecipe(parent, userId, validation.data);
+      res.json(variant);
     } catch (error) {
-      console.error("Error rating recipe:", error);
-      res.status(500).json({ message: "Internal server error" });
+      console.error("Error forking recipe:", error);
+      sendError(res, 500, "Internal server error");
     }
   });
 
-  app.get("/api/recipes/recommended", isAuthenticated, async (req, res) => {
+  // Variants of a recipe the user can see
+  app.get("/api/recipes/:id/variants", isAuthenticated, async (req, res) => {
     try {
       const userId = (req as any).user.dbUserId;
-      const recipes = await storage.getRecommendedRecipes(userId);
-      res.json(recipes);
+      if (!(await storage.canViewRecipe(req.params.id, userId))) {
+        return sendError(res, 404, "Recipe not found", "NOT_FOUND");
+      }
+
+      const variants = await storage.getRecipeVariants(req.params.id, userId);
+      res.json(variants);
     } catch (error) {
-      console.error("Error getting recommended recipes:", error);
-      res.status(500).json({ message: "Internal server error" });
+      console.error("Error getting recipe variants:", error);
+      sendError(res, 500, "Internal server error");
     }
   });
 
-  app.post("/api/recipes", isAuthenticated, async (req, res) => {
+  // What a variant changes compared with the current version of its parent
+  app.get("/api/recipes/:id/parent-diff", isAuthenticated, async (req, res) => {
     try {
-      const validatedData = insertRecipeSchema.parse(req.body);
-      const recipe = await storage.addRecipe(validatedData);
-      res.json(recipe);
-    } catch (error: any) {
-      console.error("Error adding recipe:", error);
-      if (error.name === "ZodError") {
-        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      const userId = (req as any).user.dbUserId;
+      const variant = await storage.getRecipeById(req.params.id, userId);
+      if (!variant) {
+        return sendError(res, 404, "Recipe not found", "NOT_FOUND");
       }
-      res.status(500).json({ message: "Internal server error" });
+
+      const parent = variant.parentRecipeId ? await storage.getRecipeById(variant.parentRecipeId, userId) : null;
+      if (!parent) {
+        return sendError(res, 404, "This recipe isn't a variant of a recipe you can see", "NOT_FOUND");
+      }
+
+      res.json({
+        parent: { id: parent.id, name: parent.name },
+        diff: diffRecipeContent(getRecipeContent(parent), getRecipeContent(variant)),
+      });
+    } catch (error) {
+      console.error("Error comparing recipe with parent:", error);
+      sendError(res, 500, "Internal server error");
     }
   });
 
@@ -482,6 +1270,9 @@ export function registerRoutes(app: Express) {
         recipeId: req.params.id,
         userId: userId,
       });
+      if (!(await ensureRecipeStored(req.params.id, userId))) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
       const rating = await storage.addRecipeRating(validatedData);
       res.json(rating);
     } catch (error: any) {
@@ -507,6 +1298,10 @@ export function registerRoutes(app: Express) {
         return res.status(400).json({ message: "interactionType must be 'view' or 'search'" });
       }
 
+      if (!(await ensureRecipeStored(recipeId, userId))) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+
       if (interactionType === 'view') {
         await storage.trackRecipeView(userId, recipeId);
       } else {
@@ -550,14 +1345,27 @@ export function registerRoutes(app: Express) {
       
       // Parse discriminated union
       const requestData = mealPlanRequestSchema.parse(req.body);
+
+      const recipeIds = requestData.variant === "simple"
+        ? [requestData.recipeId]
+        : requestData.seats.map(seat => seat.recipeId);
+      const missingRecipes = await ensureRecipesStored(recipeIds, userId);
+      if (missingRecipes.length > 0) {
+        return res.status(404).json({ message: "Recipe not found", recipeIds: missingRecipes });
+      }
+      // Plan the user's own variants where they have them
+      const planRecipe = await preferUserVariants(userId, recipeIds, requestData.useOriginalRecipe);
       
       if (requestData.variant === "simple") {
         // Legacy single-recipe meal plan
+        // Cook for the household unless a serving count was chosen
+        const servings = requestData.servings ?? (await storage.getUserById(userId))?.householdSize ?? null;
         const mealPlan = await storage.addMealPlan({
           userId,
           familyId: requestData.familyId,
-          recipeId: requestData.recipeId,
+          recipeId: planRecipe(requestData.recipeId),
           scheduledFor: new Date(requestData.scheduledFor),
+          servings,
         });
         res.json(mealPlan);
       } else {
@@ -566,7 +1374,7 @@ export function registerRoutes(app: Express) {
           userId,
           familyId: requestData.familyId,
           scheduledFor: requestData.scheduledFor,
-          seats: requestData.seats,
+          seats: requestData.seats.map(seat => ({ ...seat, recipeId: planRecipe(seat.recipeId) })),
         });
         res.json(result);
       }
@@ -671,11 +1479,16 @@ export function registerRoutes(app: Express) {
         }
       }
 
+      const planRecipe = await preferUserVariants(
+        userId,
+        seats.filter(seat => seat.recipeId).map(seat => seat.recipeId),
+        req.body.useOriginalRecipe,
+      );
       const result = await storage.upsertMealPlanWithSeats({
         userId: familyId ? undefined : userId,
         familyId: familyId || undefined,
         date,
-        seats,
+        seats: seats.map(seat => seat.recipeId ? { ...seat, recipeId: planRecipe(seat.recipeId) } : seat),
       });
 
       res.json(result);
@@ -703,9 +1516,14 @@ export function registerRoutes(app: Express) {
         return res.status(403).json({ message: "Forbidden: You do not have access to this meal plan" });
       }
 
+      if (!(await ensureRecipeStored(recipeId, userId))) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+
+      const planRecipe = await preferUserVariants(userId, [recipeId], req.body.useOriginalRecipe);
       const assignment = await storage.assignRecipeToSeat({
         seatId: req.params.seatId,
-        recipeId,
+        recipeId: planRecipe(recipeId),
       });
 
       res.json(assignment);
@@ -819,6 +1637,10 @@ export function registerRoutes(app: Express) {
 
       const { recipeId, portionSize, mealType } = validation.data;
 
+      if (!(await ensureRecipeStored(recipeId, userId))) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+
       const meal = await storage.addMealToNutritionLog({
         userId,
         date,
@@ -1095,6 +1917,15 @@ export function registerRoutes(app: Express) {
         return res.status(400).json({ message: "Recipe ID is required" });
       }
 
+      const servings = parseServings(req.body.servings);
+      if (servings === null) {
+        return res.status(400).json({ message: `Servings must be a whole number between 1 and ${MAX_SERVINGS}` });
+      }
+
+      if (!(await ensureRecipeStored(recipeId, userId))) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+
       // Check if user already has an active session
       const existingSession = await storage.getActiveCookingSession(userId);
       if (existingSession) {
@@ -1104,12 +1935,14 @@ export function registerRoutes(app: Express) {
         });
       }
 
+      // Cook the user's own variant of the recipe when they have one
+      const cookRecipe = await preferUserVariants(userId, [recipeId], req.body.useOriginalRecipe);
       const session = await storage.createCookingSession({
         userId,
-        recipeId,
+        recipeId: cookRecipe(recipeId),
         currentStep: 0,
         status: 'active',
-        timers: [],
+        servings: servings ?? null,
       });
 
       res.json(session);
@@ -1133,12 +1966,11 @@ export function registerRoutes(app: Express) {
   app.put("/api/cooking-sessions/:id", isAuthenticated, async (req, res) => {
     try {
       const { id } = req.params;
-      const { currentStep, status, timers } = req.body;
+      const { currentStep, status } = req.body;
 
       const session = await storage.updateCookingSessionProgress(id, {
         currentStep,
         status,
-        timers,
       });
 
       res.json(session);
@@ -1150,13 +1982,22 @@ export function registerRoutes(app: Express) {
 
   app.post("/api/cooking-sessions/:id/complete", isAuthenticated, async (req, res) => {
     try {
+      const userId = (req as any).user.dbUserId;
       const { id } = req.params;
-      const { deductIngredients } = req.body;
+      const { deductIngredients, servings } = req.body;
 
-      const result = await storage.completeCookingSession(
-        id,
-        deductIngredients === true
-      );
+      if (servings !== undefined && (typeof servings !== "number" || servings <= 0)) {
+        return res.status(400).json({ message: "Servings must be a positive number" });
+      }
+
+      const result = await storage.completeCookingSession(id, userId, {
+        deductIngredients: deductIngredients === true,
+        servings,
+      });
+
+      if (!result) {
+        return res.status(404).json({ message: "Cooking session not found" });
+      }
 
       res.json(result);
     } catch (error) {
@@ -1165,6 +2006,104 @@ export function registerRoutes(app: Express) {
     }
   });
 
+  // Cooking timers. Timers live on the server so they keep running (and
+  // notify) when the screen locks, and show up on every device.
+  app.get("/api/cooking-sessions/:id/timers", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const session = await storage.getCookingSession(req.params.id, userId);
+      if (!session) {
+        return sendError(res, 404, "Cooking session not found", "NOT_FOUND");
+      }
+
+      const now = new Date();
+      const timers = await storage.getCookingTimers(session.id);
+      res.json(timers.map(timer => withRemainingSeconds(timer, now)));
+    } catch (error) {
+      console.error("Error getting cooking timers:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  app.post("/api/cooking-sessions/:id/timers", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const { createCookingTimerSchema } = await import('@shared/schema');
+      const validation = createCookingTimerSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return sendError(res, 400, "Validation error", "VALIDATION_ERROR", validation.error.errors);
+      }
+
+      const session = await storage.getCookingSession(req.params.id, userId);
+      if (!session) {
+        return sendError(res, 404, "Cooking session not found", "NOT_FOUND");
+      }
+      if (session.status !== 'active' && session.status !== 'paused') {
+        return sendError(res, 409, "This cooking session has ended", "SESSION_ENDED");
+      }
+
+      const timer = await storage.createCookingTimer(session.id, userId, validation.data);
+      scheduleCookingTimerCheck(timer.endsAt ?? undefined);
+      res.status(201).json(withRemainingSeconds(timer));
+    } catch (error) {
+      console.error("Error starting cooking timer:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  // Pause or resume a timer
+  app.patch("/api/cooking-sessions/:id/timers/:timerId", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const { updateCookingTimerSchema } = await import('@shared/schema');
+      const validation = updateCookingTimerSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return sendError(res, 400, "Validation error", "VALIDATION_ERROR", validation.error.errors);
+      }
+
+      const session = await storage.getCookingSession(req.params.id, userId);
+      if (!session) {
+        return sendError(res, 404, "Cooking session not found", "NOT_FOUND");
+      }
+
+      const timer = validation.data.action === 'pause'
+        ? await storage.pauseCookingTimer(req.params.timerId, session.id)
+        : await storage.resumeCookingTimer(req.params.timerId, session.id);
+      if (!timer) {
+        const message = validation.data.action === 'pause' ? "Only a running timer can be paused" : "Only a paused timer can be resumed";
+        return sendError(res, 409, message, "INVALID_TIMER_STATE");
+      }
+
+      if (timer.status === 'running') scheduleCookingTimerCheck(timer.endsAt ?? undefined);
+      res.json(withRemainingSeconds(timer));
+    } catch (error) {
+      console.error("Error updating cooking timer:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  // Cancel a running timer or dismiss a finished one
+  app.delete("/api/cooking-sessions/:id/timers/:timerId", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const session = await storage.getCookingSession(req.params.id, userId);
+      if (!session) {
+        return sendError(res, 404, "Cooking session not found", "NOT_FOUND");
+      }
+
+      const deleted = await storage.deleteCookingTimer(req.params.timerId, session.id);
+      if (!deleted) {
+        return sendError(res, 404, "Timer not found", "NOT_FOUND");
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting cooking timer:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
   // AI Chat routes
   app.get("/api/chat/messages", isAuthenticated, async (req, res) => {
     try {
@@ -1198,7 +2137,7 @@ export function registerRoutes(app: Express) {
       const upcomingMeals = await storage.getUpcomingMeals(userId);
       const family = await storage.getFamily(userId);
       // Get limited recipe summaries for AI context (optimized query)
-      const recipeSummaries = await storage.getRecipeSummaries(15);
+      const recipeSummaries = await storage.getRecipeSummaries(15, undefined, userId);
       
       // Build context-aware system message
       let contextInfo = `You are a helpful kitchen assistant. Help users with recipes, meal planning, cooking tips, and ingredient suggestions. Be concise and friendly.\n\n`;
@@ -1282,6 +2221,19 @@ export function registerRoutes(app: Express) {
         content: aiResponse,
       });
 
+      // Structured items for shopping lists the assistant wrote out, ready to
+      // save with POST /api/shopping-lists/:listId/items
+      if (/\b(shopping|grocery)\b/i.test(content)) {
+        const shoppingListItems = extractIngredientLines(aiResponse).map(item => ({
+          name: item.name,
+          quantity: item.amount || "1",
+          unit: item.unit || null,
+          ...(item.preparation && { note: item.preparation }),
+          ...(item.optional && { optional: true }),
+        }));
+        return res.json({ ...assistantMessage, shoppingListItems });
+      }
+
       res.json(assistantMessage);
     } catch (error) {
       console.error("Error processing chat message:", error);
@@ -1540,7 +2492,66 @@ export function registerRoutes(app: Express) {
   app.get("/api/shopping-lists/suggestions/meal-plans", isAuthenticated, async (req, res) => {
     try {
       const userId = (req as any).user.dbUserId;
-      const suggestions = await storage.getShoppingListSuggestions(userId);
+      const { from, to, days, scope = 'personal', eventId } = req.query;
+
+      if (scope !== 'personal' && scope !== 'family' && scope !== 'event') {
+        return sendError(res, 400, "Scope must be 'personal', 'family' or 'event'", "VALIDATION_ERROR");
+      }
+
+      const fromDate = typeof from === 'string' ? new Date(from) : new Date();
+      let toDate: Date | undefined;
+      if (typeof to === 'string') {
+        toDate = new Date(to);
+        // A bare date includes the whole day
+        if (/^\d{4}-\d{2}-\d{2}$/.test(to)) toDate.setUTCHours(23, 59, 59, 999);
+      } else if (typeof days === 'string') {
+        const horizon = parseInt(days);
+        if (isNaN(horizon) || horizon < 1 || horizon > 90) {
+          return sendError(res, 400, "Days must be between 1 and 90", "VALIDATION_ERROR");
+        }
+        toDate = new Date(fromDate.getTime() + horizon * 24 * 60 * 60 * 1000);
+      }
+
+      if (isNaN(fromDate.getTime()) || (toDate && isNaN(toDate.getTime()))) {
+        return sendError(res, 400, "Invalid date range", "VALIDATION_ERROR");
+      }
+      if (toDate && toDate < fromDate) {
+        return sendError(res, 400, "End date must be after start date", "VALIDATION_ERROR");
+      }
+
+      let familyId: string | undefined;
+      if (scope === 'family') {
+        const family = await storage.getFamily(userId);
+        if (!family) {
+          return sendError(res, 404, "You are not part of a family", "NOT_FOUND");
+        }
+        familyId = family.id;
+      }
+
+      if (scope === 'event') {
+        if (typeof eventId !== 'string') {
+          return sendError(res, 400, "Event ID is required for event scope", "VALIDATION_ERROR");
+        }
+        const event = await storage.getEventById(eventId);
+        if (!event) {
+          return sendError(res, 404, "Event not found", "NOT_FOUND");
+        }
+        let hasAccess = event.userId === userId;
+        if (!hasAccess && event.familyId) {
+          hasAccess = await storage.isUserFamilyMember(userId, event.familyId);
+        }
+        if (!hasAccess) {
+          return sendError(res, 403, "You don't have access to this event", "FORBIDDEN");
+        }
+      }
+
+      const suggestions = await storage.getShoppingListSuggestions(userId, {
+        from: fromDate,
+        to: toDate,
+        scope,
+        familyId,
+        eventId: scope === 'event' ? eventId as string : undefined,
+      });
       res.json(suggestions);
     } catch (error) {
       console.error("Error getting shopping list suggestions:", error);
@@ -1690,8 +2701,8 @@ export function registerRoutes(app: Express) {
   app.post("/api/inventory-review-queue/:itemId/approve", isAuthenticated, async (req, res) => {
     try {
       const userId = (req as any).user.dbUserId;
-      // Note: category and expirationDate not yet supported by storage method
-      // Uses categoryGuess from review item itself
+      // Location comes from where the household usually keeps this item,
+      // falling back to the review item's categoryGuess
       const result = await storage.approveReviewItem(req.params.itemId, userId);
       
       if (!result) {
@@ -1733,6 +2744,86 @@ export function registerRoutes(app: Express) {
     }
   });
 
+  app.get("/api/notifications/preferences", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const user = await storage.getUserById(userId);
+      if (!user) {
+        return sendError(res, 404, "User not found", "NOT_FOUND");
+      }
+      res.json({
+        expirationReminders: {
+          enabled: user.expirationRemindersEnabled,
+          leadDays: user.expirationReminderDays,
+        },
+      });
+    } catch (error) {
+      console.error("Error getting notification preferences:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  app.put("/api/notifications/preferences", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const { updateExpirationReminderPreferencesSchema } = await import('@shared/schema');
+      const validation = updateExpirationReminderPreferencesSchema.safeParse(req.body?.expirationReminders ?? {});
+
+      if (!validation.success) {
+        return sendError(res, 400, "Validation error", "VALIDATION_ERROR", validation.error.errors);
+      }
+
+      const user = await storage.updateExpirationReminderPreferences(userId, validation.data);
+      if (!user) {
+        return sendError(res, 404, "User not found", "NOT_FOUND");
+      }
+      res.json({
+        expirationReminders: {
+          enabled: user.expirationRemindersEnabled,
+          leadDays: user.expirationReminderDays,
+        },
+      });
+    } catch (error) {
+      console.error("Error updating notification preferences:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  app.get("/api/ingredient-matching/preferences", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const user = await storage.getUserById(userId);
+      if (!user) {
+        return sendError(res, 404, "User not found", "NOT_FOUND");
+      }
+      res.json({ minConfidence: user.ingredientMatchConfidence });
+    } catch (error) {
+      console.error("Error getting ingredient matching preferences:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
+  app.put("/api/ingredient-matching/preferences", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.dbUserId;
+      const { updateIngredientMatchingPreferencesSchema } = await import('@shared/schema');
+      const validation = updateIngredientMatchingPreferencesSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return sendError(res, 400, "Validation error", "VALIDATION_ERROR", validation.error.errors);
+      }
+
+      const user = await storage.updateIngredientMatchingPreferences(userId, validation.data);
+      if (!user) {
+        return sendError(res, 404, "User not found", "NOT_FOUND");
+      }
+      res.json({ minConfidence: user.ingredientMatchConfidence });
+    } catch (error) {
+      console.error("Error updating ingredient matching preferences:", error);
+      sendError(res, 500, "Internal server error");
+    }
+  });
+
   app.patch("/api/notifications/:notificationId/read", isAuthenticated, async (req, res) => {
     try {
       const userId = (req as any).user.dbUserId;
@@ -1755,31 +2846,29 @@ export function registerRoutes(app: Express) {
 
   // ============= FEED & POLLS ROUTES =============
 
-  // Featured recipes for stories bar - fetch from Spoonacular API
+  // Featured recipes for stories bar - fetch from the recipe providers
   app.get("/api/feed/stories", optionalAuth, async (req, res) => {
     const limit = parseInt(req.query.limit as string) || 20;
     
     try {
-      // Fetch diverse recipes with images from Spoonacular
-      const apiRecipes = await searchSpoonacularRecipes({
+      // Fetch diverse recipes with images
+      const { recipes: apiRecipes } = await searchRecipeProviders({
         limit: Math.min(limit, 50), // Cap at 50 for performance
         offset: 0,
       });
       
       // Filter to only recipes with images for stories
       const recipesWithImages = apiRecipes.filter(recipe => recipe.imageUrl);
+      if (recipesWithImages.length > 0) {
+        return res.json(recipesWithImages);
+      }
       
-      res.json(recipesWithImages);
+      // Fallback to database recipes if no provider answered
+      const recipes = await storage.getFeaturedRecipes(limit);
+      res.json(recipes);
     } catch (error) {
       console.error("Error getting featured recipes:", error);
-      // Fallback to database recipes if API fails
-      try {
-        const recipes = await storage.getFeaturedRecipes(limit);
-        res.json(recipes);
-      } catch (fallbackError) {
-        console.error("Fallback also failed:", fallbackError);
-        sendError(res, 500, "Internal server error");
-      }
+      sendError(res, 500, "Internal server error");
     }
   });
 
@@ -1794,8 +2883,8 @@ export function registerRoutes(app: Express) {
       const recipeCount = Math.ceil(limit * 0.6); // 60% recipes
       const pollCount = Math.floor(limit * 0.4); // 40% polls
       
-      // Fetch recipe recommendations from Spoonacular
-      const recipes = await searchSpoonacularRecipes({
+      // Fetch recipe recommendations from the recipe providers
+      const { recipes } = await searchRecipeProviders({
         limit: recipeCount,
         offset: 0,
       });
@@ -0,0 +1,234 @@
+/**
+ * Background Scheduler
+ *
+ * Runs server-side background jobs:
+ * - Daily expiration reminders for inventory items about to expire
+ * - Re-normalizing stored ingredient names when the alias dictionary changes
+ * - "Timer finished" notifications for cooking-mode timers
+ */
+
+import { storage } from "./storage";
+import { getExpiringItems, getDaysRemaining } from "./expirationService";
+import { formatTimerDuration } from "./cookingTimers";
+import { log } from "./vite";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest the timer check sleeps, so timers started on another instance are
+// still picked up promptly
+const MAX_TIMER_CHECK_MS = 60 * 1000;
+
+// Local hour at which the daily jobs run (default 8am)
+const DAILY_RUN_HOUR = parseInt(process.env.SCHEDULER_DAILY_HOUR || "8", 10);
+
+let dailyTimer: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+let timerCheck: NodeJS.Timeout | null = null;
+let timerCheckAt: number | null = null;
+let checkingTimers = false;
+
+let renormalizing = false;
+let renormalizeAgain = false;
+
+/**
+ * Create an "expiring items" notification for every opted-in user with items
+ * expiring within their lead time. At most one reminder is sent per user per day.
+ */
+export async function runExpirationReminders(now: Date = new Date()): Promise<number> {
+  const startOfToday = new Date(now);
+  startOfToday.setHours(0, 0, 0, 0);
+  const today = `${startOfToday.getFullYear()}-${startOfToday.getMonth() + 1}-${startOfToday.getDate()}`;
+
+  const recipients = await storage.getUsersWithExpirationReminders();
+  let sent = 0;
+
+  for (const user of recipients) {
+    try {
+      const leadDays = user.expirationReminderDays;
+      const inventory = await storage.getKitchenInventory(user.id);
+      const expiring = getExpiringItems(inventory, leadDays, now);
+      if (expiring.length === 0) continue;
+
+      // Cheap early skip; the dedupe key below is what stops a second instance sending it too
+      if (await storage.hasNotificationSince(user.id, 'expiring_items', startOfToday)) continue;
+
+      const [suggestedRecipe] = await storage.getRecommendedRecipes(user.id, {
+        mode: 'expiring',
+        withinDays: leadDays,
+        limit: 1,
+      });
+
+      const items = expiring
+        .map(item => ({
+          id: item.id,
+          name: item.name,
+          expirationDate: item.expirationDate,
+          daysRemaining: getDaysRemaining(item.expirationDate!, now),
+        }))
+        .sort((a, b) => a.daysRemaining - b.daysRemaining);
+
+      const names = items.slice(0, 3).map(item => item.name).join(", ");
+      const more = items.length > 3 ? ` and ${items.length - 3} more` : "";
+
+      const notification = await storage.createNotificationOnce({
+        recipientUserId: user.id,
+        type: 'expiring_items',
+        dedupeKey: `expiring_items:${user.id}:${today}`,
+        title: items.length === 1 ? `${items[0].name} is expiring soon` : `${items.length} items are expiring soon`,
+        message: suggestedRecipe
+          ? `Use up ${names}${more} - try ${suggestedRecipe.name}.`
+          : `Use up ${names}${more} before they go bad.`,
+        payload: {
+          items,
+          suggestedRecipe: suggestedRecipe ? { id: suggestedRecipe.id, name: suggestedRecipe.name } : null,
+        },
+      });
+      if (notification) sent++;
+    } catch (error) {
+      console.error(`Error sending expiration reminder to user ${user.id}:`, error);
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Finish every running cooking timer that is due and notify its owner.
+ */
+export async function runCookingTimerNotifications(now: Date = new Date()): Promise<number> {
+  const finished = await storage.finishDueCookingTimers(now);
+
+  for (const { timer, recipeId, recipeName } of finished) {
+    try {
+      await storage.createNotification({
+        recipientUserId: timer.userId,
+        type: 'timer_finished',
+        title: `${timer.label} timer is done`,
+        message: `Your ${formatTimerDuration(timer.durationSeconds)} timer for ${recipeName} has finished.`,
+        payload: {
+          sessionId: timer.sessionId,
+          timerId: timer.id,
+          recipeId,
+          stepNumber: timer.stepNumber,
+          label: timer.label,
+        },
+      });
+    } catch (error) {
+      console.error(`Error sending timer notification for timer ${timer.id}:`, error);
+    }
+  }
+
+  return finished.length;
+}
+
+/**
+ * Wake up when the next cooking timer is due (or by `at`, if sooner).
+ * Called on startup and whenever a timer is started or resumed.
+ */
+export function scheduleCookingTimerCheck(at?: Date) {
+  const now = Date.now();
+  const wakeAt = Math.min(at ? at.getTime() : Infinity, now + MAX_TIMER_CHECK_MS);
+  // Keep an earlier wake-up that's already scheduled
+  if (timerCheck && timerCheckAt !== null && timerCheckAt <= wakeAt) return;
+
+  if (timerCheck) clearTimeout(timerCheck);
+  timerCheckAt = wakeAt;
+  timerCheck = setTimeout(runCookingTimerCheck, Math.max(0, wakeAt - now));
+  timerCheck.unref();
+}
+
+async function runCookingTimerCheck() {
+  timerCheck = null;
+  timerCheckAt = null;
+  if (checkingTimers) return;
+
+  checkingTimers = true;
+  let nextEnd: Date | null = null;
+  try {
+    const sent = await runCookingTimerNotifications();
+    if (sent > 0) log(`sent ${sent} timer notification(s)`, "scheduler");
+    nextEnd = await storage.getNextCookingTimerEnd();
+  } catch (error) {
+    console.error("Error checking cooking timers:", error);
+  } finally {
+    checkingTimers = false;
+  }
+  // Keep polling only while the scheduler is running
+  if (dailyTimer) scheduleCookingTimerCheck(nextEnd ?? undefined);
+}
+
+async function runDailyJobs() {
+  if (isRunning) return;
+  isRunning = true;
+  try {
+    const sent = await runExpirationReminders();
+    log(`sent ${sent} expiration reminder(s)`, "scheduler");
+  } catch (error) {
+    console.error("Error running daily scheduled jobs:", error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+function msUntilNextRun(now: Date = new Date()): number {
+  const next = new Date(now);
+  next.setHours(DAILY_RUN_HOUR, 0, 0, 0);
+  if (next <= now) {
+    next.setTime(next.getTime() + DAY_MS);
+  }
+  return next.getTime() - now.getTime();
+}
+
+/**
+ * Re-normalize stored ingredient names in the background. Requests made while
+ * a run is in progress trigger one more run afterwards.
+ */
+export function requestIngredientRenormalization() {
+  if (renormalizing) {
+    renormalizeAgain = true;
+    return;
+  }
+
+  renormalizing = true;
+  (async () => {
+    do {
+      renormalizeAgain = false;
+      try {
+        const counts = await storage.renormalizeIngredientNames();
+        log(`re-normalized ${counts.inventory} inventory, ${counts.shoppingListItems} shopping, ${counts.reviewQueue} review item(s) and ${counts.events} event(s)`, "scheduler");
+      } catch (error) {
+        console.error("Error re-normalizing ingredient names:", error);
+      }
+    } while (renormalizeAgain);
+    renormalizing = false;
+  })();
+}
+
+export function startScheduler() {
+  if (dailyTimer) return;
+
+  const scheduleNext = () => {
+    dailyTimer = setTimeout(async () => {
+      await runDailyJobs();
+      scheduleNext();
+    }, msUntilNextRun());
+    // Don't keep the process alive just for the scheduler
+    dailyTimer.unref();
+  };
+
+  scheduleNext();
+  scheduleCookingTimerCheck(new Date());
+}
+
+export function stopScheduler() {
+  if (dailyTimer) {
+    clearTimeout(dailyTimer);
+    dailyTimer = null;
+  }
+  if (timerCheck) {
+    clearTimeout(timerCheck);
+    timerCheck = null;
+    timerCheckAt = null;
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Shelf Life Service
+ *
+ * Typical shelf life of common ingredients per storage category, used to
+ * estimate an expiration date when none is entered. Keys are normalized
+ * ingredient names (see normalizationService).
+ */
+
+import { normalizeIngredientName } from "./normalizationService";
+
+export type StorageCategory = "fridge" | "freezer" | "pantry" | "other";
+
+type ShelfLife = Partial<Record<StorageCategory, number>>; // days
+
+const SHELF_LIFE_DAYS: Record<string, ShelfLife> = {
+  // Dairy & eggs
+  "milk": { fridge: 7, freezer: 90 },
+  "buttermilk": { fridge: 14, freezer: 90 },
+  "heavy cream": { fridge: 10, freezer: 120 },
+  "sour cream": { fridge: 14 },
+  "yogurt": { fridge: 14, freezer: 60 },
+  "greek yogurt": { fridge: 14, freezer: 60 },
+  "butter": { fridge: 60, freezer: 270 },
+  "cheese": { fridge: 28, freezer: 180 },
+  "cheddar": { fridge: 42, freezer: 180 },
+  "parmesan": { fridge: 90, freezer: 270 },
+  "mozzarella": { fridge: 14, freezer: 120 },
+  "cream cheese": { fridge: 14 },
+  "egg": { fridge: 28 },
+
+  // Meat & fish
+  "chicken": { fridge: 2, freezer: 270 },
+  "turkey": { fridge: 2, freezer: 270 },
+  "beef": { fridge: 3, freezer: 180 },
+  "pork": { fridge: 3, freezer: 180 },
+  "lamb": { fridge: 3, freezer: 180 },
+  "bacon": { fridge: 7, freezer: 30 },
+  "sausage": { fridge: 2, freezer: 60 },
+  "ham": { fridge: 5, freezer: 60 },
+  "salmon": { fridge: 2, freezer: 90 },
+  "fish": { fridge: 2, freezer: 180 },
+  "shrimp": { fridge: 2, freezer: 180 },
+  "tofu": { fridge: 5, freezer: 150 },
+
+  // Produce
+  "apple": { fridge: 30, pantry: 7 },
+  "banana": { pantry: 5, freezer: 90 },
+  "orange": { fridge: 21, pantry: 7 },
+  "lemon": { fridge: 21, pantry: 7 },
+  "lime": { fridge: 21, pantry: 7 },
+  "strawberry": { fridge: 5, freezer: 240 },
+  "blueberry": { fridge: 7, freezer: 240 },
+  "raspberry": { fridge: 3, freezer: 240 },
+  "grape": { fridge: 10 },
+  "avocado": { fridge: 5, pantry: 4 },
+  "tomato": { fridge: 7, pantry: 5 },
+  "lettuce": { fridge: 7 },
+  "spinach": { fridge: 5, freezer: 240 },
+  "kale": { fridge: 7, freezer: 240 },
+  "broccoli": { fridge: 5, freezer: 300 },
+  "cauliflower": { fridge: 7, freezer: 300 },
+  "carrot": { fridge: 28 },
+  "celery": { fridge: 14 },
+  "cucumber": { fridge: 7 },
+  "zucchini": { fridge: 7 },
+  "bell pepper": { fridge: 10, freezer: 240 },
+  "mushroom": { fridge: 7 },
+  "green onion": { fridge: 7 },
+  "cilantro": { fridge: 7 },
+  "parsley": { fridge: 10 },
+  "basil": { fridge: 5, pantry: 5 },
+  "corn": { fridge: 3, freezer: 240 },
+  "pea": { fridge: 5, freezer: 240 },
+  "onion": { pantry: 30, fridge: 60 },
+  "garlic": { pantry: 90 },
+  "potato": { pantry: 30 },
+  "sweet potato": { pantry: 21 },
+  "ginger": { fridge: 21, freezer: 180 },
+
+  // Bakery
+  "bread": { pantry: 5, freezer: 90 },
+  "tortilla": { pantry: 7, fridge: 21, freezer: 180 },
+
+  // Pantry staples
+  "flour": { pantry: 240 },
+  "sugar": { pantry: 730 },
+  "rice": { pantry: 730 },
+  "pasta": { pantry: 730 },
+  "oat": { pantry: 365 },
+  "lentil": { pantry: 365 },
+  "bean": { pantry: 365 },
+  "quinoa": { pantry: 365 },
+  "honey": { pantry: 730 },
+  "olive oil": { pantry: 365 },
+  "oil": { pantry: 365 },
+  "vinegar": { pantry: 730 },
+  "peanut butter": { pantry: 90 },
+  "cereal": { pantry: 180 },
+  "coffee": { pantry: 180, freezer: 365 },
+  "tea": { pantry: 365 },
+
+  // Condiments
+  "ketchup": { fridge: 180 },
+  "mustard": { fridge: 365 },
+  "mayonnaise": { fridge: 60 },
+  "soy sauce": { pantry: 730 },
+  "salsa": { fridge: 14 },
+  "hummus": { fridge: 7 },
+  "jam": { fridge: 180 },
+};
+
+// Fallbacks for items that aren't in the table
+const CATEGORY_DEFAULT_DAYS: Partial<Record<StorageCategory, number>> = {
+  freezer: 90,
+};
+
+// Try the full name, then shorter suffixes ("ground beef" -> "beef") and
+// prefixes ("chicken breast" -> "chicken") so variants still resolve
+function lookupShelfLife(normalizedName: string): ShelfLife | null {
+  if (SHELF_LIFE_DAYS[normalizedName]) return SHELF_LIFE_DAYS[normalizedName];
+
+  const words = normalizedName.split(" ");
+  for (let i = 1; i < words.length; i++) {
+    const suffix = words.slice(i).join(" ");
+    if (SHELF_LIFE_DAYS[suffix]) return SHELF_LIFE_DAYS[suffix];
+  }
+  for (let i = words.length - 1; i > 0; i--) {
+    const prefix = words.slice(0, i).join(" ");
+    if (SHELF_LIFE_DAYS[prefix]) return SHELF_LIFE_DAYS[prefix];
+  }
+  return null;
+}
+
+/**
+ * Typical shelf life in days for an ingredient kept in the given storage
+ * category, or null if we don't know it
+ */
+export function estimateShelfLifeDays(ingredientName: string, category: StorageCategory | null | undefined): number | null {
+  const storage = category || "fridge";
+  const entry = lookupShelfLife(normalizeIngredientName(ingredientName));
+
+  if (entry?.[storage] !== undefined) return entry[storage]!;
+  // "other" storage behaves like the pantry for our purposes
+  if (storage === "other" && entry?.pantry !== undefined) return entry.pantry;
+  return null;
+}
+
+/**
+ * Generic shelf life for anything kept in a storage category, used only
+ * when nothing more specific is known
+ */
+export function getCategoryDefaultShelfLifeDays(category: StorageCategory | null | undefined): number | null {
+  return CATEGORY_DEFAULT_DAYS[category || "fridge"] ?? null;
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { RecipeIngredient } from "@shared/schema";
+import { getShoppingShortfalls, type PlannedRecipe, type ShoppingInventoryItem } from "./shoppingSuggestions";
+import { setIngredientAliasDictionary, getBuiltInIngredientAliases } from "./normalizationService";
+
+function planned(name: string, ingredients: RecipeIngredient[], servings: number | null = null, recipeServings = 4): PlannedRecipe {
+  return { recipe: { name, ingredients, servings: recipeServings }, servings };
+}
+
+function item(id: string, name: string, quantity: string | null, unit: string): ShoppingInventoryItem {
+  return { id, name, normalizedName: null, familyId: null, quantity, unit };
+}
+
+test("requirements are summed across recipes and scaled to the servings cooked", () => {
+  const suggestions = getShoppingShortfalls([
+    planned("Pancakes", [{ name: "flour", amount: "2", unit: "cups" }]),
+    planned("Bread", [{ name: "flour", amount: "4", unit: "cups" }], 2),
+  ], []);
+  assert.equal(suggestions.length, 1);
+  assert.equal(suggestions[0].requiredQuantity, 4);
+  assert.equal(suggestions[0].quantity, "4");
+  assert.deepEqual(suggestions[0].recipeNames, ["Pancakes", "Bread"]);
+});
+
+test("what's on hand is taken off, across every matching item", () => {
+  const recipes = [planned("Risotto", [{ name: "rice", amount: "3", unit: "cups" }])];
+  const [partial] = getShoppingShortfalls(recipes, [item("a", "Rice", "1", "cup")]);
+  assert.equal(partial.quantity, "2");
+  assert.equal(partial.onHandQuantity, 1);
+
+  const covered = getShoppingShortfalls(recipes, [item("a", "Rice", "2", "cups"), item("b", "rice", "1", "cup")]);
+  assert.deepEqual(covered, []);
+});
+
+test("an item only counts toward one bucket of incompatible units", () => {
+  const suggestions = getShoppingShortfalls([
+    planned("Soup", [{ name: "garlic", amount: "2", unit: "cloves" }]),
+    planned("Roast", [{ name: "garlic", amount: "1", unit: "head" }]),
+  ], [item("a", "Garlic", "1", "head")]);
+  // The head covers the cloves (they can't be compared); the roast still needs one
+  assert.equal(suggestions.length, 1);
+  assert.equal(suggestions[0].unit, "head");
+  assert.equal(suggestions[0].quantity, "1");
+  assert.equal(suggestions[0].onHandQuantity, 0);
+});
+
+test("ingredients are grouped with the family's aliases", () => {
+  const recipes = [
+    planned("Fritters", [{ name: "courgette", amount: "1", unit: "" }]),
+    planned("Salad", [{ name: "zucchini", amount: "2", unit: "" }]),
+  ];
+  try {
+    setIngredientAliasDictionary([
+      ...getBuiltInIngredientAliases(),
+      { alias: "courgette", canonicalName: "zucchini", relation: "synonym", familyId: "family-1" },
+    ]);
+    assert.equal(getShoppingShortfalls(recipes, [], "family-1").length, 1);
+    assert.equal(getShoppingShortfalls(recipes, [], "family-1")[0].quantity, "3");
+    assert.equal(getShoppingShortfalls(recipes, []).length, 2);
+  } finally {
+    setIngredientAliasDictionary(getBuiltInIngredientAliases());
+  }
+});
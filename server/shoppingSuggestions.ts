@@ -0,0 +1,133 @@
+/**
+ * Shopping Suggestions
+ *
+ * Works out what to buy for a set of planned recipes: the required amount of
+ * each ingredient is summed across the recipes, then what's already in the
+ * kitchen is taken off.
+ */
+
+import type { KitchenInventory, Recipe, RecipeIngredient } from "@shared/schema";
+import { normalizeIngredientName, filterMatchingIngredients } from "./normalizationService";
+import { parseQuantity, convertQuantity, roundQuantity, addQuantities, unitsCompatible, type Quantity } from "./quantityService";
+import { getServingsScale } from "./recipeScaling";
+
+export interface PlannedRecipe {
+  recipe: Pick<Recipe, "name" | "ingredients" | "servings">;
+  servings: number | null; // null = as written
+}
+
+export type ShoppingInventoryItem = Pick<KitchenInventory, "id" | "name" | "normalizedName" | "familyId" | "quantity" | "unit">;
+
+export interface ShoppingSuggestion {
+  name: string;
+  quantity: string;
+  unit: string;
+  imageUrl?: string;
+  recipeNames: string[];
+  requiredQuantity: number;
+  onHandQuantity: number;
+}
+
+interface RequirementBucket {
+  name: string;
+  required: Quantity;
+  imageUrl?: string;
+  recipeNames: Set<string>;
+}
+
+/**
+ * What's missing to cook the planned recipes. Ingredients are grouped with
+ * the family's aliases, the same way its inventory was normalized.
+ */
+export function getShoppingShortfalls(
+  plannedRecipes: PlannedRecipe[],
+  inventory: ShoppingInventoryItem[],
+  familyId?: string | null
+): ShoppingSuggestion[] {
+  // Sum the required quantity per ingredient across every planned recipe.
+  // Amounts in incompatible units (e.g. "2 cloves" vs "1 head") stay in separate buckets.
+  const requirements = new Map<string, RequirementBucket[]>();
+
+  for (const { recipe, servings } of plannedRecipes) {
+    const recipeIngredients = (recipe.ingredients as RecipeIngredient[]) || [];
+    const scale = servings ? getServingsScale(recipe.servings, servings) : 1;
+    for (const ing of recipeIngredients) {
+      const normalized = normalizeIngredientName(ing.name, familyId);
+      const amount: Quantity = {
+        value: (parseQuantity(ing.amount)?.value ?? 1) * scale,
+        unit: ing.unit || "",
+      };
+
+      const buckets = requirements.get(normalized) || [];
+      let bucket = buckets.find(b => unitsCompatible(b.required.unit, amount.unit, ing.name));
+      if (bucket) {
+        bucket.required = addQuantities(bucket.required, amount, ing.name)!;
+      } else {
+        bucket = {
+          name: ing.name,
+          required: amount,
+          imageUrl: ing.imageUrl,
+          recipeNames: new Set(),
+        };
+        buckets.push(bucket);
+      }
+      bucket.recipeNames.add(recipe.name);
+      if (!bucket.imageUrl && ing.imageUrl) bucket.imageUrl = ing.imageUrl;
+      requirements.set(normalized, buckets);
+    }
+  }
+
+  const suggestions: ShoppingSuggestion[] = [];
+
+  // Each inventory item counts toward one requirement at most: what one
+  // bucket takes is gone for the next, so buckets in incompatible units
+  // for the same ingredient can't both count it as on hand
+  const remaining = new Map(inventory.map(item => [item.id, parseQuantity(item.quantity)?.value ?? 0]));
+  const usedUp = new Set<string>();
+
+  for (const buckets of Array.from(requirements.values())) {
+    for (const bucket of buckets) {
+      // Everything left on hand that can be expressed in the bucket's unit
+      const matches = filterMatchingIngredients(bucket.name, inventory).filter(item => !usedUp.has(item.id));
+      let onHand = 0;
+      let comparable = matches.length === 0;
+      for (const item of matches) {
+        const left = remaining.get(item.id) ?? 0;
+        const converted = convertQuantity(left, item.unit, bucket.required.unit, bucket.name);
+        if (converted === null) continue;
+        comparable = true;
+
+        const taken = Math.min(converted, bucket.required.value - onHand);
+        if (taken <= 0) continue;
+        onHand += taken;
+        if (taken >= converted) {
+          usedUp.add(item.id);
+        } else {
+          remaining.set(item.id, left * (1 - taken / converted));
+        }
+      }
+
+      // Items we hold in an incomparable unit are treated as covering the
+      // bucket, and aren't counted again
+      if (!comparable) {
+        for (const item of matches) usedUp.add(item.id);
+        continue;
+      }
+
+      const shortfall = roundQuantity(bucket.required.value - onHand);
+      if (shortfall <= 0) continue;
+
+      suggestions.push({
+        name: bucket.name,
+        quantity: shortfall.toString(),
+        unit: bucket.required.unit,
+        imageUrl: bucket.imageUrl,
+        recipeNames: Array.from(bucket.recipeNames),
+        requiredQuantity: roundQuantity(bucket.required.value),
+        onHandQuantity: roundQuantity(onHand),
+      });
+    }
+  }
+
+  return suggestions;
+}
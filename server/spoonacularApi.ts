@@ -1,4 +1,8 @@
 import memoizee from "memoizee";
+import type { RecipeIngredient } from "@shared/schema";
+import { parseIngredientLine, toRecipeIngredient } from "./ingredientParser";
+import { NUTRIENTS, type NutritionFilters } from "./nutritionFilter";
+import type { NormalizedRecipe, RecipeProvider } from "./recipeProviders";
 
 const SPOONACULAR_API_KEY = process.env.SPOONACULAR_API_KEY;
 const SPOONACULAR_BASE_URL = "https://api.spoonacular.com/recipes";
@@ -43,35 +47,21 @@ export interface SpoonacularRecipe {
   };
 }
 
-export interface NormalizedRecipe {
-  id: string;
-  name: string;
-  description: string;
-  imageUrl: string | null;
-  prepTime: number | null;
-  cookTime: number | null;
-  servings: number;
-  calories: number | null;
-  dietType: string | null;
-  cuisine: string | null;
-  mealType: string | null;
-  ingredients: Array<{ name: string; amount: string; unit: string; imageUrl?: string }>;
-  instructions: string[];
-  tags: string[];
-  averageRating: number | null;
-  totalRatings: number;
-  ratings: any[];
-}
-
 // Normalize Spoonacular recipe to our format
 function normalizeSpoonacularRecipe(recipe: SpoonacularRecipe): NormalizedRecipe {
   // Extract ingredients with images
-  const ingredients = (recipe.extendedIngredients || []).map(ing => ({
-    name: ing.name || ing.originalName,
-    amount: ing.amount?.toString() || '1',
-    unit: ing.unit || '',
-    imageUrl: ing.image ? `https://spoonacular.com/cdn/ingredients_100x100/${ing.image}` : undefined
-  }));
+  // Spoonacular's name is cleaner than ours, but its amounts are floats
+  // (0.3333) and it drops preparation notes, so those come from the original line
+  const ingredients = (recipe.extendedIngredients || []).map(ing => {
+    const parsed = toRecipeIngredient(parseIngredientLine(ing.original || ing.originalName || ing.name));
+    return {
+      ...parsed,
+      name: ing.name || parsed.name,
+      amount: parsed.amount || ing.amount?.toString() || '1',
+      unit: parsed.amount ? parsed.unit : ing.unit || '',
+      imageUrl: ing.image ? `https://spoonacular.com/cdn/ingredients_100x100/${ing.image}` : undefined
+    };
+  });
 
   // Extract instructions
   let instructions: string[] = [];
@@ -84,14 +74,12 @@ function normalizeSpoonacularRecipe(recipe: SpoonacularRecipe): NormalizedRecipe
       .filter(line => line.trim().length > 0);
   }
 
-  // Extract calories from nutrition
-  let calories: number | null = null;
-  if (recipe.nutrition?.nutrients) {
-    const calorieNutrient = recipe.nutrition.nutrients.find(n => n.name === 'Calories');
-    if (calorieNutrient) {
-      calories = Math.round(calorieNutrient.amount);
-    }
-  }
+  // Extract per-serving nutrition
+  const getNutrient = (name: string): number | null => {
+    const nutrient = recipe.nutrition?.nutrients?.find(n => n.name === name);
+    return nutrient ? Math.round(nutrient.amount) : null;
+  };
+  const calories = getNutrient('Calories');
 
   // Determine diet type
   let dietType: string | null = null;
@@ -159,6 +147,10 @@ function normalizeSpoonacularRecipe(recipe: SpoonacularRecipe): NormalizedRecipe
     cookTime: recipe.readyInMinutes || null,
     servings: recipe.servings || 4,
     calories,
+    protein: getNutrient('Protein'),
+    carbs: getNutrient('Carbohydrates'),
+    fat: getNutrient('Fat'),
+    sodium: getNutrient('Sodium'),
     dietType,
     cuisine,
     mealType,
@@ -177,7 +169,7 @@ async function fetchSpoonacularRecipes(params: {
   cuisine?: string;
   type?: string; // breakfast, lunch, dinner, snack
   diet?: string;
-  maxCalories?: number;
+  nutrientLimits?: Record<string, number>; // e.g. { minProtein: 20, maxSodium: 600 }, per serving
   number?: number;
   offset?: number;
   addRecipeInformation?: boolean;
@@ -195,7 +187,9 @@ async function fetchSpoonacularRecipes(params: {
   if (params.cuisine) queryParams.append('cuisine', params.cuisine);
   if (params.type) queryParams.append('type', params.type);
   if (params.diet) queryParams.append('diet', params.diet);
-  if (params.maxCalories) queryParams.append('maxCalories', params.maxCalories.toString());
+  for (const [key, value] of Object.entries(params.nutrientLimits || {})) {
+    queryParams.append(key, value.toString());
+  }
   if (params.number) queryParams.append('number', params.number.toString());
   if (params.offset) queryParams.append('offset', params.offset.toString());
   if (params.addRecipeInformation) queryParams.append('addRecipeInformation', 'true');
@@ -204,10 +198,12 @@ async function fetchSpoonacularRecipes(params: {
 
   const url = `${SPOONACULAR_BASE_URL}/complexSearch?${queryParams.toString()}`;
   
+  spoonacularProvider.onRequest?.();
   const response = await fetch(url);
 
   if (!response.ok) {
-    throw new Error(`Spoonacular API error: ${response.status} ${response.statusText}`);
+    // Keep the status so provider health tracking can spot exhausted quotas (402/429)
+    throw Object.assign(new Error(`Spoonacular API error: ${response.status} ${response.statusText}`), { status: response.status });
   }
 
   const data = await response.json();
@@ -227,7 +223,7 @@ export async function searchSpoonacularRecipes(params: {
   dietType?: string;
   cuisine?: string;
   mealType?: string;
-  maxCalories?: number;
+  nutrition?: NutritionFilters;
   limit?: number;
   offset?: number;
 }): Promise<NormalizedRecipe[]> {
@@ -271,8 +267,21 @@ export async function searchSpoonacularRecipes(params: {
     spoonacularParams.diet = dietMap[params.dietType] || params.dietType;
   }
 
-  if (params.maxCalories) {
-    spoonacularParams.maxCalories = params.maxCalories;
+  // Spoonacular filters per serving, so whole-recipe ranges are applied by the caller
+  if (params.nutrition) {
+    const limits: Record<string, number> = {};
+    if (params.nutrition.basis === 'serving') {
+      for (const nutrient of NUTRIENTS) {
+        const range = params.nutrition.ranges[nutrient];
+        const suffix = nutrient.charAt(0).toUpperCase() + nutrient.slice(1);
+        if (range?.min !== undefined) limits[`min${suffix}`] = range.min;
+        if (range?.max !== undefined) limits[`max${suffix}`] = range.max;
+      }
+    }
+    if (params.nutrition.maxSodiumPerServing !== undefined) {
+      limits.maxSodium = Math.min(limits.maxSodium ?? Infinity, params.nutrition.maxSodiumPerServing);
+    }
+    spoonacularParams.nutrientLimits = limits;
   }
 
   const recipes = await fetchSpoonacularRecipesMemoized(spoonacularParams);
@@ -293,20 +302,36 @@ export async function getSpoonacularRecipeById(id: string): Promise<NormalizedRe
 
   try {
     const url = `${SPOONACULAR_BASE_URL}/${spoonacularId}/information?apiKey=${SPOONACULAR_API_KEY}&includeNutrition=true`;
+    spoonacularProvider.onRequest?.();
     const response = await fetch(url);
 
+    if (response.status === 402 || response.status === 429) {
+      throw Object.assign(new Error(`Spoonacular API error: ${response.status} ${response.statusText}`), { status: response.status });
+    }
     if (!response.ok) {
       return null;
     }
 
     const recipe = await response.json();
     return normalizeSpoonacularRecipe(recipe);
-  } catch (error) {
+  } catch (error: any) {
+    if (error?.status) throw error;
     console.error("Error fetching recipe from Spoonacular:", error);
     return null;
   }
 }
 
+// SPOONACULAR_DAILY_QUOTA stops requests before the plan's daily points run out
+export const spoonacularProvider: RecipeProvider = {
+  name: "spoonacular",
+  source: "spoonacular",
+  idPrefix: "spoon-",
+  dailyQuota: process.env.SPOONACULAR_DAILY_QUOTA ? parseInt(process.env.SPOONACULAR_DAILY_QUOTA, 10) : null,
+  isConfigured: () => !!SPOONACULAR_API_KEY,
+  search: searchSpoonacularRecipes,
+  getById: getSpoonacularRecipeById,
+};
+
 interface IngredientAutocomplete {
   id: number;
   name: string;
@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { RecipeIngredient } from "@shared/schema";
+import { syncRecipeSteps, parseSteps, parseDurations, parseTemperature, parseEquipment } from "./stepParser";
+
+const ingredients: RecipeIngredient[] = [
+  { name: "butter", amount: "2", unit: "tbsp" },
+  { name: "onion", amount: "1", unit: "" },
+  { name: "garlic", amount: "2", unit: "cloves" },
+];
+const steps = parseSteps(["Melt the butter.", "Add the onion and garlic."], ingredients);
+
+test("ingredient edits re-link the stored steps", () => {
+  const reordered = [ingredients[2], ingredients[1]];
+  const synced = syncRecipeSteps({ steps, ingredients: reordered }, { ingredientsChanged: true });
+  assert.equal(synced.steps[0].ingredientRefs, undefined);
+  assert.deepEqual(synced.steps[1].ingredientRefs, [0, 1]);
+});
+
+test("steps saved with the ingredients keep their references", () => {
+  const synced = syncRecipeSteps({ steps, ingredients: ingredients.slice(0, 2) });
+  assert.deepEqual(synced.steps[0].ingredientRefs, [0]);
+  assert.deepEqual(synced.steps[1].ingredientRefs, [1]);
+});
+
+test("durations join hours and minutes, keep ranges and take the nearest action", () => {
+  assert.deepEqual(parseDurations("Bake at 350 for 1 hour 15 minutes."), [{ seconds: 4500, label: "bake" }]);
+  assert.deepEqual(parseDurations("Let rest 5-10 min, then slice."), [{ seconds: 300, maxSeconds: 600, label: "rest" }]);
+  assert.deepEqual(parseDurations("Simmer for half an hour"), [{ seconds: 1800, label: "simmer" }]);
+  assert.deepEqual(parseDurations("Boil 10 minutes, then cool 2 hours"), [
+    { seconds: 600, label: "boil" },
+    { seconds: 7200, label: "cool" },
+  ]);
+  assert.deepEqual(parseDurations("Season to taste."), []);
+});
+
+test("temperatures read the unit, or guess it from the value", () => {
+  assert.deepEqual(parseTemperature("Preheat the oven to 180°C."), { value: 180, unit: "C" });
+  assert.deepEqual(parseTemperature("Roast at 425 degrees F"), { value: 425, unit: "F" });
+  assert.deepEqual(parseTemperature("Bake at 350 F until golden"), { value: 350, unit: "F" });
+  assert.deepEqual(parseTemperature("Heat oil to 190°"), { value: 190, unit: "C" });
+  assert.equal(parseTemperature("Add 12 c of stock"), undefined);
+});
+
+test("oven steps may leave the degrees out", () => {
+  assert.deepEqual(parseTemperature("Bake at 350 for 1 hour 15 minutes"), { value: 350, unit: "F" });
+  assert.deepEqual(parseTemperature("Preheat oven to 200."), { value: 200, unit: "C" });
+  // Not an oven step, or the number has a unit of its own
+  assert.equal(parseTemperature("Reduce the sauce to 250 ml"), undefined);
+  assert.equal(parseTemperature("Bring the milk to 100"), undefined);
+  assert.equal(parseTemperature("Bake at 350 g of flour per loaf"), undefined);
+});
+
+test("equipment prefers the longer name and ignores plurals", () => {
+  assert.deepEqual(parseEquipment("Brown the beef in a Dutch oven."), ["dutch oven"]);
+  assert.deepEqual(parseEquipment("Line two baking sheets with parchment paper"), ["baking sheet", "parchment paper"]);
+  assert.deepEqual(parseEquipment("Whisk the eggs in a bowl, then pour into the skillet"), ["skillet", "whisk", "bowl"]);
+  assert.deepEqual(parseEquipment("Season to taste."), []);
+});
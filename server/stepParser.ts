@@ -0,0 +1,265 @@
+/**
+ * Recipe Step Parser
+ *
+ * Upgrades free-text instructions into structured steps by detecting:
+ * - Durations ("bake 25 minutes", "simmer 1 hour 15 minutes", "rest 5-10 min")
+ * - Oven temperatures ("at 180°C", "350 degrees F")
+ * - Equipment ("in a large skillet", "on a baking sheet")
+ * - Which of the recipe's ingredients the step uses
+ *
+ * Recipes keep their plain `instructions` alongside the structured `steps`;
+ * syncRecipeSteps keeps the two consistent when a recipe is saved.
+ */
+
+import type { RecipeIngredient, RecipeStep, RecipeStepDuration } from "@shared/schema";
+import { normalizeIngredientName } from "./normalizationService";
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, fifteen: 15, twenty: 20, thirty: 30,
+  half: 0.5,
+};
+
+const UNIT_SECONDS: Array<[RegExp, number]> = [
+  [/^(?:hours?|hrs?|h)$/, 3600],
+  [/^(?:minutes?|mins?)$/, 60],
+  [/^(?:seconds?|secs?)$/, 1],
+];
+
+const NUMBER = String.raw`(?:\d+\s+\d\/\d|\d+\/\d|\d+(?:\.\d+)?|${Object.keys(NUMBER_WORDS).join("|")})`;
+const DURATION_PATTERN = new RegExp(
+  String.raw`\b(${NUMBER})(?:\s*(?:-|–|to|or)\s*(${NUMBER}))?\s*(?:an?\s+)?(hours?|hrs?|h|minutes?|mins?|seconds?|secs?)\b\.?`,
+  "gi",
+);
+
+// Verbs used to label a timer ("Bake 25 min"), checked nearest-first before the duration
+const TIMED_ACTIONS = [
+  "preheat", "bake", "roast", "broil", "grill", "toast", "simmer", "boil", "poach", "steam",
+  "fry", "saute", "sauté", "sear", "brown", "cook", "microwave", "reduce", "braise", "stew",
+  "rest", "cool", "chill", "refrigerate", "freeze", "marinate", "soak", "rise", "proof",
+  "knead", "whisk", "beat", "blend", "stir", "mix", "let stand", "set aside",
+];
+
+const TEMPERATURE_PATTERN = /\b(\d{2,3})\s*(?:°|º|degrees?|deg\.?)\s*(c|f|celsius|fahrenheit|centigrade)?(?!\w)|\b(\d{2,3})\s*(c|f)\b(?!\w)/gi;
+// "Bake at 350" leaves the degrees out; only trusted in oven steps and when no unit follows
+const OVEN_STEP_PATTERN = /\b(?:oven|preheat|bake|roast)\w*/i;
+const BARE_TEMPERATURE_PATTERN = /\b(?:at|to)\s+(\d{3})\b(?![.,/]\d)(?!\s*(?:%|(?:g|grams?|kg|ml|l|cups?|oz|ounces?|lbs?|pounds?|hours?|hrs?|h|minutes?|mins?|seconds?|secs?|watts?|w)\b))/i;
+
+// Longer names first so "dutch oven" wins over "oven"
+const EQUIPMENT = [
+  "stand mixer", "hand mixer", "food processor", "immersion blender", "slow cooker",
+  "pressure cooker", "instant pot", "air fryer", "dutch oven", "cast iron skillet",
+  "baking sheet", "sheet pan", "baking dish", "casserole dish", "roasting pan", "loaf pan",
+  "cake pan", "muffin tin", "pie dish", "frying pan", "mixing bowl", "wire rack",
+  "rolling pin", "cutting board", "parchment paper", "aluminum foil", "meat thermometer",
+  "skillet", "saucepan", "stockpot", "pot", "pan", "wok", "grill", "oven", "microwave",
+  "blender", "mixer", "whisk", "bowl", "colander", "sieve", "strainer", "steamer",
+  "grater", "peeler", "spatula", "tongs", "ladle", "thermometer",
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function parseNumber(value: string): number {
+  const word = NUMBER_WORDS[value.toLowerCase()];
+  if (word !== undefined) return word;
+
+  const mixed = value.match(/^(\d+)\s+(\d)\/(\d)$/);
+  if (mixed) return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+  const fraction = value.match(/^(\d+)\/(\d)$/);
+  if (fraction) return Number(fraction[1]) / Number(fraction[2]);
+  return Number(value);
+}
+
+function unitSeconds(unit: string): number {
+  const lower = unit.toLowerCase();
+  return UNIT_SECONDS.find(([pattern]) => pattern.test(lower))?.[1] ?? 60;
+}
+
+function findAction(text: string): string | undefined {
+  const lower = text.toLowerCase();
+  let best: { action: string; index: number } | undefined;
+  for (const action of TIMED_ACTIONS) {
+    const match = new RegExp(String.raw`\b${escapeRegExp(action)}\w*`, "g");
+    let found: RegExpExecArray | null;
+    while ((found = match.exec(lower))) {
+      if (!best || found.index > best.index) best = { action, index: found.index };
+    }
+  }
+  return best?.action === "sauté" ? "saute" : best?.action;
+}
+
+/**
+ * Durations mentioned in a step. "1 hour 15 minutes" is one duration;
+ * ranges keep their upper end in maxSeconds.
+ */
+export function parseDurations(text: string): RecipeStepDuration[] {
+  const matches = Array.from(text.matchAll(DURATION_PATTERN));
+  const durations: Array<RecipeStepDuration & { end: number }> = [];
+
+  for (const match of matches) {
+    const perUnit = unitSeconds(match[3]);
+    // "half an hour" counts as 0.5 hours
+    const seconds = Math.round(parseNumber(match[1]) * perUnit);
+    const maxSeconds = match[2] ? Math.round(parseNumber(match[2]) * perUnit) : undefined;
+    if (seconds <= 0 || (maxSeconds !== undefined && maxSeconds < seconds)) continue;
+
+    // Join "1 hour" + "15 minutes" when only "and" or spaces separate them
+    const previous = durations[durations.length - 1];
+    const between = previous ? text.slice(previous.end, match.index) : "";
+    if (previous && !previous.maxSeconds && !maxSeconds && /^\s*(?:and\s+)?$/i.test(between)) {
+      previous.seconds += seconds;
+      previous.end = match.index! + match[0].length;
+      continue;
+    }
+
+    const label = findAction(text.slice(0, match.index));
+    durations.push({
+      seconds,
+      ...(maxSeconds ? { maxSeconds } : {}),
+      ...(label ? { label } : {}),
+      end: match.index! + match[0].length,
+    });
+  }
+
+  return durations.map(({ end: _end, ...duration }) => duration);
+}
+
+/**
+ * The oven (or pan) temperature in a step. A bare "180°" is read as Celsius
+ * below 250 and Fahrenheit above, which covers cooking temperatures. Oven
+ * steps may leave the degrees out entirely ("bake at 350").
+ */
+export function parseTemperature(text: string): RecipeStep["temperature"] {
+  for (const match of Array.from(text.matchAll(TEMPERATURE_PATTERN))) {
+    const value = Number(match[1] ?? match[3]);
+    const unitText = (match[2] ?? match[4])?.toLowerCase();
+    // "350 f" needs the letter; "12 c" would usually be cups
+    if (match[3] && value < 100) continue;
+    const unit = unitText ? (unitText.startsWith("f") ? "F" : "C") : value >= 250 ? "F" : "C";
+    return { value, unit };
+  }
+
+  if (OVEN_STEP_PATTERN.test(text)) {
+    const bare = text.match(BARE_TEMPERATURE_PATTERN);
+    const value = bare ? Number(bare[1]) : 0;
+    if (value >= 100 && value <= 550) return { value, unit: value >= 250 ? "F" : "C" };
+  }
+  return undefined;
+}
+
+export function parseEquipment(text: string): string[] {
+  let remaining = text.toLowerCase();
+  const found: string[] = [];
+  for (const item of EQUIPMENT) {
+    const pattern = new RegExp(String.raw`\b${escapeRegExp(item)}(?:e?s)?\b`, "g");
+    if (pattern.test(remaining)) {
+      found.push(item);
+      // Blank out the match so "dutch oven" doesn't also count as "oven"
+      remaining = remaining.replace(pattern, " ");
+    }
+  }
+  return found;
+}
+
+// Words an ingredient can be referred to by in a step: its full name, its
+// normalized name and its last word ("flour" for "all-purpose flour")
+function ingredientTerms(ingredient: RecipeIngredient): string[] {
+  const name = ingredient.name.toLowerCase().trim();
+  const normalized = normalizeIngredientName(ingredient.name);
+  const lastWord = name.split(/[\s-]+/).pop() || "";
+  return Array.from(new Set([name, normalized, lastWord].filter(term => term.length > 2)));
+}
+
+/**
+ * Indexes of the ingredients a step mentions
+ */
+export function findStepIngredients(text: string, ingredients: RecipeIngredient[]): number[] {
+  const lower = text.toLowerCase();
+  const terms = ingredients.map(ingredientTerms);
+
+  // A shared last word ("sugar" in "brown sugar" and "powdered sugar") only
+  // counts for an ingredient when it's the whole name
+  const lastWordCounts = new Map<string, number>();
+  for (const ingredient of ingredients) {
+    const lastWord = ingredient.name.toLowerCase().trim().split(/[\s-]+/).pop() || "";
+    lastWordCounts.set(lastWord, (lastWordCounts.get(lastWord) || 0) + 1);
+  }
+
+  const refs: number[] = [];
+  ingredients.forEach((ingredient, index) => {
+    const name = ingredient.name.toLowerCase().trim();
+    const matches = terms[index].some(term => {
+      const ambiguous = term !== name && (lastWordCounts.get(term) || 0) > 1;
+      return !ambiguous && new RegExp(String.raw`\b${escapeRegExp(term)}(?:e?s)?\b`).test(lower);
+    });
+    if (matches) refs.push(index);
+  });
+  return refs;
+}
+
+/**
+ * Parse one free-text step
+ */
+export function parseStep(text: string, ingredients: RecipeIngredient[] = []): RecipeStep {
+  const step: RecipeStep = { text: text.trim() };
+
+  const durations = parseDurations(step.text);
+  if (durations.length > 0) step.durations = durations;
+
+  const temperature = parseTemperature(step.text);
+  if (temperature) step.temperature = temperature;
+
+  const equipment = parseEquipment(step.text);
+  if (equipment.length > 0) step.equipment = equipment;
+
+  const ingredientRefs = findStepIngredients(step.text, ingredients);
+  if (ingredientRefs.length > 0) step.ingredientRefs = ingredientRefs;
+
+  return step;
+}
+
+export function parseSteps(instructions: string[], ingredients: RecipeIngredient[] = []): RecipeStep[] {
+  return instructions
+    .filter(text => text.trim().length > 0)
+    .map(text => parseStep(text, ingredients));
+}
+
+/**
+ * A recipe's structured steps, parsing them from the instructions for
+ * recipes saved before steps existed (and external previews)
+ */
+export function getRecipeSteps(recipe: { steps?: RecipeStep[] | null; instructions?: string[] | null; ingredients: unknown }): RecipeStep[] {
+  if (recipe.steps && recipe.steps.length > 0) return recipe.steps;
+  return parseSteps(recipe.instructions || [], (recipe.ingredients as RecipeIngredient[]) || []);
+}
+
+/**
+ * Keep a recipe's steps and instructions consistent when it's saved. Given
+ * structured steps, the instructions become their text; otherwise steps are
+ * parsed from the instructions. When the ingredients changed without the
+ * steps, each step's ingredient references are found again from its text,
+ * since removing or reordering ingredients shifts their indexes; otherwise
+ * they're checked against the recipe's current ingredients.
+ */
+export function syncRecipeSteps(
+  recipe: { steps?: RecipeStep[] | null; instructions?: string[] | null; ingredients: unknown },
+  options: { ingredientsChanged?: boolean } = {}
+): {
+  steps: RecipeStep[];
+  instructions: string[];
+} {
+  const ingredients = (recipe.ingredients as RecipeIngredient[]) || [];
+  if (recipe.steps && recipe.steps.length > 0) {
+    const steps = recipe.steps.map(({ ingredientRefs, ...step }) => {
+      const refs = options.ingredientsChanged
+        ? findStepIngredients(step.text, ingredients)
+        : ingredientRefs?.filter(ref => ref < ingredients.length);
+      return refs && refs.length > 0 ? { ...step, ingredientRefs: refs } : step;
+    });
+    return { steps, instructions: steps.map(step => step.text) };
+  }
+  const steps = parseSteps(recipe.instructions || [], ingredients);
+  return { steps, instructions: steps.map(step => step.text) };
+}
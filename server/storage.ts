@@ -1,8 +1,68 @@
 import { db } from "./db";
-import { eq, and, gte, desc, sql, inArray, isNull, isNotNull, or } from "drizzle-orm";
-import type { UpsertUser, User, InsertKitchenInventory, KitchenInventory, InsertRecipe, Recipe, InsertMealPlan, MealPlan, MealPlanWithRecipe, InsertMealVote, MealVote, InsertChatMessage, ChatMessage, InsertRecipeRating, RecipeRating, InsertFamily, Family, InsertFamilyMember, FamilyMember, InsertShoppingList, ShoppingList, ShoppingListItem, InsertShoppingListItem, InventoryReviewQueue, InsertInventoryReviewQueue, Notification, InsertNotification, InsertMealPlanSeat, MealPlanSeat, InsertMealSeatAssignment, MealSeatAssignment, InsertRecipeInteraction, RecipeInteraction, InsertKitchenEquipment, KitchenEquipment } from "@shared/schema";
-import { users, kitchenInventory, recipes, mealPlans, mealVotes, chatMessages, recipeRatings, families, familyMembers, shoppingLists, shoppingListItems, inventoryReviewQueue, notifications, mealPlanSeats, mealSeatAssignments, recipeInteractions, kitchenEquipment } from "@shared/schema";
-import { normalizeIngredientName } from "./normalizationService";
+import { eq, and, gte, lte, desc, sql, inArray, isNull, isNotNull, or, getTableColumns, type SQL } from "drizzle-orm";
+import type { RecipeIngredient, UpsertUser, User, InsertKitchenInventory, KitchenInventory, KitchenInventoryWithAddedBy, InventoryEvent, UpdateKitchenInventory, StorageLocation, InsertStorageLocation, IngredientAlias, InsertIngredientAlias, IngredientStopword, InsertIngredientStopword, InsertRecipe, Recipe, UpdateRecipe, RecipeContent, RecipeVersion, InsertMealPlan, MealPlan, MealPlanWithRecipe, InsertMealVote, MealVote, InsertChatMessage, ChatMessage, InsertRecipeRating, RecipeRating, InsertFamily, Family, InsertFamilyMember, FamilyMember, InsertShoppingList, ShoppingList, ShoppingListItem, InsertShoppingListItem, InventoryReviewQueue, InsertInventoryReviewQueue, Notification, InsertNotification, InsertMealPlanSeat, MealPlanSeat, InsertMealSeatAssignment, MealSeatAssignment, InsertRecipeInteraction, RecipeInteraction, InsertKitchenEquipment, KitchenEquipment } from "@shared/schema";
+import { users, kitchenInventory, inventoryEvents, storageLocations, shelfLifeOverrides, ingredientAliases, ingredientStopwords, recipes, recipeVersions, mealPlans, mealVotes, chatMessages, recipeRatings, families, familyMembers, shoppingLists, shoppingListItems, inventoryReviewQueue, notifications, mealPlanSeats, mealSeatAssignments, recipeInteractions, kitchenEquipment } from "@shared/schema";
+import { normalizeIngredientName, findMatchingIngredient, filterMatchingIngredients, toAliasKey, setIngredientAliasDictionary, setIngredientStopwords, getBuiltInIngredientAliases, BUILT_IN_STOPWORDS, DEFAULT_MATCH_CONFIDENCE } from "./normalizationService";
+import { parseQuantity, convertQuantity, roundQuantity } from "./quantityService";
+import { getExpiringItems, scoreExpiringUsage, DEFAULT_EXPIRING_WINDOW_DAYS, type ExpiringIngredient } from "./expirationService";
+import { NUTRIENTS, DEFAULT_SERVINGS, type NutritionFilters } from "./nutritionFilter";
+import { getServingsScale } from "./recipeScaling";
+import { getShoppingShortfalls, type ShoppingSuggestion } from "./shoppingSuggestions";
+import { getRecipeContent } from "./recipeDiff";
+import { getTimerEndsAt } from "./cookingTimers";
+import { syncRecipeSteps, parseSteps } from "./stepParser";
+import { estimateShelfLifeDays, getCategoryDefaultShelfLifeDays, addDays, type StorageCategory } from "./shelfLifeService";
+
+export type IngredientDeduction = {
+  name: string;
+  inventoryItemId: string;
+  inventoryName: string;
+  amount: number;
+  unit: string;
+  remaining: number;
+  removed: boolean;
+};
+
+export type MissingIngredient = {
+  name: string;
+  amount: number;
+  unit: string;
+  reason: 'not_in_inventory' | 'unit_mismatch' | 'insufficient_quantity';
+};
+
+export type RecipeFilters = {
+  searchQuery?: string;
+  dietType?: string;
+  cuisine?: string;
+  mealType?: string;
+  nutrition?: NutritionFilters;
+  dietaryRestrictions?: string[];
+  viewerId?: string; // signed-in user; private and family recipes they can't see are left out
+};
+
+export type RecipeFacet = 'cuisine' | 'mealType' | 'dietType';
+
+export type RecipeWithRating = Omit<Recipe, 'searchVector'> & {
+  averageRating: number;
+  ratingCount: number;
+};
+
+export type RecipeSearchResult = {
+  recipes: RecipeWithRating[];
+  total: number;
+  page: number;
+  pageSize: number;
+  facets: Record<RecipeFacet, Array<{ value: string; count: number }>>;
+};
+
+// Recipe columns without the (large) full-text search document
+const { searchVector: _searchVector, ...recipeColumns } = getTableColumns(recipes);
+
+export type RecommendedRecipe = Recipe & {
+  matchPercentage?: number;
+  expiringIngredients?: ExpiringIngredient[];
+  useBy?: Date | null;
+};
 
 // Helper function to check if user has access to a shopping list (owner or family member)
 // Returns tri-state: {exists, authorized} to distinguish 404 vs 403
@@ -27,6 +87,213 @@ async function getListAccessState(listId: string, userId: string): Promise<{exis
   return { exists: true, authorized };
 }
 
+// Family whose shared kitchen the user sees (users belong to at most one family)
+async function getUserFamilyId(userId: string): Promise<string | null> {
+  const membership = await db
+    .select({ familyId: familyMembers.familyId })
+    .from(familyMembers)
+    .where(eq(familyMembers.userId, userId))
+    .limit(1);
+  return membership[0]?.familyId ?? null;
+}
+
+// Inventory visible to a user: their own items plus their family's shared items
+function inventoryVisibleTo(userId: string, familyId: string | null) {
+  return familyId
+    ? or(eq(kitchenInventory.userId, userId), eq(kitchenInventory.familyId, familyId))!
+    : eq(kitchenInventory.userId, userId);
+}
+
+// Recipes visible to a user: public ones, their own, and recipes shared with
+// their family. Anonymous visitors only see public recipes.
+function recipesVisibleTo(userId?: string): SQL {
+  if (!userId) return eq(recipes.visibility, 'public');
+  const userFamilies = db
+    .select({ familyId: familyMembers.familyId })
+    .from(familyMembers)
+    .where(eq(familyMembers.userId, userId));
+  return or(
+    eq(recipes.visibility, 'public'),
+    eq(recipes.authorId, userId),
+    and(eq(recipes.visibility, 'family'), inArray(recipes.familyId, userFamilies)),
+  )!;
+}
+
+// Value of a quantity of an inventory item, when its price is known
+function estimateInventoryCost(item: KitchenInventory, quantity: number): string | null {
+  if (!item.pricePerUnit) return null;
+  return String(roundQuantity(Math.abs(quantity) * parseFloat(item.pricePerUnit)));
+}
+
+// Storage locations visible to a user: their own plus their family's
+function storageLocationsVisibleTo(userId: string, familyId: string | null) {
+  return familyId
+    ? or(eq(storageLocations.userId, userId), eq(storageLocations.familyId, familyId))!
+    : eq(storageLocations.userId, userId);
+}
+
+async function getVisibleStorageLocation(locationId: string, userId: string): Promise<StorageLocation | null> {
+  const familyId = await getUserFamilyId(userId);
+  const result = await db
+    .select()
+    .from(storageLocations)
+    .where(and(eq(storageLocations.id, locationId), storageLocationsVisibleTo(userId, familyId)))
+    .limit(1);
+  return result[0] || null;
+}
+
+// Shelf-life corrections are shared by the family, or kept per user outside one
+function shelfLifeOverridesFor(userId: string, familyId: string | null) {
+  return familyId
+    ? eq(shelfLifeOverrides.familyId, familyId)
+    : and(eq(shelfLifeOverrides.userId, userId), isNull(shelfLifeOverrides.familyId))!;
+}
+
+// Estimated expiration for a new item, most specific source first: the
+// household's own corrections, the default set on the storage location, the
+// shelf-life table, then the generic default for the category
+async function estimateExpirationDate(
+  userId: string,
+  familyId: string | null,
+  name: string,
+  category: StorageCategory,
+  location: StorageLocation | null,
+  from: Date = new Date()
+): Promise<Date | null> {
+  const override = await db
+    .select({ shelfLifeDays: shelfLifeOverrides.shelfLifeDays })
+    .from(shelfLifeOverrides)
+    .where(and(
+      shelfLifeOverridesFor(userId, familyId),
+      eq(shelfLifeOverrides.normalizedName, normalizeIngredientName(name)),
+      eq(shelfLifeOverrides.category, category)
+    ))
+    .limit(1);
+
+  const days = override[0]?.shelfLifeDays
+    ?? location?.defaultShelfLifeDays
+    ?? estimateShelfLifeDays(name, category)
+    ?? getCategoryDefaultShelfLifeDays(category);
+
+  return days ? addDays(from, days) : null;
+}
+
+// Fold a user's corrected expiration date into the household's shelf-life
+// estimate. Runs in the caller's transaction with the item as updated, so
+// the correction is stored under the item's new name and category.
+async function recordShelfLifeCorrection(tx: any, userId: string, item: KitchenInventory, correctedDate: Date) {
+  const addedAt = item.addedAt ? new Date(item.addedAt) : new Date();
+  const days = Math.round((correctedDate.getTime() - addedAt.getTime()) / (24 * 60 * 60 * 1000));
+  if (days < 1 || days > 3650) return;
+
+  const familyId = item.familyId;
+  const normalizedName = item.normalizedName || normalizeIngredientName(item.name);
+  const category = item.category || 'fridge';
+
+  // One row per household, ingredient and category (see the partial unique
+  // indexes on shelf_life_overrides), averaged as corrections come in
+  await tx
+    .insert(shelfLifeOverrides)
+    .values({ userId, familyId, normalizedName, category, shelfLifeDays: days })
+    .onConflictDoUpdate({
+      target: familyId
+        ? [shelfLifeOverrides.familyId, shelfLifeOverrides.normalizedName, shelfLifeOverrides.category]
+        : [shelfLifeOverrides.userId, shelfLifeOverrides.normalizedName, shelfLifeOverrides.category],
+      targetWhere: familyId ? sql`family_id is not null` : sql`family_id is null`,
+      set: {
+        shelfLifeDays: sql`round((${shelfLifeOverrides.shelfLifeDays} * ${shelfLifeOverrides.sampleCount} + ${days})::numeric / (${shelfLifeOverrides.sampleCount} + 1))`,
+        sampleCount: sql`${shelfLifeOverrides.sampleCount} + 1`,
+        updatedAt: new Date(),
+      },
+    });
+}
+
+// Where this household usually keeps an ingredient, based on the items they
+// currently have and where past items were when they were added or used up
+async function getLearnedStorageLocation(userId: string, familyId: string | null, normalizedName: string): Promise<StorageLocation | null> {
+  const eventVisibility = familyId
+    ? or(eq(inventoryEvents.userId, userId), eq(inventoryEvents.familyId, familyId))!
+    : eq(inventoryEvents.userId, userId);
+
+  const [history, current] = await Promise.all([
+    db
+      .select({
+        locationId: inventoryEvents.locationId,
+        uses: sql<number>`count(*)::int`,
+        lastUsedAt: sql<Date>`max(${inventoryEvents.createdAt})`.mapWith(inventoryEvents.createdAt),
+      })
+      .from(inventoryEvents)
+      .where(and(
+        eventVisibility,
+        eq(inventoryEvents.normalizedName, normalizedName),
+        isNotNull(inventoryEvents.locationId)
+      ))
+      .groupBy(inventoryEvents.locationId),
+    db
+      .select({ locationId: kitchenInventory.locationId })
+      .from(kitchenInventory)
+      .where(and(
+        inventoryVisibleTo(userId, familyId),
+        eq(kitchenInventory.normalizedName, normalizedName),
+        isNotNull(kitchenInventory.locationId)
+      )),
+  ]);
+
+  // Most items and events wins. On a tie, a location holding the ingredient
+  // now beats one that only held it before; then the most recently used wins.
+  const candidates = new Map<string, { count: number; current: boolean; lastUsedAt: number }>();
+  const candidate = (locationId: string) => {
+    const entry = candidates.get(locationId) ?? { count: 0, current: false, lastUsedAt: 0 };
+    candidates.set(locationId, entry);
+    return entry;
+  };
+  for (const row of current) {
+    const entry = candidate(row.locationId!);
+    entry.count++;
+    entry.current = true;
+  }
+  for (const row of history) {
+    const entry = candidate(row.locationId!);
+    entry.count += row.uses;
+    entry.lastUsedAt = row.lastUsedAt?.getTime() ?? 0;
+  }
+
+  const [best] = Array.from(candidates.entries()).sort(([, a], [, b]) =>
+    b.count - a.count || Number(b.current) - Number(a.current) || b.lastUsedAt - a.lastUsedAt);
+  const bestId = best?.[0];
+
+  if (!bestId) return null;
+  const location = await db
+    .select()
+    .from(storageLocations)
+    .where(and(eq(storageLocations.id, bestId), storageLocationsVisibleTo(userId, familyId)))
+    .limit(1);
+  return location[0] || null;
+}
+
+const RENORMALIZE_BATCH_SIZE = 500;
+
+// Write back the normalized names that changed, a batch of rows per UPDATE.
+// Returns how many rows were updated.
+async function updateNormalizedNames(
+  table: typeof kitchenInventory | typeof shoppingListItems | typeof inventoryReviewQueue | typeof inventoryEvents,
+  rows: { id: string; normalizedName: string | null; renormalized: string }[]
+): Promise<number> {
+  const changed = rows.filter(row => row.renormalized !== row.normalizedName);
+
+  for (let start = 0; start < changed.length; start += RENORMALIZE_BATCH_SIZE) {
+    const batch = changed.slice(start, start + RENORMALIZE_BATCH_SIZE);
+    const values = sql.join(batch.map(row => sql`(${row.id}, ${row.renormalized})`), sql`, `);
+    await db.execute(sql`
+      UPDATE ${table} SET normalized_name = changed.normalized_name
+      FROM (VALUES ${values}) AS changed(id, normalized_name)
+      WHERE ${table.id} = changed.id
+    `);
+  }
+
+  return changed.length;
+}
+
 // Simple boolean wrapper for methods that don't need tri-state
 async function userHasListAccess(listId: string, userId: string): Promise<boolean> {
   const state = await getListAccessState(listId, userId);
@@ -67,27 +334,680 @@ export const storage = {
     return result[0] || null;
   },
 
+  async getUsersWithExpirationReminders(): Promise<User[]> {
+    return await db.select().from(users).where(eq(users.expirationRemindersEnabled, true));
+  },
+
+  async updateExpirationReminderPreferences(
+    userId: string,
+    preferences: { enabled?: boolean; leadDays?: number }
+  ): Promise<User | null> {
+    const result = await db
+      .update(users)
+      .set({
+        ...(preferences.enabled !== undefined && { expirationRemindersEnabled: preferences.enabled }),
+        ...(preferences.leadDays !== undefined && { expirationReminderDays: preferences.leadDays }),
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    return result[0] || null;
+  },
+
+  // Strictest daily sodium limit (mg) among the user and their family members
+  async getFamilySodiumLimit(userId: string): Promise<number | null> {
+    const familyId = await getUserFamilyId(userId);
+    const result = await db
+      .select({ limit: sql<number | null>`min(${users.maxSodium})`.mapWith(value => value === null ? null : Number(value)) })
+      .from(users)
+      .where(familyId
+        ? or(eq(users.id, userId), inArray(users.id, db.select({ id: familyMembers.userId }).from(familyMembers).where(eq(familyMembers.familyId, familyId))))
+        : eq(users.id, userId));
+    return result[0]?.limit ?? null;
+  },
+
+  // Minimum ingredient match confidence (0-1) the user has chosen
+  async getIngredientMatchConfidence(userId: string): Promise<number> {
+    const user = await this.getUserById(userId);
+    return user ? user.ingredientMatchConfidence / 100 : DEFAULT_MATCH_CONFIDENCE;
+  },
+
+  async updateIngredientMatchingPreferences(userId: string, preferences: { minConfidence: number }): Promise<User | null> {
+    const result = await db
+      .update(users)
+      .set({ ingredientMatchConfidence: preferences.minConfidence, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return result[0] || null;
+  },
+
   // Kitchen Inventory
-  async getKitchenInventory(userId: string): Promise<KitchenInventory[]> {
-    return await db.select().from(kitchenInventory).where(eq(kitchenInventory.userId, userId));
+  async getKitchenInventory(userId: string): Promise<KitchenInventoryWithAddedBy[]> {
+    const familyId = await getUserFamilyId(userId);
+    const rows = await db
+      .select({
+        item: kitchenInventory,
+        addedBy: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          profileImageUrl: users.profileImageUrl,
+        },
+      })
+      .from(kitchenInventory)
+      .leftJoin(users, eq(kitchenInventory.userId, users.id))
+      .where(inventoryVisibleTo(userId, familyId));
+
+    return rows.map(row => ({ ...row.item, addedBy: row.addedBy }));
   },
 
-  async addKitchenItem(item: InsertKitchenInventory): Promise<KitchenInventory> {
-    const normalizedName = normalizeIngredientName(item.name);
-    const result = await db.insert(kitchenInventory).values({
-      ...item,
-      normalizedName,
-    }).returning();
+  async getUserFamilyId(userId: string): Promise<string | null> {
+    return await getUserFamilyId(userId);
+  },
+
+  // Storage Locations
+  async getStorageLocations(userId: string): Promise<StorageLocation[]> {
+    const familyId = await getUserFamilyId(userId);
+    return await db
+      .select()
+      .from(storageLocations)
+      .where(storageLocationsVisibleTo(userId, familyId))
+      .orderBy(storageLocations.category, storageLocations.name);
+  },
+
+  async getStorageLocation(id: string, userId: string): Promise<StorageLocation | null> {
+    return await getVisibleStorageLocation(id, userId);
+  },
+
+  async createStorageLocation(userId: string, data: InsertStorageLocation): Promise<StorageLocation> {
+    const { shared, ...fields } = data;
+    const familyId = shared === false ? null : await getUserFamilyId(userId);
+    const result = await db
+      .insert(storageLocations)
+      .values({ ...fields, userId, familyId })
+      .returning();
     return result[0];
   },
 
-  async deleteKitchenItem(id: string, userId: string): Promise<void> {
-    await db.delete(kitchenInventory).where(
-      and(
-        eq(kitchenInventory.id, id),
-        eq(kitchenInventory.userId, userId)
-      )
+  async updateStorageLocation(id: string, userId: string, data: Partial<InsertStorageLocation>): Promise<StorageLocation | null> {
+    const existing = await getVisibleStorageLocation(id, userId);
+    if (!existing) return null;
+
+    const { shared, ...fields } = data;
+    const familyId = shared === undefined ? existing.familyId : shared ? await getUserFamilyId(userId) : null;
+
+    return await db.transaction(async (tx) => {
+      const result = await tx
+        .update(storageLocations)
+        .set({ ...fields, familyId })
+        .where(eq(storageLocations.id, id))
+        .returning();
+
+      // Keep the items stored there in the matching category
+      if (fields.category && fields.category !== existing.category) {
+        await tx
+          .update(kitchenInventory)
+          .set({ category: fields.category })
+          .where(eq(kitchenInventory.locationId, id));
+      }
+
+      return result[0];
+    });
+  },
+
+  // Items in a deleted location keep their category but lose the location
+  async deleteStorageLocation(id: string, userId: string): Promise<boolean> {
+    const existing = await getVisibleStorageLocation(id, userId);
+    if (!existing) return false;
+    await db.delete(storageLocations).where(eq(storageLocations.id, id));
+    return true;
+  },
+
+  // Ingredient Aliases
+
+  // Insert the built-in stopwords and aliases the first time the app runs
+  // against a database. Built-in rows have no creator; once any exist the
+  // seed is skipped, so admins can edit or delete them.
+  async seedIngredientDictionary(): Promise<{ stopwords: number; aliases: number }> {
+    const counts = { stopwords: 0, aliases: 0 };
+
+    const builtInStopwords = await db
+      .select({ id: ingredientStopwords.id })
+      .from(ingredientStopwords)
+      .where(isNull(ingredientStopwords.createdById))
+      .limit(1);
+    if (builtInStopwords.length === 0) {
+      const inserted = await db
+        .insert(ingredientStopwords)
+        .values(BUILT_IN_STOPWORDS.map(word => ({ word })))
+        .onConflictDoNothing()
+        .returning({ id: ingredientStopwords.id });
+      counts.stopwords = inserted.length;
+    }
+    await this.loadIngredientStopwords();
+
+    const builtInAliases = await db
+      .select({ id: ingredientAliases.id })
+      .from(ingredientAliases)
+      .where(and(isNull(ingredientAliases.familyId), isNull(ingredientAliases.createdById)))
+      .limit(1);
+    if (builtInAliases.length === 0) {
+      const existing = await db
+        .select({ alias: ingredientAliases.alias })
+        .from(ingredientAliases)
+        .where(and(isNull(ingredientAliases.familyId), eq(ingredientAliases.relation, 'synonym')));
+      const taken = new Set(existing.map(row => row.alias));
+      // An admin's global synonym for the same alias wins over the built-in one
+      const missing = getBuiltInIngredientAliases().filter(entry => !taken.has(entry.alias));
+      if (missing.length > 0) {
+        await db.insert(ingredientAliases).values(missing);
+      }
+      counts.aliases = missing.length;
+    }
+
+    return counts;
+  },
+
+  async loadIngredientStopwords(): Promise<number> {
+    const rows = await db.select({ word: ingredientStopwords.word }).from(ingredientStopwords);
+    setIngredientStopwords(rows.map(row => row.word));
+    return rows.length;
+  },
+
+  async getIngredientStopwords(): Promise<IngredientStopword[]> {
+    return await db.select().from(ingredientStopwords).orderBy(ingredientStopwords.word);
+  },
+
+  async addIngredientStopword(data: InsertIngredientStopword, createdById: string): Promise<IngredientStopword | null> {
+    const result = await db
+      .insert(ingredientStopwords)
+      .values({ word: data.word, createdById })
+      .onConflictDoNothing()
+      .returning();
+    if (!result[0]) return null;
+    await this.loadIngredientStopwords();
+    return result[0];
+  },
+
+  async getIngredientStopwordById(id: string): Promise<IngredientStopword | null> {
+    const result = await db.select().from(ingredientStopwords).where(eq(ingredientStopwords.id, id)).limit(1);
+    return result[0] || null;
+  },
+
+  async deleteIngredientStopword(id: string): Promise<void> {
+    await db.delete(ingredientStopwords).where(eq(ingredientStopwords.id, id));
+    await this.loadIngredientStopwords();
+  },
+
+  async loadIngredientAliasDictionary(): Promise<number> {
+    const rows = await db.select().from(ingredientAliases);
+    setIngredientAliasDictionary(rows);
+    return rows.length;
+  },
+
+  // Global aliases plus the user's family aliases
+  async getIngredientAliases(userId: string): Promise<IngredientAlias[]> {
+    const familyId = await getUserFamilyId(userId);
+    return await db
+      .select()
+      .from(ingredientAliases)
+      .where(familyId
+        ? or(isNull(ingredientAliases.familyId), eq(ingredientAliases.familyId, familyId))
+        : isNull(ingredientAliases.familyId))
+      .orderBy(ingredientAliases.alias);
+  },
+
+  // Add an alias (familyId null = global). A synonym replaces any existing
+  // synonym for the same alias in that scope; "is a" links accumulate.
+  async addIngredientAlias(
+    data: InsertIngredientAlias,
+    scope: { familyId: string | null; createdById: string }
+  ): Promise<IngredientAlias | null> {
+    const alias = toAliasKey(data.alias);
+    const canonicalName = normalizeIngredientName(data.canonicalName, scope.familyId);
+    const relation = data.relation ?? 'synonym';
+    if (!alias || !canonicalName || alias === canonicalName) return null;
+
+    const inScope = and(
+      eq(ingredientAliases.alias, alias),
+      eq(ingredientAliases.relation, relation),
+      scope.familyId ? eq(ingredientAliases.familyId, scope.familyId) : isNull(ingredientAliases.familyId)
     );
+
+    const result = await db.transaction(async (tx) => {
+      const existing = await tx.select().from(ingredientAliases).where(inScope);
+      const match = relation === 'synonym'
+        ? existing[0]
+        : existing.find(row => row.canonicalName === canonicalName);
+
+      if (match) {
+        const updated = await tx
+          .update(ingredientAliases)
+          .set({ canonicalName })
+          .where(eq(ingredientAliases.id, match.id))
+          .returning();
+        return updated[0];
+      }
+
+      const inserted = await tx
+        .insert(ingredientAliases)
+        .values({ alias, canonicalName, relation, familyId: scope.familyId, createdById: scope.createdById })
+        .returning();
+      return inserted[0];
+    });
+
+    await this.loadIngredientAliasDictionary();
+    return result;
+  },
+
+  async getIngredientAliasById(id: string): Promise<IngredientAlias | null> {
+    const result = await db.select().from(ingredientAliases).where(eq(ingredientAliases.id, id)).limit(1);
+    return result[0] || null;
+  },
+
+  async deleteIngredientAlias(id: string): Promise<void> {
+    await db.delete(ingredientAliases).where(eq(ingredientAliases.id, id));
+    await this.loadIngredientAliasDictionary();
+  },
+
+  // Recompute normalizedName on stored rows after the alias dictionary changes
+  async renormalizeIngredientNames(): Promise<{ inventory: number; shoppingListItems: number; reviewQueue: number; events: number }> {
+    const counts = { inventory: 0, shoppingListItems: 0, reviewQueue: 0, events: 0 };
+
+    const inventoryRows = await db
+      .select({ id: kitchenInventory.id, name: kitchenInventory.name, normalizedName: kitchenInventory.normalizedName, familyId: kitchenInventory.familyId })
+      .from(kitchenInventory);
+    counts.inventory = await updateNormalizedNames(kitchenInventory, inventoryRows.map(row => ({
+      id: row.id,
+      normalizedName: row.normalizedName,
+      renormalized: normalizeIngredientName(row.name, row.familyId),
+    })));
+
+    const itemRows = await db
+      .select({ id: shoppingListItems.id, name: shoppingListItems.name, normalizedName: shoppingListItems.normalizedName, familyId: shoppingLists.familyId })
+      .from(shoppingListItems)
+      .innerJoin(shoppingLists, eq(shoppingListItems.listId, shoppingLists.id));
+    counts.shoppingListItems = await updateNormalizedNames(shoppingListItems, itemRows.map(row => ({
+      id: row.id,
+      normalizedName: row.normalizedName,
+      renormalized: normalizeIngredientName(row.name, row.familyId),
+    })));
+
+    const memberships = await db.select({ userId: familyMembers.userId, familyId: familyMembers.familyId }).from(familyMembers);
+    const familyByUser = new Map(memberships.map(m => [m.userId, m.familyId]));
+
+    const reviewRows = await db
+      .select({ id: inventoryReviewQueue.id, name: inventoryReviewQueue.name, normalizedName: inventoryReviewQueue.normalizedName, userId: inventoryReviewQueue.userId })
+      .from(inventoryReviewQueue)
+      .where(eq(inventoryReviewQueue.status, 'pending'));
+    counts.reviewQueue = await updateNormalizedNames(inventoryReviewQueue, reviewRows.map(row => ({
+      id: row.id,
+      normalizedName: row.normalizedName,
+      renormalized: normalizeIngredientName(row.name, familyByUser.get(row.userId)),
+    })));
+
+    const eventRows = await db
+      .select({ id: inventoryEvents.id, name: inventoryEvents.itemName, normalizedName: inventoryEvents.normalizedName, familyId: inventoryEvents.familyId })
+      .from(inventoryEvents);
+    counts.events = await updateNormalizedNames(inventoryEvents, eventRows.map(row => ({
+      id: row.id,
+      normalizedName: row.normalizedName,
+      renormalized: normalizeIngredientName(row.name, row.familyId),
+    })));
+
+    return counts;
+  },
+
+  async addKitchenItem(item: InsertKitchenInventory): Promise<KitchenInventory> {
+    const normalizedName = normalizeIngredientName(item.name, item.familyId);
+    const location = item.locationId ? await getVisibleStorageLocation(item.locationId, item.userId) : null;
+    const category = location?.category ?? item.category ?? 'fridge';
+
+    const estimatedExpiration = item.expirationDate
+      ? null
+      : await estimateExpirationDate(item.userId, item.familyId ?? null, item.name, category, location);
+
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(kitchenInventory).values({
+        ...item,
+        normalizedName,
+        locationId: location?.id ?? null,
+        category,
+        expirationDate: item.expirationDate ?? estimatedExpiration,
+        expirationEstimated: !item.expirationDate && !!estimatedExpiration,
+      }).returning();
+      const added = result[0];
+
+      const quantity = parseFloat(added.quantity || '0');
+      await tx.insert(inventoryEvents).values({
+        inventoryItemId: added.id,
+        userId: added.userId,
+        familyId: added.familyId,
+        itemName: added.name,
+        normalizedName: added.normalizedName,
+        eventType: 'added',
+        category: added.category,
+        locationId: added.locationId,
+        quantityDelta: String(quantity),
+        quantityAfter: String(quantity),
+        unit: added.unit,
+        estimatedCost: estimateInventoryCost(added, quantity),
+      });
+
+      return added;
+    });
+  },
+
+  async updateKitchenItem(
+    id: string,
+    userId: string,
+    updates: UpdateKitchenInventory
+  ): Promise<KitchenInventory | null> {
+    const familyId = await getUserFamilyId(userId);
+
+    return await db.transaction(async (tx) => {
+      // Lock the row so concurrent changes to the quantity apply one after another
+      const existing = await tx
+        .select()
+        .from(kitchenInventory)
+        .where(and(eq(kitchenInventory.id, id), inventoryVisibleTo(userId, familyId)))
+        .limit(1)
+        .for('update');
+
+      if (!existing[0]) return null;
+      const item = existing[0];
+
+      const { shared, quantity, pricePerUnit, locationId, expirationDate, ...fields } = updates;
+
+      // Moving to a location also moves the item to that location's category
+      let location: StorageLocation | null = null;
+      if (locationId) {
+        location = await getVisibleStorageLocation(locationId, userId);
+        if (!location) return null;
+      }
+
+      let expirationUpdate: { expirationDate: Date | null; expirationEstimated: boolean } | null = null;
+      if (expirationDate !== undefined) {
+        // A user-entered date is never an estimate
+        expirationUpdate = { expirationDate, expirationEstimated: false };
+      } else {
+        // Re-estimate when an item with an estimated date moves, e.g. into the freezer
+        const newCategory = fields.category ?? location?.category;
+        if (item.expirationEstimated && newCategory && newCategory !== item.category) {
+          const estimate = await estimateExpirationDate(
+            userId,
+            item.familyId,
+            fields.name ?? item.name,
+            newCategory,
+            location,
+            item.addedAt ?? new Date()
+          );
+          expirationUpdate = { expirationDate: estimate, expirationEstimated: !!estimate };
+        }
+      }
+
+      const result = await tx
+        .update(kitchenInventory)
+        .set({
+          ...fields,
+          ...(fields.name !== undefined && { normalizedName: normalizeIngredientName(fields.name, item.familyId) }),
+          ...(quantity !== undefined && { quantity: String(roundQuantity(quantity)) }),
+          ...(pricePerUnit !== undefined && { pricePerUnit: pricePerUnit === null ? null : String(pricePerUnit) }),
+          ...(shared !== undefined && { familyId: shared ? familyId : null }),
+          ...(locationId !== undefined && { locationId: location?.id ?? null }),
+          ...(location && fields.category === undefined && { category: location.category }),
+          ...expirationUpdate,
+        })
+        .where(eq(kitchenInventory.id, id))
+        .returning();
+
+      const updated = result[0];
+
+      // Correcting an estimated date teaches the household
+      if (expirationDate && item.expirationEstimated) {
+        await recordShelfLifeCorrection(tx, userId, updated, expirationDate);
+      }
+
+      const before = parseFloat(item.quantity || '0');
+      const after = parseFloat(updated.quantity || '0');
+
+      if (quantity !== undefined && after !== before) {
+        await tx.insert(inventoryEvents).values({
+          inventoryItemId: id,
+          userId,
+          familyId: updated.familyId,
+          itemName: updated.name,
+          normalizedName: updated.normalizedName,
+          eventType: 'adjusted',
+          category: updated.category,
+          locationId: updated.locationId,
+          quantityDelta: String(roundQuantity(after - before)),
+          quantityAfter: String(after),
+          unit: updated.unit,
+          estimatedCost: estimateInventoryCost(updated, after - before),
+        });
+      }
+
+      return updated;
+    });
+  },
+
+  // Use up part of an item; the item is removed once nothing is left
+  async consumeKitchenItem(
+    id: string,
+    userId: string,
+    consumption: { amount: number; unit?: string | null; note?: string }
+  ): Promise<
+    | { status: 'not_found' }
+    | { status: 'unit_mismatch'; itemUnit: string | null }
+    | { status: 'ok'; item: KitchenInventory | null; removed: boolean; event: InventoryEvent }
+  > {
+    const familyId = await getUserFamilyId(userId);
+
+    return await db.transaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(kitchenInventory)
+        .where(and(eq(kitchenInventory.id, id), inventoryVisibleTo(userId, familyId)))
+        .limit(1)
+        .for('update');
+
+      if (!existing[0]) return { status: 'not_found' as const };
+      const item = existing[0];
+
+      // Express the amount in the item's own unit
+      const amount = consumption.unit === undefined
+        ? consumption.amount
+        : convertQuantity(consumption.amount, consumption.unit, item.unit, item.name);
+      if (amount === null) {
+        return { status: 'unit_mismatch' as const, itemUnit: item.unit };
+      }
+
+      const before = parseFloat(item.quantity || '0');
+      const remaining = roundQuantity(Math.max(0, before - amount));
+      const removed = remaining <= 0;
+
+      let updated: KitchenInventory | null = null;
+      if (!removed) {
+        const result = await tx
+          .update(kitchenInventory)
+          .set({ quantity: String(remaining) })
+          .where(eq(kitchenInventory.id, id))
+          .returning();
+        updated = result[0];
+      }
+
+      // Log before deleting so the event still references the item until it's gone
+      const eventResult = await tx
+        .insert(inventoryEvents)
+        .values({
+          inventoryItemId: id,
+          userId,
+          familyId: item.familyId,
+          itemName: item.name,
+          normalizedName: item.normalizedName,
+          eventType: 'consumed',
+          category: item.category,
+          locationId: item.locationId,
+          quantityDelta: String(roundQuantity(remaining - before)),
+          quantityAfter: String(remaining),
+          unit: item.unit,
+          estimatedCost: estimateInventoryCost(item, before - remaining),
+          note: consumption.note || null,
+        })
+        .returning();
+
+      if (removed) {
+        await tx.delete(kitchenInventory).where(eq(kitchenInventory.id, id));
+      }
+
+      return { status: 'ok' as const, item: updated, removed, event: eventResult[0] };
+    });
+  },
+
+  // Inventory history for the user's kitchen (own and shared family events)
+  async getInventoryEvents(userId: string, options: { itemId?: string; limit?: number } = {}): Promise<Array<InventoryEvent & {
+    user: { id: string; firstName: string | null; lastName: string | null } | null;
+  }>> {
+    const familyId = await getUserFamilyId(userId);
+    const visibility = familyId
+      ? or(eq(inventoryEvents.userId, userId), eq(inventoryEvents.familyId, familyId))
+      : eq(inventoryEvents.userId, userId);
+
+    const rows = await db
+      .select({
+        event: inventoryEvents,
+        user: { id: users.id, firstName: users.firstName, lastName: users.lastName },
+      })
+      .from(inventoryEvents)
+      .leftJoin(users, eq(inventoryEvents.userId, users.id))
+      .where(options.itemId ? and(visibility, eq(inventoryEvents.inventoryItemId, options.itemId)) : visibility)
+      .orderBy(desc(inventoryEvents.createdAt))
+      .limit(options.limit ?? 50);
+
+    return rows.map(row => ({ ...row.event, user: row.user }));
+  },
+
+  // Remove an item, recording whether it was eaten or wasted. Without an explicit
+  // disposition, items past their date count as expired and the rest as used.
+  async deleteKitchenItem(
+    id: string,
+    userId: string,
+    options: { disposition?: 'used' | 'discarded' | 'expired'; reason?: string } = {}
+  ): Promise<boolean> {
+    const familyId = await getUserFamilyId(userId);
+
+    return await db.transaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(kitchenInventory)
+        .where(and(eq(kitchenInventory.id, id), inventoryVisibleTo(userId, familyId)))
+        .limit(1)
+        .for('update');
+
+      if (!existing[0]) return false;
+      const item = existing[0];
+
+      const isPastDate = !!item.expirationDate && new Date(item.expirationDate) < new Date();
+      const disposition = options.disposition ?? (isPastDate ? 'expired' : 'used');
+      const quantity = parseFloat(item.quantity || '0');
+
+      await tx.insert(inventoryEvents).values({
+        inventoryItemId: item.id,
+        userId,
+        familyId: item.familyId,
+        itemName: item.name,
+        normalizedName: item.normalizedName,
+        eventType: disposition === 'used' ? 'consumed' : disposition,
+        category: item.category,
+        locationId: item.locationId,
+        quantityDelta: String(-quantity),
+        quantityAfter: '0',
+        unit: item.unit,
+        estimatedCost: estimateInventoryCost(item, quantity),
+        reason: options.reason || null,
+      });
+
+      await tx.delete(kitchenInventory).where(eq(kitchenInventory.id, id));
+      return true;
+    });
+  },
+
+  // Discarded and expired food per week and per category, with estimated cost
+  async getWasteReport(userId: string, options: { weeks?: number } = {}): Promise<{
+    since: Date;
+    weeks: Array<{ weekStart: string; itemCount: number; estimatedCost: number; quantities: Array<{ unit: string; amount: number }> }>;
+    categories: Array<{ category: string; itemCount: number; estimatedCost: number }>;
+    totals: { itemCount: number; estimatedCost: number; itemsWithoutPrice: number };
+  }> {
+    const weeks = options.weeks ?? 8;
+    const familyId = await getUserFamilyId(userId);
+
+    const since = new Date();
+    since.setHours(0, 0, 0, 0);
+    since.setDate(since.getDate() - weeks * 7);
+
+    const conditions = [
+      inArray(inventoryEvents.eventType, ['discarded', 'expired']),
+      gte(inventoryEvents.createdAt, since),
+      familyId
+        ? or(eq(inventoryEvents.userId, userId), eq(inventoryEvents.familyId, familyId))!
+        : eq(inventoryEvents.userId, userId),
+    ];
+
+    const weekStart = sql<string>`to_char(date_trunc('week', ${inventoryEvents.createdAt}), 'YYYY-MM-DD')`;
+    const unit = sql<string>`coalesce(${inventoryEvents.unit}, '')`;
+
+    const weeklyRows = await db
+      .select({
+        weekStart,
+        unit,
+        itemCount: sql<number>`count(*)`,
+        amount: sql<string>`sum(abs(${inventoryEvents.quantityDelta}))`,
+        estimatedCost: sql<string>`coalesce(sum(${inventoryEvents.estimatedCost}), 0)`,
+      })
+      .from(inventoryEvents)
+      .where(and(...conditions))
+      .groupBy(weekStart, unit)
+      .orderBy(weekStart);
+
+    const categoryRows = await db
+      .select({
+        category: inventoryEvents.category,
+        itemCount: sql<number>`count(*)`,
+        estimatedCost: sql<string>`coalesce(sum(${inventoryEvents.estimatedCost}), 0)`,
+        itemsWithoutPrice: sql<number>`count(*) filter (where ${inventoryEvents.estimatedCost} is null)`,
+      })
+      .from(inventoryEvents)
+      .where(and(...conditions))
+      .groupBy(inventoryEvents.category);
+
+    // Quantities in different units can't be added, so keep one total per unit
+    const weekMap = new Map<string, { weekStart: string; itemCount: number; estimatedCost: number; quantities: Array<{ unit: string; amount: number }> }>();
+    for (const row of weeklyRows) {
+      const week = weekMap.get(row.weekStart) ?? { weekStart: row.weekStart, itemCount: 0, estimatedCost: 0, quantities: [] };
+      week.itemCount += Number(row.itemCount);
+      week.estimatedCost = roundQuantity(week.estimatedCost + parseFloat(row.estimatedCost));
+      week.quantities.push({ unit: row.unit, amount: roundQuantity(parseFloat(row.amount)) });
+      weekMap.set(row.weekStart, week);
+    }
+
+    const categories = categoryRows.map(row => ({
+      category: row.category || 'other',
+      itemCount: Number(row.itemCount),
+      estimatedCost: roundQuantity(parseFloat(row.estimatedCost)),
+    }));
+
+    return {
+      since,
+      weeks: Array.from(weekMap.values()),
+      categories,
+      totals: {
+        itemCount: categories.reduce((sum, c) => sum + c.itemCount, 0),
+        estimatedCost: roundQuantity(categories.reduce((sum, c) => sum + c.estimatedCost, 0)),
+        itemsWithoutPrice: categoryRows.reduce((sum, row) => sum + Number(row.itemsWithoutPrice), 0),
+      },
+    };
   },
 
   // Kitchen Equipment
@@ -133,8 +1053,8 @@ export const storage = {
   },
 
   // Recipes
-  async getRecipeSummaries(limit: number = 15, dietType?: string): Promise<Array<{id: string, name: string, dietType: string | null, calories: number | null}>> {
-    const conditions = [];
+  async getRecipeSummaries(limit: number = 15, dietType?: string, viewerId?: string): Promise<Array<{id: string, name: string, dietType: string | null, calories: number | null}>> {
+    const conditions = [recipesVisibleTo(viewerId)];
     
     if (dietType && dietType !== 'all') {
       conditions.push(eq(recipes.dietType, dietType));
@@ -148,7 +1068,7 @@ export const storage = {
         calories: recipes.calories,
       })
       .from(recipes)
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .where(and(...conditions))
       .limit(limit)
       .orderBy(desc(recipes.createdAt));
     
@@ -196,36 +1116,42 @@ export const storage = {
     return { requiredTags, excludedTags };
   },
 
-  async getRecipes(filters?: {
-    searchQuery?: string;
-    dietType?: string;
-    cuisine?: string;
-    mealType?: string;
-    maxCalories?: number;
-    dietaryRestrictions?: string[];
-  }): Promise<any[]> {
-    let query = db.select().from(recipes);
-    
-    const conditions = [];
-    
-    if (filters?.dietType && filters.dietType !== "all") {
+  // Filters shared by recipe listing and search. `exclude` drops one filter
+  // so facet counts show what selecting another value would return.
+  getRecipeConditions(filters: RecipeFilters = {}, exclude?: RecipeFacet): SQL[] {
+    const conditions: SQL[] = [recipesVisibleTo(filters.viewerId)];
+
+    if (filters.dietType && filters.dietType !== "all" && exclude !== 'dietType') {
       conditions.push(eq(recipes.dietType, filters.dietType));
     }
-    
-    if (filters?.cuisine && filters.cuisine !== "all") {
+
+    if (filters.cuisine && filters.cuisine !== "all" && exclude !== 'cuisine') {
       conditions.push(eq(recipes.cuisine, filters.cuisine));
     }
-    
-    if (filters?.mealType && filters.mealType !== "all") {
+
+    if (filters.mealType && filters.mealType !== "all" && exclude !== 'mealType') {
       conditions.push(eq(recipes.mealType, filters.mealType));
     }
-    
-    if (filters?.maxCalories) {
-      conditions.push(gte(recipes.calories, 0));
+
+    // Nutrition ranges; recipes without a value for a filtered nutrient are excluded
+    if (filters.nutrition) {
+      const { basis, ranges, maxSodiumPerServing } = filters.nutrition;
+      for (const nutrient of NUTRIENTS) {
+        const range = ranges[nutrient];
+        if (!range) continue;
+        const value = basis === 'recipe'
+          ? sql`${recipes[nutrient]} * coalesce(${recipes.servings}, ${DEFAULT_SERVINGS})`
+          : sql`${recipes[nutrient]}`;
+        if (range.min !== undefined) conditions.push(sql<boolean>`${value} >= ${range.min}`);
+        if (range.max !== undefined) conditions.push(sql<boolean>`${value} <= ${range.max}`);
+      }
+      if (maxSodiumPerServing !== undefined) {
+        conditions.push(lte(recipes.sodium, maxSodiumPerServing));
+      }
     }
 
     // Apply dietary restriction filtering via tags
-    if (filters?.dietaryRestrictions && filters.dietaryRestrictions.length > 0) {
+    if (filters.dietaryRestrictions && filters.dietaryRestrictions.length > 0) {
       const { requiredTags, excludedTags } = this.mapDietaryRestrictionsToTags(
         filters.dietaryRestrictions
       );
@@ -240,47 +1166,182 @@ export const storage = {
         conditions.push(sql<boolean>`NOT (${recipes.tags} @> ARRAY[${tag}]::text[])`);
       });
     }
-    
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions)) as any;
+
+    // Full-text match on name, description, ingredients, tags and cuisine,
+    // plus trigram matching on the name so typos still find results
+    const searchQuery = filters.searchQuery?.trim();
+    if (searchQuery) {
+      conditions.push(sql<boolean>`(
+        ${recipes.searchVector} @@ websearch_to_tsquery('english', ${searchQuery})
+        OR ${searchQuery} <% ${recipes.name}
+      )`);
     }
-    
-    const results = await query.orderBy(desc(recipes.createdAt));
-    
-    // Get ratings for all recipes
-    const allRatings = await db.select().from(recipeRatings);
-    const ratingsByRecipe = allRatings.reduce((acc, rating) => {
-      if (!acc[rating.recipeId]) acc[rating.recipeId] = [];
-      acc[rating.recipeId].push(rating);
-      return acc;
-    }, {} as Record<string, any[]>);
-
-    // Add rating info to each recipe
-    const recipesWithRatings = results.map(recipe => {
-      const ratings = ratingsByRecipe[recipe.id] || [];
-      const averageRating = ratings.length > 0
-        ? ratings.reduce((sum, r) => sum + r.rating, 0) / ratings.length
-        : 0;
-      return {
-        ...recipe,
-        averageRating,
-        ratingCount: ratings.length,
-      };
-    });
-    
-    if (filters?.searchQuery) {
-      const search = filters.searchQuery.toLowerCase();
-      return recipesWithRatings.filter(r => 
-        r.name.toLowerCase().includes(search) ||
-        r.description?.toLowerCase().includes(search)
-      );
+
+    return conditions;
+  },
+
+  async getRecipes(filters: RecipeFilters & { limit?: number; offset?: number } = {}): Promise<RecipeWithRating[]> {
+    const conditions = this.getRecipeConditions(filters);
+    const searchQuery = filters.searchQuery?.trim();
+
+    const ratingStats = db
+      .select({
+        recipeId: recipeRatings.recipeId,
+        averageRating: sql<number>`avg(${recipeRatings.rating})`.as('average_rating'),
+        ratingCount: sql<number>`count(*)`.as('rating_count'),
+      })
+      .from(recipeRatings)
+      .groupBy(recipeRatings.recipeId)
+      .as('rating_stats');
+
+    const orderBy = searchQuery
+      ? [
+          desc(sql`ts_rank_cd(${recipes.searchVector}, websearch_to_tsquery('english', ${searchQuery}))
+            + word_similarity(${searchQuery}, ${recipes.name})`),
+          desc(recipes.createdAt),
+        ]
+      : [desc(recipes.createdAt)];
+
+    let query = db
+      .select({
+        recipe: recipeColumns,
+        averageRating: sql<number>`coalesce(${ratingStats.averageRating}, 0)`.mapWith(Number),
+        ratingCount: sql<number>`coalesce(${ratingStats.ratingCount}, 0)`.mapWith(Number),
+      })
+      .from(recipes)
+      .leftJoin(ratingStats, eq(ratingStats.recipeId, recipes.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(...orderBy)
+      .$dynamic();
+
+    if (filters.limit !== undefined) query = query.limit(filters.limit);
+    if (filters.offset) query = query.offset(filters.offset);
+
+    const results = await query;
+    return results.map(row => ({
+      ...row.recipe,
+      averageRating: row.averageRating,
+      ratingCount: row.ratingCount,
+    }));
+  },
+
+  // Paginated recipe search with result counts per cuisine, meal type and diet
+  async searchRecipes(filters: RecipeFilters & { page?: number; pageSize?: number } = {}): Promise<RecipeSearchResult> {
+    const page = Math.max(1, filters.page ?? 1);
+    const pageSize = Math.min(100, Math.max(1, filters.pageSize ?? 20));
+
+    const countFacet = async (facet: RecipeFacet) => {
+      const column = recipes[facet];
+      const conditions = [...this.getRecipeConditions(filters, facet), isNotNull(column)];
+      const rows = await db
+        .select({ value: column, count: sql<number>`count(*)`.mapWith(Number) })
+        .from(recipes)
+        .where(and(...conditions))
+        .groupBy(column)
+        .orderBy(desc(sql`count(*)`), column);
+      return rows.map(row => ({ value: row.value as string, count: row.count }));
+    };
+
+    const conditions = this.getRecipeConditions(filters);
+    const [results, [{ total }], cuisine, mealType, dietType] = await Promise.all([
+      this.getRecipes({ ...filters, limit: pageSize, offset: (page - 1) * pageSize }),
+      db
+        .select({ total: sql<number>`count(*)`.mapWith(Number) })
+        .from(recipes)
+        .where(conditions.length > 0 ? and(...conditions) : undefined),
+      countFacet('cuisine'),
+      countFacet('mealType'),
+      countFacet('dietType'),
+    ]);
+
+    return {
+      recipes: results,
+      total,
+      page,
+      pageSize,
+      facets: { cuisine, mealType, dietType },
+    };
+  },
+
+  // Parse structured steps for recipes saved before steps existed. Returns
+  // how many recipes were upgraded.
+  async backfillRecipeSteps(batchSize: number = 200): Promise<number> {
+    let upgraded = 0;
+    for (;;) {
+      const batch = await db
+        .select({ id: recipes.id, instructions: recipes.instructions, ingredients: recipes.ingredients })
+        .from(recipes)
+        .where(isNull(recipes.steps))
+        .limit(batchSize);
+      if (batch.length === 0) return upgraded;
+
+      for (const recipe of batch) {
+        const steps = parseSteps(recipe.instructions || [], (recipe.ingredients as RecipeIngredient[]) || []);
+        await db.update(recipes).set({ steps }).where(eq(recipes.id, recipe.id));
+      }
+      upgraded += batch.length;
+    }
+  },
+
+  // Fill in the normalized name on inventory events recorded before events
+  // kept one. Returns how many events were updated.
+  async backfillInventoryEventNames(batchSize: number = 500): Promise<number> {
+    let updated = 0;
+    for (;;) {
+      const batch = await db
+        .select({ id: inventoryEvents.id, name: inventoryEvents.itemName, familyId: inventoryEvents.familyId })
+        .from(inventoryEvents)
+        .where(isNull(inventoryEvents.normalizedName))
+        .limit(batchSize);
+      if (batch.length === 0) return updated;
+
+      updated += await updateNormalizedNames(inventoryEvents, batch.map(row => ({
+        id: row.id,
+        normalizedName: null,
+        renormalized: normalizeIngredientName(row.name, row.familyId),
+      })));
     }
-    
-    return recipesWithRatings;
   },
 
+  // Merge duplicate shelf-life corrections left from before the unique
+  // indexes existed, keeping the row with the most samples. Run before
+  // `drizzle-kit push` creates the indexes (server/prepareDatabase.ts).
+  async dedupeShelfLifeOverrides(): Promise<number> {
+    const exists = await db.execute(sql`SELECT to_regclass('shelf_life_overrides') IS NOT NULL AS exists`);
+    if (!(exists.rows[0] as { exists: boolean } | undefined)?.exists) return 0;
+
+    const result = await db.execute(sql`
+      DELETE FROM shelf_life_overrides
+      WHERE id IN (
+        SELECT id FROM (
+          SELECT id, row_number() OVER (
+            PARTITION BY coalesce(family_id, user_id), family_id IS NULL, normalized_name, category
+            ORDER BY sample_count DESC, updated_at DESC NULLS LAST
+          ) AS rank
+          FROM shelf_life_overrides
+        ) ranked
+        WHERE rank > 1
+      )
+    `);
+    return result.rowCount ?? 0;
+  },
+
+  // pg_trgm powers typo-tolerant recipe search; recipe_tags_text lets the
+  // generated search vector stem tags (array_to_string itself isn't
+  // immutable). Both must exist before `drizzle-kit push` creates the index
+  // and column that use them, see server/prepareDatabase.ts.
+  async ensureRecipeSearchExtensions(): Promise<void> {
+    await db.execute(sql`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+    await db.execute(sql`
+      CREATE OR REPLACE FUNCTION recipe_tags_text(tags text[]) RETURNS text
+      LANGUAGE sql IMMUTABLE PARALLEL SAFE
+      AS $$ SELECT array_to_string(tags, ' ') $$
+    `);
+  },
+
+  // Returns null for recipes the user can't see
   async getRecipeById(id: string, userId?: string): Promise<any | null> {
-    const recipe = await db.select().from(recipes).where(eq(recipes.id, id)).limit(1);
+    const recipe = await db.select().from(recipes).where(and(eq(recipes.id, id), recipesVisibleTo(userId))).limit(1);
     if (!recipe[0]) return null;
 
     const ratings = await db
@@ -331,20 +1392,263 @@ export const storage = {
       });
   },
 
-  async addRecipe(recipe: InsertRecipe): Promise<Recipe> {
-    const result = await db.insert(recipes).values(recipe).returning();
+  // Recipes users add are private unless they choose otherwise, and start
+  // their version history. Family recipes are shared with the author's family.
+  async addRecipe(recipe: InsertRecipe, authorId?: string, parentRecipeId?: string): Promise<Recipe> {
+    const visibility = recipe.visibility ?? (authorId ? 'private' : 'public');
+    const familyId = visibility === 'family' && authorId ? await getUserFamilyId(authorId) : null;
+
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(recipes)
+        .values({ ...recipe, ...syncRecipeSteps(recipe), visibility, familyId, authorId, parentRecipeId })
+        .returning();
+      if (authorId) {
+        await tx.insert(recipeVersions).values({
+          recipeId: created.id,
+          version: 1,
+          content: getRecipeContent(created),
+          editedBy: authorId,
+        });
+      }
+      return created;
+    });
+  },
+
+  // Copy a recipe into a private personal variant linked to it. `changes`
+  // apply to the copy (e.g. a new name), making them the variant's version 1.
+  async forkRecipe(parent: Recipe, userId: string, changes: UpdateRecipe = {}): Promise<Recipe> {
+    return await this.addRecipe(
+      { ...getRecipeContent(parent), visibility: 'private', ...changes },
+      userId,
+      parent.id,
+    );
+  },
+
+  // The user's own variants, keyed by the recipe each one forks. Pass recipe
+  // IDs to only look up variants of those.
+  async getUserVariants(userId: string, recipeIds?: string[]): Promise<Map<string, Recipe>> {
+    if (recipeIds && recipeIds.length === 0) return new Map();
+
+    const conditions = [eq(recipes.authorId, userId), isNotNull(recipes.parentRecipeId)];
+    if (recipeIds) conditions.push(inArray(recipes.parentRecipeId, recipeIds));
+
+    const variants = await db
+      .select()
+      .from(recipes)
+      .where(and(...conditions))
+      .orderBy(recipes.createdAt);
+    // Later variants of the same recipe replace earlier ones
+    return new Map(variants.map(variant => [variant.parentRecipeId!, variant]));
+  },
+
+  // Variants of a recipe the user can see (theirs, their family's, public ones)
+  async getRecipeVariants(recipeId: string, viewerId: string): Promise<Array<Pick<Recipe, 'id' | 'name' | 'authorId' | 'visibility' | 'createdAt'> & {
+    author: { firstName: string | null; lastName: string | null } | null;
+  }>> {
+    const rows = await db
+      .select({
+        id: recipes.id,
+        name: recipes.name,
+        authorId: recipes.authorId,
+        visibility: recipes.visibility,
+        createdAt: recipes.createdAt,
+        firstName: users.firstName,
+        lastName: users.lastName,
+      })
+      .from(recipes)
+      .leftJoin(users, eq(recipes.authorId, users.id))
+      .where(and(eq(recipes.parentRecipeId, recipeId), recipesVisibleTo(viewerId)))
+      .orderBy(desc(recipes.createdAt));
+
+    return rows.map(({ firstName, lastName, ...variant }) => ({
+      ...variant,
+      author: variant.authorId ? { firstName, lastName } : null,
+    }));
+  },
+
+  // Apply an author's edit. A new version is recorded when the content
+  // changes; visibility changes alone don't create one.
+  async updateRecipe(id: string, changes: UpdateRecipe, editorId: string, restoredFrom?: number): Promise<Recipe | null> {
+    // Visibility changes move the recipe into or out of the editor's family
+    const familyScope = changes.visibility === undefined
+      ? {}
+      : { familyId: changes.visibility === 'family' ? await getUserFamilyId(editorId) : null };
+
+    return await db.transaction(async (tx) => {
+      // Lock the recipe so concurrent edits read its content and take the
+      // next version number one at a time
+      const [existing] = await tx.select().from(recipes).where(eq(recipes.id, id)).for('update');
+      if (!existing) return null;
+
+      // New instructions are parsed into steps again; new steps replace the
+      // instructions. Ingredient edits re-link the stored steps to the new list.
+      const stepFields = changes.steps || changes.instructions || changes.ingredients
+        ? syncRecipeSteps({
+            steps: changes.steps ?? (changes.instructions ? null : existing.steps),
+            instructions: changes.instructions ?? existing.instructions,
+            ingredients: changes.ingredients ?? existing.ingredients,
+          }, { ingredientsChanged: !!changes.ingredients && !changes.steps })
+        : {};
+
+      const [updated] = await tx
+        .update(recipes)
+        .set({ ...changes, ...stepFields, ...familyScope })
+        .where(eq(recipes.id, id))
+        .returning();
+
+      const before = getRecipeContent(existing);
+      const after = getRecipeContent(updated);
+      if (JSON.stringify(before) === JSON.stringify(after)) return updated;
+
+      const [latest] = await tx
+        .select({ version: recipeVersions.version })
+        .from(recipeVersions)
+        .where(eq(recipeVersions.recipeId, id))
+        .orderBy(desc(recipeVersions.version))
+        .limit(1);
+
+      // Recipes created before versioning get their original content as version 1
+      let version = latest?.version ?? 0;
+      if (!latest) {
+        await tx.insert(recipeVersions).values({ recipeId: id, version: ++version, content: before, editedBy: existing.authorId });
+      }
+      await tx.insert(recipeVersions).values({
+        recipeId: id,
+        version: version + 1,
+        content: after,
+        editedBy: editorId,
+        restoredFrom: restoredFrom ?? null,
+      });
+      return updated;
+    });
+  },
+
+  // Recipes still referenced by meal plans, nutrition logs or cooking history
+  // can't be deleted; returns false for those
+  async deleteRecipe(id: string): Promise<boolean> {
+    const { nutritionLogMeals, cookingSessions } = await import('@shared/schema');
+    const references = await Promise.all([
+      db.select({ id: mealPlans.id }).from(mealPlans).where(eq(mealPlans.recipeId, id)).limit(1),
+      db.select({ id: mealSeatAssignments.id }).from(mealSeatAssignments).where(eq(mealSeatAssignments.recipeId, id)).limit(1),
+      db.select({ id: nutritionLogMeals.id }).from(nutritionLogMeals).where(eq(nutritionLogMeals.recipeId, id)).limit(1),
+      db.select({ id: cookingSessions.id }).from(cookingSessions).where(eq(cookingSessions.recipeId, id)).limit(1),
+    ]);
+    if (references.some(rows => rows.length > 0)) return false;
+
+    await db.delete(recipes).where(eq(recipes.id, id));
+    return true;
+  },
+
+  async canViewRecipe(id: string, userId?: string): Promise<boolean> {
+    const result = await db
+      .select({ id: recipes.id })
+      .from(recipes)
+      .where(and(eq(recipes.id, id), recipesVisibleTo(userId)))
+      .limit(1);
+    return result.length > 0;
+  },
+
+  // Version history, newest first, with the editor's name
+  async getRecipeVersions(recipeId: string): Promise<Array<RecipeVersion & {
+    editor: { firstName: string | null; lastName: string | null } | null;
+  }>> {
+    const rows = await db
+      .select({
+        version: recipeVersions,
+        firstName: users.firstName,
+        lastName: users.lastName,
+      })
+      .from(recipeVersions)
+      .leftJoin(users, eq(recipeVersions.editedBy, users.id))
+      .where(eq(recipeVersions.recipeId, recipeId))
+      .orderBy(desc(recipeVersions.version));
+
+    return rows.map(row => ({
+      ...row.version,
+      editor: row.version.editedBy ? { firstName: row.firstName, lastName: row.lastName } : null,
+    }));
+  },
+
+  async getRecipeVersion(recipeId: string, version: number): Promise<RecipeVersion | null> {
+    const result = await db
+      .select()
+      .from(recipeVersions)
+      .where(and(eq(recipeVersions.recipeId, recipeId), eq(recipeVersions.version, version)))
+      .limit(1);
+    return result[0] || null;
+  },
+
+  // Current content of a recipe, as it would be stored in a new version
+  async getRecipeContent(recipeId: string): Promise<RecipeContent | null> {
+    const [recipe] = await db.select().from(recipes).where(eq(recipes.id, recipeId)).limit(1);
+    return recipe ? getRecipeContent(recipe) : null;
+  },
+
+  // Recipes a user added or rated, with their rating, for bulk export
+  async getUserRecipesForExport(userId: string): Promise<Array<{
+    recipe: Omit<Recipe, 'searchVector'>;
+    own: boolean;
+    rating: number | null;
+    comment: string | null;
+  }>> {
+    const rows = await db
+      .select({
+        recipe: recipeColumns,
+        rating: recipeRatings.rating,
+        comment: recipeRatings.comment,
+      })
+      .from(recipes)
+      .leftJoin(recipeRatings, and(eq(recipeRatings.recipeId, recipes.id), eq(recipeRatings.userId, userId)))
+      .where(and(or(eq(recipes.authorId, userId), isNotNull(recipeRatings.id)), recipesVisibleTo(userId)))
+      .orderBy(recipes.name);
+
+    return rows.map(row => ({
+      recipe: row.recipe,
+      own: row.recipe.authorId === userId,
+      rating: row.rating,
+      comment: row.comment,
+    }));
+  },
+
+  async recipeExists(id: string): Promise<boolean> {
+    const result = await db.select({ id: recipes.id }).from(recipes).where(eq(recipes.id, id)).limit(1);
+    return result.length > 0;
+  },
+
+  // Copy an external recipe into the recipes table, refreshing an existing copy
+  async upsertExternalRecipe(recipe: InsertRecipe & { id: string; source: Exclude<Recipe['source'], 'local'>; externalId: string }): Promise<Recipe> {
+    const { id, ...fields } = recipe;
+    const stepFields = syncRecipeSteps(recipe);
+    const result = await db
+      .insert(recipes)
+      .values({ ...recipe, ...stepFields, importedAt: new Date() })
+      .onConflictDoUpdate({
+        target: recipes.id,
+        set: { ...fields, ...stepFields, importedAt: new Date() },
+      })
+      .returning();
     return result[0];
   },
 
-  async getRecommendedRecipes(userId: string): Promise<Recipe[]> {
-    // Get user's kitchen inventory (normalized names)
+  async getRecommendedRecipes(userId: string, options: {
+    mode?: 'default' | 'expiring';
+    withinDays?: number;
+    limit?: number;
+    minConfidence?: number; // 0-1, defaults to the user's preference
+  } = {}): Promise<RecommendedRecipe[]> {
+    const { mode = 'default', withinDays = DEFAULT_EXPIRING_WINDOW_DAYS, limit = 10 } = options;
+    const minConfidence = options.minConfidence ?? await this.getIngredientMatchConfidence(userId);
+
     const userInventory = await this.getKitchenInventory(userId);
-    const userIngredientNames = new Set(
-      userInventory.map(item => item.normalizedName).filter(Boolean)
-    );
 
-    // Get all recipes with their ingredients
-    const allRecipes = await db.select().from(recipes);
+    // Get all recipes the user can see, with their ingredients. The user's
+    // own variant of a recipe is recommended in its place.
+    const variants = await this.getUserVariants(userId);
+    const seen = new Set<string>();
+    const allRecipes = (await db.select().from(recipes).where(recipesVisibleTo(userId)))
+      .map(recipe => variants.get(recipe.id) ?? recipe)
+      .filter(recipe => !seen.has(recipe.id) && !!seen.add(recipe.id));
 
     // Get user's recipe interactions (views + searches)
     const interactions = await db
@@ -360,14 +1664,35 @@ export const storage = {
       interactions.map(i => [i.recipeId, Number(i.count)])
     );
 
+    // "Use it up" mode: only recipes that consume soon-to-expire items,
+    // ranked by how urgently those items need to be used
+    if (mode === 'expiring') {
+      const expiringItems = getExpiringItems(userInventory, withinDays);
+      if (expiringItems.length === 0) return [];
+
+      return allRecipes
+        .map(recipe => ({
+          recipe,
+          usage: scoreExpiringUsage((recipe.ingredients as RecipeIngredient[]) || [], expiringItems, new Date(), minConfidence),
+          interactionCount: interactionMap.get(recipe.id) || 0,
+        }))
+        .filter(item => item.usage.score > 0)
+        .sort((a, b) => (b.usage.score - a.usage.score) || (b.interactionCount - a.interactionCount))
+        .slice(0, limit)
+        .map(({ recipe, usage }) => ({
+          ...recipe,
+          expiringIngredients: usage.expiringIngredients,
+          useBy: usage.useBy,
+        }));
+    }
+
     // Score each recipe
     const scoredRecipes = allRecipes.map(recipe => {
       // Calculate ingredient match score (0-1)
       const recipeIngredients = (recipe.ingredients as any) || [];
-      const matchedIngredients = recipeIngredients.filter((ing: any) => {
-        const normalized = normalizeIngredientName(ing.name);
-        return userIngredientNames.has(normalized);
-      });
+      const matchedIngredients = recipeIngredients.filter((ing: any) =>
+        !!findMatchingIngredient(ing.name, userInventory, minConfidence)
+      );
       const ingredientMatchScore = recipeIngredients.length > 0
         ? matchedIngredients.length / recipeIngredients.length
         : 0;
@@ -387,11 +1712,11 @@ export const storage = {
       };
     });
 
-    // Sort by score (highest first) and return top 10
+    // Sort by score (highest first) and return the top results
     return scoredRecipes
       .sort((a, b) => b.score - a.score)
-      .slice(0, 10)
-      .map(item => item.recipe);
+      .slice(0, limit)
+      .map(item => ({ ...item.recipe, matchPercentage: Math.round(item.ingredientMatchScore * 100) }));
   },
 
   // Recipe Ratings
@@ -778,7 +2103,13 @@ export const storage = {
     const hasAccess = await userHasListAccess(item.listId, userId);
     if (!hasAccess) return null;
 
-    const normalizedName = normalizeIngredientName(item.name);
+    const list = await db
+      .select({ familyId: shoppingLists.familyId })
+      .from(shoppingLists)
+      .where(eq(shoppingLists.id, item.listId))
+      .limit(1);
+
+    const normalizedName = normalizeIngredientName(item.name, list[0]?.familyId);
     const result = await db.insert(shoppingListItems).values({
       ...item,
       normalizedName,
@@ -934,7 +2265,7 @@ export const storage = {
       return null;
     }
 
-    const normalizedName = normalizeIngredientName(item.name);
+    const normalizedName = normalizeIngredientName(item.name, await getUserFamilyId(targetUserId));
     const result = await db.insert(inventoryReviewQueue).values({
       ...item,
       normalizedName,
@@ -1016,22 +2347,53 @@ export const storage = {
       
       const reviewItem = reviewResult[0];
 
+      // Groceries from a family list go into the shared family kitchen
+      const familyId = list?.familyId ?? await getUserFamilyId(reviewItem.userId);
+
+      // Put the item where this household usually keeps it, falling back to the guess
+      const location = await getLearnedStorageLocation(
+        reviewItem.userId,
+        familyId,
+        reviewItem.normalizedName || normalizeIngredientName(reviewItem.name)
+      );
+      const category = location?.category || reviewItem.categoryGuess || 'fridge';
+      const estimatedExpiration = await estimateExpirationDate(reviewItem.userId, familyId, reviewItem.name, category, location);
+
       // Create kitchen inventory item
       const inventoryResult = await tx
         .insert(kitchenInventory)
         .values({
           userId: reviewItem.userId,
+          familyId,
           name: reviewItem.name,
           normalizedName: reviewItem.normalizedName,
           quantity: reviewItem.quantity || '1',
           unit: reviewItem.unit,
-          category: reviewItem.categoryGuess || 'fridge',
+          category,
+          locationId: location?.id ?? null,
+          expirationDate: estimatedExpiration,
+          expirationEstimated: !!estimatedExpiration,
           sourceItemId: reviewItem.sourceItemId,
         })
         .returning();
 
       const inventoryItem = inventoryResult[0];
 
+      const addedQuantity = parseFloat(inventoryItem.quantity || '0');
+      await tx.insert(inventoryEvents).values({
+        inventoryItemId: inventoryItem.id,
+        userId: reviewerUserId,
+        familyId: inventoryItem.familyId,
+        itemName: inventoryItem.name,
+        normalizedName: inventoryItem.normalizedName,
+        eventType: 'added',
+        category: inventoryItem.category,
+        locationId: inventoryItem.locationId,
+        quantityDelta: String(addedQuantity),
+        quantityAfter: String(addedQuantity),
+        unit: inventoryItem.unit,
+      });
+
       // Mark source shopping item as bought if it exists
       if (reviewItem.sourceItemId) {
         await tx
@@ -1126,6 +2488,32 @@ export const storage = {
     return result[0];
   },
 
+  // Insert a notification unless one with the same dedupe key exists (null if it does).
+  // The unique key keeps scheduler instances running side by side from both sending it.
+  async createNotificationOnce(notification: InsertNotification & { dedupeKey: string }): Promise<Notification | null> {
+    const result = await db
+      .insert(notifications)
+      .values(notification)
+      .onConflictDoNothing({ target: notifications.dedupeKey })
+      .returning();
+    return result[0] ?? null;
+  },
+
+  async hasNotificationSince(userId: string, type: Notification['type'], since: Date): Promise<boolean> {
+    const result = await db
+      .select({ id: notifications.id })
+      .from(notifications)
+      .where(
+        and(
+          eq(notifications.recipientUserId, userId),
+          eq(notifications.type, type),
+          gte(notifications.createdAt, since)
+        )
+      )
+      .limit(1);
+    return result.length > 0;
+  },
+
   async getUnreadNotifications(userId: string): Promise<Notification[]> {
     return await db
       .select()
@@ -1511,29 +2899,64 @@ export const storage = {
       .where(eq(mealSeatAssignments.seatId, seatId));
   },
 
-  async getShoppingListSuggestions(userId: string): Promise<Array<{
-    name: string;
-    quantity: string;
-    unit: string;
-    imageUrl?: string;
-    recipeNames: string[];
-  }>> {
-    // Get upcoming meal plans (next 7 days)
-    const today = new Date();
-    const nextWeek = new Date();
-    nextWeek.setDate(today.getDate() + 7);
+  async getShoppingListSuggestions(userId: string, options: {
+    from?: Date;
+    to?: Date;
+    scope?: 'personal' | 'family' | 'event';
+    familyId?: string;
+    eventId?: string;
+  } = {}): Promise<ShoppingSuggestion[]> {
+    const { events, eventMealPlans } = await import('@shared/schema');
+    const scope = options.scope || 'personal';
+
+    // Planning horizon defaults to the next 7 days
+    const from = options.from || new Date();
+    const to = options.to || new Date(from.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+    let upcomingMealPlans: MealPlan[];
+
+    if (scope === 'event') {
+      // Every meal linked to the event, regardless of the horizon
+      if (!options.eventId) return [];
+      upcomingMealPlans = (await db
+        .select({ mealPlan: mealPlans })
+        .from(eventMealPlans)
+        .innerJoin(mealPlans, eq(eventMealPlans.mealPlanId, mealPlans.id))
+        .where(eq(eventMealPlans.eventId, options.eventId)))
+        .map(r => r.mealPlan);
+    } else {
+      const owners = [eq(mealPlans.userId, userId)];
+      const eventOwners = [and(eq(events.userId, userId), isNull(events.familyId))];
+      if (scope === 'family' && options.familyId) {
+        owners.push(eq(mealPlans.familyId, options.familyId));
+        eventOwners.push(eq(events.familyId, options.familyId));
+      }
 
-    const upcomingMealPlans = await db
-      .select()
-      .from(mealPlans)
-      .where(
-        and(
-          eq(mealPlans.userId, userId),
-          sql`${mealPlans.scheduledFor} >= ${today.toISOString()}`,
-          sql`${mealPlans.scheduledFor} <= ${nextWeek.toISOString()}`
-        )
+      const inRange = (column: typeof mealPlans.scheduledFor | typeof events.scheduledFor) => and(
+        sql`${column} >= ${from.toISOString()}`,
+        sql`${column} <= ${to.toISOString()}`
       );
 
+      const plans = await db
+        .select()
+        .from(mealPlans)
+        .where(and(or(...owners), inRange(mealPlans.scheduledFor)));
+
+      // Meals linked to events in range (they may be scheduled on another day)
+      const eventPlans = await db
+        .select({ mealPlan: mealPlans })
+        .from(eventMealPlans)
+        .innerJoin(events, eq(eventMealPlans.eventId, events.id))
+        .innerJoin(mealPlans, eq(eventMealPlans.mealPlanId, mealPlans.id))
+        .where(and(or(...eventOwners), inRange(events.scheduledFor)));
+
+      const byId = new Map<string, MealPlan>();
+      for (const plan of [...plans, ...eventPlans.map(r => r.mealPlan)]) {
+        byId.set(plan.id, plan);
+      }
+      upcomingMealPlans = Array.from(byId.values());
+    }
+
     if (upcomingMealPlans.length === 0) {
       return [];
     }
@@ -1547,81 +2970,48 @@ export const storage = {
 
     // Get all recipe assignments for these seats
     const seatIds = seats.map(s => s.id);
-    const assignments = await db
-      .select({
-        assignment: mealSeatAssignments,
-        recipe: recipes,
-      })
-      .from(mealSeatAssignments)
-      .innerJoin(recipes, eq(mealSeatAssignments.recipeId, recipes.id))
-      .where(inArray(mealSeatAssignments.seatId, seatIds));
-
-    // Extract all ingredients from recipes with recipe names
-    interface IngredientWithRecipe {
-      name: string;
-      amount: string;
-      unit: string;
-      imageUrl?: string;
-      recipeName: string;
-    }
+    const assignments = seatIds.length > 0
+      ? await db
+          .select({
+            assignment: mealSeatAssignments,
+            recipe: recipes,
+          })
+          .from(mealSeatAssignments)
+          .innerJoin(recipes, eq(mealSeatAssignments.recipeId, recipes.id))
+          .where(inArray(mealSeatAssignments.seatId, seatIds))
+      : [];
 
-    const allIngredients: IngredientWithRecipe[] = [];
-    
-    for (const { recipe } of assignments) {
-      const recipeIngredients = (recipe.ingredients as any) || [];
-      for (const ing of recipeIngredients) {
-        allIngredients.push({
-          name: ing.name,
-          amount: ing.amount || "1",
-          unit: ing.unit || "",
-          imageUrl: ing.imageUrl,
-          recipeName: recipe.name,
-        });
-      }
+    // Each seat eats one serving, so a recipe assigned to three seats of the
+    // same meal is cooked once for three servings
+    const plannedRecipes: Array<{ recipe: Recipe; servings: number | null }> = [];
+    const seatedServings = new Map<string, { recipe: Recipe; servings: number }>();
+    const seatPlanIds = new Map(seats.map(s => [s.id, s.mealPlanId]));
+    for (const { assignment, recipe } of assignments) {
+      const key = `${seatPlanIds.get(assignment.seatId)}:${recipe.id}`;
+      const entry = seatedServings.get(key) || { recipe, servings: 0 };
+      entry.servings++;
+      seatedServings.set(key, entry);
     }
+    plannedRecipes.push(...Array.from(seatedServings.values()));
 
-    // Get current kitchen inventory (normalized names)
-    const inventory = await this.getKitchenInventory(userId);
-    const inventorySet = new Set(
-      inventory.map(item => item.normalizedName).filter(Boolean)
-    );
-
-    // Filter out ingredients we already have
-    const missingIngredients = allIngredients.filter(ing => {
-      const normalized = normalizeIngredientName(ing.name);
-      return !inventorySet.has(normalized);
-    });
-
-    // Group by ingredient name and aggregate recipes
-    const grouped = new Map<string, {
-      name: string;
-      quantity: string;
-      unit: string;
-      imageUrl?: string;
-      recipeNames: Set<string>;
-    }>();
-
-    for (const ing of missingIngredients) {
-      const normalized = normalizeIngredientName(ing.name);
-      if (!grouped.has(normalized)) {
-        grouped.set(normalized, {
-          name: ing.name,
-          quantity: ing.amount,
-          unit: ing.unit,
-          imageUrl: ing.imageUrl,
-          recipeNames: new Set([ing.recipeName]),
-        });
-      } else {
-        // Add recipe name to existing ingredient
-        grouped.get(normalized)!.recipeNames.add(ing.recipeName);
+    // Simple meal plans carry their recipe (and serving count) directly instead of via seats
+    const seatedPlanIds = new Set(seats.map(s => s.mealPlanId));
+    const simplePlans = upcomingMealPlans.filter(mp => !seatedPlanIds.has(mp.id) && mp.recipeId);
+    if (simplePlans.length > 0) {
+      const simpleRecipes = await db
+        .select()
+        .from(recipes)
+        .where(inArray(recipes.id, Array.from(new Set(simplePlans.map(mp => mp.recipeId!)))));
+      for (const plan of simplePlans) {
+        const recipe = simpleRecipes.find(r => r.id === plan.recipeId);
+        if (recipe) plannedRecipes.push({ recipe, servings: plan.servings });
       }
     }
 
-    // Convert to array and transform Set to Array
-    return Array.from(grouped.values()).map(item => ({
-      ...item,
-      recipeNames: Array.from(item.recipeNames),
-    }));
+    // Group ingredients with the same family aliases the inventory was normalized with
+    const familyId = options.familyId ?? await getUserFamilyId(userId);
+    const inventory = await this.getKitchenInventory(userId);
+    return getShoppingShortfalls(plannedRecipes, inventory, familyId);
   },
 
   // ============= POLLS FOR YOU FEED =============
@@ -1701,7 +3091,7 @@ export const storage = {
     return await db
       .select()
       .from(recipes)
-      .where(sql`${recipes.imageUrl} IS NOT NULL`)
+      .where(and(sql`${recipes.imageUrl} IS NOT NULL`, eq(recipes.visibility, 'public')))
       .orderBy(sql`RANDOM()`)
       .limit(limit);
   },
@@ -1942,7 +3332,6 @@ export const storage = {
   async updateCookingSessionProgress(sessionId: string, params: {
     currentStep?: number;
     status?: 'active' | 'paused' | 'completed' | 'abandoned';
-    timers?: import("@shared/schema").CookingTimer[];
   }): Promise<import("@shared/schema").CookingSession> {
     const { cookingSessions } = await import('@shared/schema');
     
@@ -1959,49 +3348,433 @@ export const storage = {
         updateData.completedAt = new Date();
       }
     }
-    if (params.timers !== undefined) {
-      updateData.timers = params.timers;
-    }
     
     const result = await db
       .update(cookingSessions)
       .set(updateData)
       .where(eq(cookingSessions.id, sessionId))
       .returning();
+
+    // Timers die with the session so nothing rings after the cook is done
+    if (params.status === 'completed' || params.status === 'abandoned') {
+      await this.clearCookingTimers(sessionId);
+    }
     
     return result[0];
   },
 
-  async completeCookingSession(sessionId: string, deductIngredients: boolean = false): Promise<{
+  async completeCookingSession(sessionId: string, userId: string, options: {
+    deductIngredients?: boolean;
+    servings?: number;
+  } = {}): Promise<{
     session: import("@shared/schema").CookingSession;
     ingredientsDeducted: boolean;
-  }> {
+    deducted: IngredientDeduction[];
+    missing: MissingIngredient[];
+  } | null> {
     const { cookingSessions, recipes } = await import('@shared/schema');
-    
-    // Mark session as completed
-    const sessionResult = await db
-      .update(cookingSessions)
-      .set({
-        status: 'completed',
-        completedAt: new Date(),
-        ingredientsDeductedAt: deductIngredients ? new Date() : null,
+
+    const familyId = await getUserFamilyId(userId);
+
+    return await db.transaction(async (tx) => {
+      // Lock the session so a second completion (e.g. a double tap) waits for
+      // this one and then sees the ingredients as already deducted
+      const existing = await tx
+        .select()
+        .from(cookingSessions)
+        .where(
+          and(
+            eq(cookingSessions.id, sessionId),
+            eq(cookingSessions.userId, userId)
+          )
+        )
+        .limit(1)
+        .for('update');
+
+      if (!existing[0]) return null;
+
+      const deducted: IngredientDeduction[] = [];
+      const missing: MissingIngredient[] = [];
+
+      // Never deduct twice for the same session
+      const shouldDeduct = !!options.deductIngredients && !existing[0].ingredientsDeductedAt;
+
+      if (shouldDeduct) {
+        const recipe = await tx
+          .select()
+          .from(recipes)
+          .where(eq(recipes.id, existing[0].recipeId))
+          .limit(1);
+
+        const recipeIngredients = ((recipe[0]?.ingredients as RecipeIngredient[]) || []);
+        // Servings given at completion win over those chosen when the session started
+        const servings = options.servings ?? existing[0].servings;
+        const scale = servings && servings > 0
+          ? getServingsScale(recipe[0]?.servings, servings)
+          : 1;
+
+        // Lock the rows being drawn down so concurrent edits can't overwrite them
+        const inventory = await tx
+          .select()
+          .from(kitchenInventory)
+          .where(inventoryVisibleTo(existing[0].userId, familyId))
+          .for('update');
+
+        for (const ing of recipeIngredients) {
+          // "Salt to taste" has no amount to deduct
+          const parsed = parseQuantity(ing.amount);
+          if (!parsed) continue;
+          const required = parsed.value * scale;
+          const unit = ing.unit || '';
+
+          // Draw down every matching item (two open bags of rice), best match
+          // first. Items of unknown quantity come last and are left alone.
+          const best = findMatchingIngredient(ing.name, inventory);
+          if (!best) {
+            missing.push({ name: ing.name, amount: roundQuantity(required), unit, reason: 'not_in_inventory' });
+            continue;
+          }
+          const matches = [best, ...filterMatchingIngredients(ing.name, inventory).filter(item => item !== best)];
+          const known = matches.filter(item => parseQuantity(item.quantity) !== null);
+          const unknownQuantity = matches.length > known.length;
+
+          let outstanding = required; // in the recipe's unit
+          let comparable = false;
+          for (const item of known) {
+            if (outstanding <= 0) break;
+
+            // Express what's still needed in the inventory item's unit
+            const neededInItemUnit = convertQuantity(outstanding, ing.unit, item.unit, ing.name);
+            if (neededInItemUnit === null) continue;
+            comparable = true;
+
+            const available = parseQuantity(item.quantity)!.value;
+            if (available <= 0) continue;
+            const used = Math.min(available, neededInItemUnit);
+            const remaining = roundQuantity(available - used);
+            outstanding = used >= neededInItemUnit
+              ? 0
+              : outstanding - (convertQuantity(used, item.unit, ing.unit, ing.name) ?? outstanding);
+
+            await tx.insert(inventoryEvents).values({
+              inventoryItemId: item.id,
+              userId,
+              familyId: item.familyId,
+              itemName: item.name,
+              normalizedName: item.normalizedName,
+              eventType: 'cooked',
+              category: item.category,
+              locationId: item.locationId,
+              quantityDelta: String(-roundQuantity(used)),
+              quantityAfter: String(Math.max(0, remaining)),
+              unit: item.unit,
+              estimatedCost: estimateInventoryCost(item, used),
+              cookingSessionId: sessionId,
+            });
+
+            if (remaining <= 0) {
+              await tx.delete(kitchenInventory).where(eq(kitchenInventory.id, item.id));
+              inventory.splice(inventory.indexOf(item), 1);
+            } else {
+              await tx
+                .update(kitchenInventory)
+                .set({ quantity: remaining.toString() })
+                .where(eq(kitchenInventory.id, item.id));
+              item.quantity = remaining.toString();
+            }
+
+            deducted.push({
+              name: ing.name,
+              inventoryItemId: item.id,
+              inventoryName: item.name,
+              amount: roundQuantity(used),
+              unit: item.unit || unit,
+              remaining,
+              removed: remaining <= 0,
+            });
+          }
+
+          // An item of unknown quantity is assumed to cover whatever is left
+          if (unknownQuantity || roundQuantity(outstanding) <= 0) continue;
+
+          missing.push(comparable
+            ? { name: ing.name, amount: roundQuantity(outstanding), unit, reason: 'insufficient_quantity' }
+            : { name: ing.name, amount: roundQuantity(required), unit, reason: 'unit_mismatch' });
+        }
+      }
+
+      // Mark session as completed
+      const sessionResult = await tx
+        .update(cookingSessions)
+        .set({
+          status: 'completed',
+          completedAt: new Date(),
+          ...(shouldDeduct && { ingredientsDeductedAt: new Date() }),
+        })
+        .where(eq(cookingSessions.id, sessionId))
+        .returning();
+
+      await this.clearCookingTimers(sessionId, tx);
+
+      return {
+        session: sessionResult[0],
+        ingredientsDeducted: shouldDeduct,
+        deducted,
+        missing,
+      };
+    });
+  },
+
+  async getCookingSession(sessionId: string, userId: string): Promise<import("@shared/schema").CookingSession | null> {
+    const { cookingSessions } = await import('@shared/schema');
+
+    const result = await db
+      .select()
+      .from(cookingSessions)
+      .where(
+        and(
+          eq(cookingSessions.id, sessionId),
+          eq(cookingSessions.userId, userId)
+        )
+      )
+      .limit(1);
+
+    return result[0] || null;
+  },
+
+  // Cooking Timers
+  async getCookingTimers(sessionId: string): Promise<import("@shared/schema").CookingTimer[]> {
+    const { cookingTimers } = await import('@shared/schema');
+
+    return await db
+      .select()
+      .from(cookingTimers)
+      .where(eq(cookingTimers.sessionId, sessionId))
+      .orderBy(cookingTimers.startedAt);
+  },
+
+  async createCookingTimer(sessionId: string, userId: string, timer: import("@shared/schema").CreateCookingTimer): Promise<import("@shared/schema").CookingTimer> {
+    const { cookingTimers } = await import('@shared/schema');
+
+    const startedAt = new Date();
+    const result = await db
+      .insert(cookingTimers)
+      .values({
+        sessionId,
+        userId,
+        label: timer.label,
+        stepNumber: timer.stepNumber ?? null,
+        durationSeconds: timer.durationSeconds,
+        status: 'running',
+        startedAt,
+        endsAt: getTimerEndsAt(startedAt, timer.durationSeconds, 0),
       })
-      .where(eq(cookingSessions.id, sessionId))
       .returning();
-    
-    const session = sessionResult[0];
-    
-    // TODO: Implement ingredient deduction logic
-    // This would require:
-    // 1. Get recipe ingredients
-    // 2. Match with kitchen inventory
-    // 3. Deduct quantities
-    // For now, just mark the timestamp
-    
-    return {
-      session,
-      ingredientsDeducted: deductIngredients,
-    };
+
+    return result[0];
+  },
+
+  // Returns null when the timer isn't running (already paused or finished)
+  async pauseCookingTimer(timerId: string, sessionId: string): Promise<import("@shared/schema").CookingTimer | null> {
+    const { cookingTimers } = await import('@shared/schema');
+
+    const now = new Date();
+    const result = await db
+      .update(cookingTimers)
+      .set({ status: 'paused', pausedAt: now, endsAt: null })
+      .where(
+        and(
+          eq(cookingTimers.id, timerId),
+          eq(cookingTimers.sessionId, sessionId),
+          eq(cookingTimers.status, 'running'),
+          sql`${cookingTimers.endsAt} > ${now}`
+        )
+      )
+      .returning();
+
+    return result[0] || null;
+  },
+
+  // Returns null when the timer isn't paused
+  async resumeCookingTimer(timerId: string, sessionId: string): Promise<import("@shared/schema").CookingTimer | null> {
+    const { cookingTimers } = await import('@shared/schema');
+
+    return await db.transaction(async (tx) => {
+      const [timer] = await tx
+        .select()
+        .from(cookingTimers)
+        .where(
+          and(
+            eq(cookingTimers.id, timerId),
+            eq(cookingTimers.sessionId, sessionId),
+            eq(cookingTimers.status, 'paused')
+          )
+        )
+        .limit(1);
+
+      if (!timer || !timer.pausedAt) return null;
+
+      const now = new Date();
+      const pausedSeconds = timer.pausedSeconds + Math.max(0, Math.round((now.getTime() - timer.pausedAt.getTime()) / 1000));
+      const result = await tx
+        .update(cookingTimers)
+        .set({
+          status: 'running',
+          pausedAt: null,
+          pausedSeconds,
+          endsAt: getTimerEndsAt(timer.startedAt, timer.durationSeconds, pausedSeconds),
+        })
+        .where(
+          and(
+            eq(cookingTimers.id, timerId),
+            eq(cookingTimers.status, 'paused')
+          )
+        )
+        .returning();
+
+      return result[0] || null;
+    });
+  },
+
+  async deleteCookingTimer(timerId: string, sessionId: string): Promise<boolean> {
+    const { cookingTimers } = await import('@shared/schema');
+
+    const result = await db
+      .delete(cookingTimers)
+      .where(
+        and(
+          eq(cookingTimers.id, timerId),
+          eq(cookingTimers.sessionId, sessionId)
+        )
+      )
+      .returning({ id: cookingTimers.id });
+
+    return result.length > 0;
+  },
+
+  async clearCookingTimers(sessionId: string, txClient?: any): Promise<void> {
+    const { cookingTimers } = await import('@shared/schema');
+    const dbClient = txClient || db;
+
+    await dbClient
+      .delete(cookingTimers)
+      .where(eq(cookingTimers.sessionId, sessionId));
+  },
+
+  /**
+   * Move timers saved in the deprecated cooking_sessions.timers column into
+   * cooking_timers, for sessions that are still in progress. Timers already
+   * past their end are stored as finished so they don't notify late.
+   */
+  async migrateLegacyCookingTimers(): Promise<number> {
+    const { cookingSessions, cookingTimers } = await import('@shared/schema');
+
+    const sessions = await db
+      .select({ id: cookingSessions.id, userId: cookingSessions.userId, legacyTimers: cookingSessions.legacyTimers })
+      .from(cookingSessions)
+      .where(
+        and(
+          or(
+            eq(cookingSessions.status, 'active'),
+            eq(cookingSessions.status, 'paused')
+          ),
+          sql`jsonb_typeof(${cookingSessions.legacyTimers}) = 'array'`,
+          sql`jsonb_array_length(${cookingSessions.legacyTimers}) > 0`
+        )
+      );
+
+    const now = new Date();
+    let migrated = 0;
+    for (const session of sessions) {
+      const timers = (session.legacyTimers || []).filter(timer =>
+        Number(timer?.duration) > 0 && !isNaN(new Date(timer.startedAt).getTime())
+      );
+
+      await db.transaction(async (tx) => {
+        if (timers.length > 0) {
+          await tx.insert(cookingTimers).values(timers.map(timer => {
+            const startedAt = new Date(timer.startedAt);
+            const durationSeconds = Math.round(Number(timer.duration));
+            const endsAt = getTimerEndsAt(startedAt, durationSeconds, 0);
+            const finished = endsAt <= now;
+            return {
+              sessionId: session.id,
+              userId: session.userId,
+              label: (timer.label || `Step ${(timer.stepNumber ?? 0) + 1}`).slice(0, 60),
+              stepNumber: timer.stepNumber ?? null,
+              durationSeconds,
+              status: finished ? 'finished' as const : 'running' as const,
+              startedAt,
+              endsAt,
+              finishedAt: finished ? endsAt : null,
+            };
+          }));
+        }
+        await tx
+          .update(cookingSessions)
+          .set({ legacyTimers: [] })
+          .where(eq(cookingSessions.id, session.id));
+      });
+      migrated += timers.length;
+    }
+
+    return migrated;
+  },
+
+  /**
+   * Mark running timers that are due as finished. The status check in the
+   * update means each timer is claimed (and notified) exactly once, even
+   * with several server instances.
+   */
+  async finishDueCookingTimers(now: Date = new Date()): Promise<Array<{
+    timer: import("@shared/schema").CookingTimer;
+    recipeId: string;
+    recipeName: string;
+  }>> {
+    const { cookingTimers, cookingSessions } = await import('@shared/schema');
+
+    const finished = await db
+      .update(cookingTimers)
+      .set({ status: 'finished', finishedAt: sql`${cookingTimers.endsAt}` })
+      .where(
+        and(
+          eq(cookingTimers.status, 'running'),
+          lte(cookingTimers.endsAt, now)
+        )
+      )
+      .returning();
+
+    if (finished.length === 0) return [];
+
+    const sessions = await db
+      .select({ id: cookingSessions.id, recipeId: recipes.id, recipeName: recipes.name })
+      .from(cookingSessions)
+      .innerJoin(recipes, eq(cookingSessions.recipeId, recipes.id))
+      .where(inArray(cookingSessions.id, Array.from(new Set(finished.map(timer => timer.sessionId)))));
+    const sessionRecipes = new Map(sessions.map(session => [session.id, session]));
+
+    return finished.flatMap(timer => {
+      const session = sessionRecipes.get(timer.sessionId);
+      return session ? [{ timer, recipeId: session.recipeId, recipeName: session.recipeName }] : [];
+    });
+  },
+
+  async getNextCookingTimerEnd(): Promise<Date | null> {
+    const { cookingTimers } = await import('@shared/schema');
+
+    const result = await db
+      .select({ endsAt: cookingTimers.endsAt })
+      .from(cookingTimers)
+      .where(
+        and(
+          eq(cookingTimers.status, 'running'),
+          isNotNull(cookingTimers.endsAt)
+        )
+      )
+      .orderBy(cookingTimers.endsAt)
+      .limit(1);
+
+    return result[0]?.endsAt ?? null;
   },
 
   // Nutrition Tracking
@@ -12,11 +12,20 @@ import {
   decimal,
   pgEnum,
   unique,
+  uniqueIndex,
   date,
+  customType,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
 // ============= REPLIT AUTH TABLES (MANDATORY) =============
 
 // Session storage table - mandatory for Replit Auth
@@ -56,11 +65,32 @@ export const users = pgTable("users", {
   carbsTarget: integer("carbs_target"), // grams per day
   fatTarget: integer("fat_target"), // grams per day
   onboardingCompleted: boolean("onboarding_completed").default(false),
+  isAdmin: boolean("is_admin").default(false).notNull(),
+
+  // Expiration reminders
+  expirationRemindersEnabled: boolean("expiration_reminders_enabled").default(true).notNull(),
+  expirationReminderDays: integer("expiration_reminder_days").default(3).notNull(), // lead time in days
+
+  // Minimum confidence (percent) for an inventory item to count as a recipe ingredient
+  ingredientMatchConfidence: integer("ingredient_match_confidence").default(75).notNull(),
 });
 
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 
+// Request schema for updating expiration reminder preferences (API validation)
+export const updateExpirationReminderPreferencesSchema = z.object({
+  enabled: z.boolean().optional(),
+  leadDays: z.number().int().min(0, "Lead time cannot be negative").max(14, "Lead time cannot exceed 14 days").optional(),
+});
+export type UpdateExpirationReminderPreferences = z.infer<typeof updateExpirationReminderPreferencesSchema>;
+
+// Request schema for updating ingredient matching preferences (API validation)
+export const updateIngredientMatchingPreferencesSchema = z.object({
+  minConfidence: z.number().int().min(0, "Confidence cannot be negative").max(100, "Confidence cannot exceed 100"),
+});
+export type UpdateIngredientMatchingPreferences = z.infer<typeof updateIngredientMatchingPreferencesSchema>;
+
 // ============= FAMILY MANAGEMENT =============
 
 export const families = pgTable("families", {
@@ -83,6 +113,14 @@ export const familyMembers = pgTable("family_members", {
 
 // ============= RECIPES =============
 
+// Where a recipe came from. External recipes are copied into this table the
+// first time they're used, keeping their original ID (e.g. "spoon-123").
+export const recipeSourceEnum = pgEnum('recipe_source', ['local', 'spoonacular', 'api_ninjas', 'fixture']);
+
+// Who can see a recipe besides its author. Family recipes are shared with the
+// family the author belonged to when they shared it.
+export const recipeVisibilityEnum = pgEnum('recipe_visibility', ['private', 'family', 'public']);
+
 export const recipes = pgTable("recipes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: varchar("name").notNull(),
@@ -101,9 +139,49 @@ export const recipes = pgTable("recipes", {
   mealType: varchar("meal_type"), // breakfast, lunch, dinner, snack
   ingredients: jsonb("ingredients").notNull(), // [{name, amount, unit}]
   instructions: text("instructions").array(),
+  steps: jsonb("steps").$type<RecipeStep[]>(), // structured instructions; null until parsed from the text
   tags: text("tags").array(),
+  source: recipeSourceEnum("source").default('local').notNull(),
+  externalId: varchar("external_id"), // ID at the source, for external recipes
+  importedAt: timestamp("imported_at"), // last time an external copy was refreshed
+  authorId: varchar("author_id").references(() => users.id, { onDelete: 'set null' }), // user who added it, null for seeded and external recipes
+  visibility: recipeVisibilityEnum("visibility").default('public').notNull(),
+  familyId: varchar("family_id").references(() => families.id, { onDelete: 'set null' }), // family a 'family' recipe is shared with
+  parentRecipeId: varchar("parent_recipe_id").references((): AnyPgColumn => recipes.id, { onDelete: 'set null' }), // recipe this personal variant was forked from
   createdAt: timestamp("created_at").defaultNow(),
-});
+  // Full-text search document, weighted name > cuisine/tags > ingredients > description
+  searchVector: tsvector("search_vector").generatedAlwaysAs(sql`
+    setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(cuisine, '') || ' ' || coalesce(meal_type, '') || ' ' || coalesce(diet_type, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(recipe_tags_text(tags), '')), 'B') ||
+    setweight(jsonb_to_tsvector('english', jsonb_path_query_array(ingredients, '$[*].name'), '["string"]'), 'C') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'D')
+  `),
+}, (table) => [
+  index("recipes_search_vector_idx").using("gin", table.searchVector),
+  // Typo-tolerant name matching. pg_trgm and recipe_tags_text (used above)
+  // are created by server/prepareDatabase.ts, which `npm run db:push` runs first.
+  index("recipes_name_trgm_idx").using("gin", sql`${table.name} gin_trgm_ops`),
+  index("recipes_created_at_idx").on(table.createdAt),
+  index("recipes_author_id_idx").on(table.authorId),
+  index("recipes_visibility_family_idx").on(table.visibility, table.familyId),
+  index("recipes_parent_author_idx").on(table.parentRecipeId, table.authorId),
+  unique("recipes_source_external_id_unique").on(table.source, table.externalId),
+]);
+
+// Content of a user recipe after each edit, so family members can compare
+// versions and the author can roll back. Version 1 is the recipe as created.
+export const recipeVersions = pgTable("recipe_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  recipeId: varchar("recipe_id").notNull().references(() => recipes.id, { onDelete: 'cascade' }),
+  version: integer("version").notNull(),
+  content: jsonb("content").$type<RecipeContent>().notNull(),
+  editedBy: varchar("edited_by").references(() => users.id, { onDelete: 'set null' }),
+  restoredFrom: integer("restored_from"), // version this one rolled back to, if any
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("recipe_versions_recipe_version_unique").on(table.recipeId, table.version),
+]);
 
 export const recipeRatings = pgTable("recipe_ratings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -117,24 +195,125 @@ export const recipeRatings = pgTable("recipe_ratings", {
   unique().on(table.recipeId, table.userId)
 ]);
 
+// ============= INGREDIENT ALIASES =============
+
+// synonym: the alias is rewritten to the canonical name ("courgette" -> "zucchini")
+// is_a: the alias is a kind of the canonical name ("cherry tomato" -> "tomato")
+export const ingredientAliasRelationEnum = pgEnum('ingredient_alias_relation', ['synonym', 'is_a']);
+
+export const ingredientAliases = pgTable("ingredient_aliases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  alias: varchar("alias").notNull(), // normalized form
+  canonicalName: varchar("canonical_name").notNull(), // normalized form
+  relation: ingredientAliasRelationEnum("relation").notNull().default('synonym'),
+  familyId: varchar("family_id").references(() => families.id, { onDelete: 'cascade' }), // null = applies to everyone
+  createdById: varchar("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("ingredient_aliases_alias_idx").on(table.alias),
+]);
+
+// Words stripped from ingredient names before matching: units, spelled-out
+// numbers, preparation and size words ("2 cups chopped onions" -> "onion")
+export const ingredientStopwords = pgTable("ingredient_stopwords", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  word: varchar("word").notNull().unique(),
+  createdById: varchar("created_by_id").references(() => users.id), // null = built in
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // ============= KITCHEN INVENTORY =============
 
-export const inventoryCategoryEnum = pgEnum('inventory_category', ['fridge', 'pantry', 'other']);
+export const inventoryCategoryEnum = pgEnum('inventory_category', ['fridge', 'freezer', 'pantry', 'other']);
+
+// User-defined places food is kept (garage fridge, spice rack, wine cellar...)
+export const storageLocations = pgTable("storage_locations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id), // creator
+  familyId: varchar("family_id").references(() => families.id, { onDelete: 'cascade' }), // shared with the family kitchen
+  name: varchar("name").notNull(),
+  category: inventoryCategoryEnum("category").notNull().default('other'), // which kind of storage it is
+  defaultShelfLifeDays: integer("default_shelf_life_days"), // used when an item has no expiration date
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("storage_locations_user_idx").on(table.userId),
+  index("storage_locations_family_idx").on(table.familyId),
+]);
 
 export const kitchenInventory = pgTable("kitchen_inventory", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").notNull().references(() => users.id),
+  userId: varchar("user_id").notNull().references(() => users.id), // who added the item
+  familyId: varchar("family_id").references(() => families.id, { onDelete: 'set null' }), // shared family kitchen (null = personal)
   name: varchar("name").notNull(),
   normalizedName: varchar("normalized_name"), // for consistent matching
   category: inventoryCategoryEnum("category").default('fridge'),
+  locationId: varchar("location_id").references(() => storageLocations.id, { onDelete: 'set null' }),
   quantity: decimal("quantity").default("1"),
   unit: varchar("unit"), // cup, lb, oz, etc.
   imageUrl: varchar("image_url"), // Spoonacular ingredient image
   expirationDate: timestamp("expiration_date"),
+  expirationEstimated: boolean("expiration_estimated").default(false).notNull(), // filled in from shelf-life data
   sourceItemId: varchar("source_item_id"), // link to shopping list item
+  pricePerUnit: decimal("price_per_unit"), // cost of one `unit`, for waste estimates
   addedAt: timestamp("added_at").defaultNow(),
 });
 
+// Household shelf-life learned from users correcting estimated expiration dates
+export const shelfLifeOverrides = pgTable("shelf_life_overrides", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id), // household owner when not in a family
+  familyId: varchar("family_id").references(() => families.id, { onDelete: 'cascade' }),
+  normalizedName: varchar("normalized_name").notNull(),
+  category: inventoryCategoryEnum("category").notNull(),
+  shelfLifeDays: integer("shelf_life_days").notNull(), // running average of corrections
+  sampleCount: integer("sample_count").default(1).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("shelf_life_overrides_lookup_idx").on(table.normalizedName, table.category),
+  // One running average per household: per family, or per user outside one
+  uniqueIndex("shelf_life_overrides_family_unique")
+    .on(table.familyId, table.normalizedName, table.category)
+    .where(sql`${table.familyId} is not null`),
+  uniqueIndex("shelf_life_overrides_user_unique")
+    .on(table.userId, table.normalizedName, table.category)
+    .where(sql`${table.familyId} is null`),
+]);
+
+export const inventoryEventTypeEnum = pgEnum('inventory_event_type', [
+  'added',
+  'consumed', // used manually
+  'cooked', // deducted by a cooking session
+  'adjusted',
+  'discarded',
+  'expired',
+]);
+
+// Audit trail of who used or changed what in the kitchen
+export const inventoryEvents = pgTable("inventory_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  inventoryItemId: varchar("inventory_item_id").references(() => kitchenInventory.id, { onDelete: 'set null' }), // kept after the item is used up
+  userId: varchar("user_id").notNull().references(() => users.id), // who did it
+  familyId: varchar("family_id").references(() => families.id, { onDelete: 'set null' }),
+  itemName: varchar("item_name").notNull(), // snapshot, since the item may be deleted
+  normalizedName: varchar("normalized_name"), // snapshot of the item's normalized name
+  eventType: inventoryEventTypeEnum("event_type").notNull(),
+  category: inventoryCategoryEnum("category"), // snapshot for per-category reports
+  locationId: varchar("location_id").references(() => storageLocations.id, { onDelete: 'set null' }), // where the item was kept
+  quantityDelta: decimal("quantity_delta").notNull(), // negative when used up
+  quantityAfter: decimal("quantity_after").notNull(),
+  unit: varchar("unit"),
+  estimatedCost: decimal("estimated_cost"), // value of quantityDelta, when the price is known
+  cookingSessionId: varchar("cooking_session_id").references(() => cookingSessions.id, { onDelete: 'set null' }),
+  reason: text("reason"),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("inventory_events_item_idx").on(table.inventoryItemId),
+  index("inventory_events_user_created_idx").on(table.userId, table.createdAt),
+  index("inventory_events_family_created_idx").on(table.familyId, table.createdAt),
+  index("inventory_events_name_idx").on(table.normalizedName),
+]);
+
 // ============= MEAL PLANNING =============
 
 export const mealPlans = pgTable("meal_plans", {
@@ -143,6 +322,7 @@ export const mealPlans = pgTable("meal_plans", {
   userId: varchar("user_id").references(() => users.id), // for personal meal plans
   recipeId: varchar("recipe_id").references(() => recipes.id), // nullable for multi-seat meals
   scheduledFor: timestamp("scheduled_for").notNull(),
+  servings: integer("servings"), // simple plans; null uses the recipe's own (seated plans cook a serving per seat)
   isApproved: boolean("is_approved").default(false),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -243,6 +423,8 @@ export const notificationTypeEnum = pgEnum('notification_type', [
   'shopping_bought',
   'review_required',
   'meal_vote',
+  'expiring_items',
+  'timer_finished',
 ]);
 
 export const notifications = pgTable("notifications", {
@@ -252,9 +434,12 @@ export const notifications = pgTable("notifications", {
   title: varchar("title").notNull(),
   message: text("message"),
   payload: jsonb("payload"), // {itemId, itemName, assignerId, etc}
+  dedupeKey: varchar("dedupe_key"), // set on notifications sent at most once, e.g. one reminder per user per day
   createdAt: timestamp("created_at").defaultNow(),
   readAt: timestamp("read_at"),
-});
+}, (table) => [
+  uniqueIndex("notifications_dedupe_key_unique").on(table.dedupeKey),
+]);
 
 // ============= RECIPE INTERACTIONS (Smart Recommendations) =============
 
@@ -341,6 +526,18 @@ export const recipesRelations = relations(recipes, ({ many }) => ({
   seatAssignments: many(mealSeatAssignments),
   nutritionLogMeals: many(nutritionLogMeals),
   cookingSessions: many(cookingSessions),
+  versions: many(recipeVersions),
+}));
+
+export const recipeVersionsRelations = relations(recipeVersions, ({ one }) => ({
+  recipe: one(recipes, {
+    fields: [recipeVersions.recipeId],
+    references: [recipes.id],
+  }),
+  editor: one(users, {
+    fields: [recipeVersions.editedBy],
+    references: [users.id],
+  }),
 }));
 
 export const recipeRatingsRelations = relations(recipeRatings, ({ one }) => ({
@@ -494,18 +691,68 @@ export const insertFamilyMemberSchema = createInsertSchema(familyMembers).omit({
 export type InsertFamilyMember = z.infer<typeof insertFamilyMemberSchema>;
 export type FamilyMember = typeof familyMembers.$inferSelect;
 
-export const insertRecipeSchema = createInsertSchema(recipes).omit({
+// A structured recipe step. `text` is the step as written (and what
+// `recipes.instructions` holds); the rest is detected from it by the step
+// parser or set by the author.
+export const recipeStepSchema = z.object({
+  text: z.string().trim().min(1),
+  durations: z.array(z.object({
+    seconds: z.number().int().positive(),
+    maxSeconds: z.number().int().positive().optional(), // upper end of "20-25 minutes"
+    label: z.string().optional(), // what is being timed, e.g. "bake"
+  })).optional(),
+  temperature: z.object({
+    value: z.number().int().positive(),
+    unit: z.enum(["C", "F"]),
+  }).optional(),
+  equipment: z.array(z.string()).optional(),
+  ingredientRefs: z.array(z.number().int().min(0)).optional(), // indexes into the recipe's ingredients
+});
+export type RecipeStep = z.infer<typeof recipeStepSchema>;
+export type RecipeStepDuration = NonNullable<RecipeStep["durations"]>[number];
+
+export const insertRecipeSchema = createInsertSchema(recipes, {
+  steps: z.array(recipeStepSchema).nullable().optional(),
+}).omit({
   id: true,
+  source: true,
+  externalId: true,
+  importedAt: true,
+  authorId: true,
+  familyId: true,
+  parentRecipeId: true,
   createdAt: true,
 });
 export type InsertRecipe = z.infer<typeof insertRecipeSchema>;
 export type Recipe = typeof recipes.$inferSelect;
+export type RecipeVisibility = Recipe['visibility'];
+
+// Fields an author can edit; every field is optional
+export const updateRecipeSchema = insertRecipeSchema.partial();
+export type UpdateRecipe = z.infer<typeof updateRecipeSchema>;
+
+// The parts of a recipe that are versioned (everything but who can see it)
+export type RecipeContent = Omit<InsertRecipe, 'visibility'>;
+export type RecipeVersion = typeof recipeVersions.$inferSelect;
+
+// Request schema for importing a recipe: a page URL, raw HTML, or a schema.org JSON-LD document
+export const importRecipeRequestSchema = z.object({
+  url: z.string().url().optional(),
+  html: z.string().max(5_000_000).optional(),
+  jsonLd: z.union([z.string(), z.record(z.any()), z.array(z.any())]).optional(),
+}).refine(data => [data.url, data.html, data.jsonLd].filter(value => value !== undefined).length === 1, {
+  message: "Provide exactly one of url, html or jsonLd",
+});
+export type ImportRecipeRequest = z.infer<typeof importRecipeRequestSchema>;
 
 // Ingredient structure for recipe ingredients JSONB field
 export type RecipeIngredient = {
   name: string;
   amount: string;
   unit: string;
+  size?: string; // package size, e.g. "14 oz" for "1 (14 oz) can"
+  preparation?: string; // e.g. "finely chopped"
+  optional?: boolean;
   imageUrl?: string;
 };
 
@@ -516,12 +763,82 @@ export const insertRecipeRatingSchema = createInsertSchema(recipeRatings).omit({
 export type InsertRecipeRating = z.infer<typeof insertRecipeRatingSchema>;
 export type RecipeRating = typeof recipeRatings.$inferSelect;
 
+export const insertIngredientAliasSchema = createInsertSchema(ingredientAliases, {
+  alias: (schema) => schema.trim().min(1, "Alias is required").max(100),
+  canonicalName: (schema) => schema.trim().min(1, "Canonical name is required").max(100),
+}).omit({
+  id: true,
+  familyId: true,
+  createdById: true,
+  createdAt: true,
+});
+export type InsertIngredientAlias = z.infer<typeof insertIngredientAliasSchema>;
+export type IngredientAlias = typeof ingredientAliases.$inferSelect;
+
+export const insertIngredientStopwordSchema = createInsertSchema(ingredientStopwords, {
+  word: (schema) => schema.trim().toLowerCase().regex(/^[a-z]+$/, "Stopword must be a single word").max(50),
+}).omit({
+  id: true,
+  createdById: true,
+  createdAt: true,
+});
+export type InsertIngredientStopword = z.infer<typeof insertIngredientStopwordSchema>;
+export type IngredientStopword = typeof ingredientStopwords.$inferSelect;
+
 export const insertKitchenInventorySchema = createInsertSchema(kitchenInventory).omit({
   id: true,
   addedAt: true,
 });
 export type InsertKitchenInventory = z.infer<typeof insertKitchenInventorySchema>;
 export type KitchenInventory = typeof kitchenInventory.$inferSelect;
+export type KitchenInventoryWithAddedBy = KitchenInventory & {
+  addedBy: Pick<User, 'id' | 'firstName' | 'lastName' | 'profileImageUrl'> | null;
+};
+
+// Request schema for editing an inventory item (API validation)
+export const updateKitchenInventorySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").optional(),
+  quantity: z.coerce.number().min(0, "Quantity cannot be negative").optional(),
+  unit: z.string().nullable().optional(),
+  category: z.enum(['fridge', 'freezer', 'pantry', 'other']).optional(),
+  locationId: z.string().nullable().optional(),
+  expirationDate: z.coerce.date().nullable().optional(),
+  pricePerUnit: z.coerce.number().min(0, "Price cannot be negative").nullable().optional(),
+  shared: z.boolean().optional(), // move between personal and family kitchen
+});
+export type UpdateKitchenInventory = z.infer<typeof updateKitchenInventorySchema>;
+
+// Request schema for using up part of an inventory item (API validation)
+export const consumeKitchenInventorySchema = z.object({
+  amount: z.coerce.number().positive("Amount must be greater than 0"),
+  unit: z.string().nullable().optional(), // defaults to the item's unit
+  note: z.string().max(200).optional(),
+});
+export type ConsumeKitchenInventory = z.infer<typeof consumeKitchenInventorySchema>;
+
+// Request schema for removing an inventory item (API validation)
+export const removeKitchenInventorySchema = z.object({
+  disposition: z.enum(['used', 'discarded', 'expired']).optional(),
+  reason: z.string().max(200).optional(),
+});
+export type RemoveKitchenInventory = z.infer<typeof removeKitchenInventorySchema>;
+
+export type InventoryEvent = typeof inventoryEvents.$inferSelect;
+export type ShelfLifeOverride = typeof shelfLifeOverrides.$inferSelect;
+
+export const insertStorageLocationSchema = createInsertSchema(storageLocations, {
+  name: (schema) => schema.trim().min(1, "Name is required").max(60),
+  defaultShelfLifeDays: (schema) => schema.int().min(1).max(3650),
+}).omit({
+  id: true,
+  userId: true,
+  familyId: true,
+  createdAt: true,
+}).extend({
+  shared: z.boolean().optional(), // share with the family kitchen (default when in a family)
+});
+export type InsertStorageLocation = z.infer<typeof insertStorageLocationSchema>;
+export type StorageLocation = typeof storageLocations.$inferSelect;
 
 export const insertMealPlanSchema = createInsertSchema(mealPlans).omit({
   id: true,
@@ -534,12 +851,17 @@ export type MealPlanWithRecipe = MealPlan & {
   recipe: Pick<Recipe, "id" | "name" | "imageUrl"> | null;
 };
 
+// Largest serving count a recipe can be scaled to
+export const MAX_SERVINGS = 100;
+
 // Discriminated union schemas for meal plan creation
 export const simpleMealPlanSchema = z.object({
   variant: z.literal("simple"),
   recipeId: z.string(),
   scheduledFor: z.string(),
+  servings: z.number().int().min(1).max(MAX_SERVINGS).optional(),
   familyId: z.string().optional().nullable(),
+  useOriginalRecipe: z.boolean().optional(), // plan the given recipe even if the user has a variant of it
 });
 
 export const tableMealPlanSchema = z.object({
@@ -552,6 +874,7 @@ export const tableMealPlanSchema = z.object({
     recipeId: z.string(),
     assignedUserId: z.string().optional().nullable(),
   })).min(1),
+  useOriginalRecipe: z.boolean().optional(),
 });
 
 export const mealPlanRequestSchema = z.discriminatedUnion("variant", [
@@ -753,16 +1076,42 @@ export const cookingSessions = pgTable("cooking_sessions", {
   recipeId: varchar("recipe_id").notNull().references(() => recipes.id),
   status: cookingSessionStatusEnum("status").default('active'),
   currentStep: integer("current_step").default(0), // 0-indexed step number
-  timers: jsonb("timers"), // [{stepNumber, duration, startedAt, label}]
+  servings: integer("servings"), // servings being cooked; null uses the recipe's own
   notes: text("notes"),
   startedAt: timestamp("started_at").defaultNow(),
   lastInteractionAt: timestamp("last_interaction_at").defaultNow(),
   completedAt: timestamp("completed_at"),
   ingredientsDeductedAt: timestamp("ingredients_deducted_at"),
+  // Deprecated: timers now live in cooking_timers. Timers of active sessions
+  // are moved there at startup; the column stays so no data is dropped.
+  legacyTimers: jsonb("timers").$type<LegacyCookingTimer[]>(),
 }, (table) => [
   index("cooking_sessions_user_status_idx").on(table.userId, table.status)
 ]);
 
+export const cookingTimerStatusEnum = pgEnum('cooking_timer_status', ['running', 'paused', 'finished']);
+
+// Named timers in a cooking session, several of which can run at once. Time
+// left is computed from the start time and the time spent paused, so it
+// survives reloads and reads the same on every device.
+export const cookingTimers = pgTable("cooking_timers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => cookingSessions.id, { onDelete: 'cascade' }),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  label: varchar("label").notNull(), // e.g. "Bake", "Pasta"
+  stepNumber: integer("step_number"), // 0-indexed step the timer was started from
+  durationSeconds: integer("duration_seconds").notNull(),
+  status: cookingTimerStatusEnum("status").default('running').notNull(),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  pausedAt: timestamp("paused_at"), // set while paused
+  pausedSeconds: integer("paused_seconds").default(0).notNull(), // time spent in earlier pauses
+  endsAt: timestamp("ends_at"), // when a running timer is due; null while paused
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  index("cooking_timers_session_idx").on(table.sessionId),
+  index("cooking_timers_status_ends_at_idx").on(table.status, table.endsAt),
+]);
+
 // ============= POLL RELATIONS =============
 
 export const pollQuestionsRelations = relations(pollQuestions, ({ many }) => ({
@@ -834,7 +1183,7 @@ export const nutritionLogMealsRelations = relations(nutritionLogMeals, ({ one })
   }),
 }));
 
-export const cookingSessionsRelations = relations(cookingSessions, ({ one }) => ({
+export const cookingSessionsRelations = relations(cookingSessions, ({ one, many }) => ({
   user: one(users, {
     fields: [cookingSessions.userId],
     references: [users.id],
@@ -843,6 +1192,14 @@ export const cookingSessionsRelations = relations(cookingSessions, ({ one }) =>
     fields: [cookingSessions.recipeId],
     references: [recipes.id],
   }),
+  timers: many(cookingTimers),
+}));
+
+export const cookingTimersRelations = relations(cookingTimers, ({ one }) => ({
+  session: one(cookingSessions, {
+    fields: [cookingTimers.sessionId],
+    references: [cookingSessions.id],
+  }),
 }));
 
 // ============= POLL INSERT SCHEMAS =============
@@ -922,14 +1279,31 @@ export const insertCookingSessionSchema = createInsertSchema(cookingSessions).om
   lastInteractionAt: true,
   completedAt: true,
   ingredientsDeductedAt: true,
+  legacyTimers: true,
 });
 export type InsertCookingSession = z.infer<typeof insertCookingSessionSchema>;
 export type CookingSession = typeof cookingSessions.$inferSelect;
 
-// Timer structure for cookingSessions.timers JSONB field
-export type CookingTimer = {
+export type CookingTimer = typeof cookingTimers.$inferSelect;
+
+// Timer shape of the deprecated cookingSessions.timers JSONB field
+export type LegacyCookingTimer = {
   stepNumber: number;
   duration: number; // seconds
   startedAt: Date | string;
   label?: string;
 };
+
+// A timer as returned by the API, with the time left when it was read
+export type CookingTimerWithRemaining = CookingTimer & { remainingSeconds: number };
+
+export const createCookingTimerSchema = z.object({
+  label: z.string().trim().min(1).max(60),
+  durationSeconds: z.number().int().min(1).max(24 * 60 * 60),
+  stepNumber: z.number().int().min(0).optional(),
+});
+export type CreateCookingTimer = z.infer<typeof createCookingTimerSchema>;
+
+export const updateCookingTimerSchema = z.object({
+  action: z.enum(["pause", "resume"]),
+});